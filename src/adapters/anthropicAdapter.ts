@@ -0,0 +1,341 @@
+/**
+ * Anthropic Adapter
+ * Converts between the Anthropic Messages format and the Ollama request /
+ * UnifiedResponse formats, so /v1/messages can share the /api/chat pipeline
+ */
+
+import { randomBytes } from "node:crypto";
+import type {
+  AnthropicContentBlock,
+  AnthropicErrorResponse,
+  AnthropicImageBlock,
+  AnthropicMessage,
+  AnthropicMessagesRequest,
+  AnthropicMessagesResponse,
+  AnthropicResponseBlock,
+  AnthropicStopReason,
+  AnthropicTextBlock,
+  AnthropicTool,
+  AnthropicToolResultBlock,
+  AnthropicToolUseBlock,
+  AnthropicUsage,
+} from "../types/anthropic.js";
+import type {
+  OllamaChatRequest,
+  OllamaMessage,
+  OllamaOptions,
+  OllamaTool,
+} from "../types/ollama.js";
+import type { UnifiedResponse } from "../types/tool-selection.js";
+import type { DoneReason } from "../services/generationOptions.js";
+import type { TokenUsage } from "../services/tokenUsage.js";
+import { getToolInvocations } from "./ollamaAdapter.js";
+
+/**
+ * An Anthropic request converted for the /api/chat pipeline
+ */
+export interface ConvertedAnthropicRequest {
+  request: OllamaChatRequest;
+
+  /** tool_choice asked for at least one tool call */
+  requireToolCall: boolean;
+}
+
+/**
+ * How the generated text ended
+ */
+export interface AnthropicStopInfo {
+  doneReason: DoneReason;
+
+  /** Stop sequence that ended the text, if any */
+  stopSequence: string | null;
+}
+
+/**
+ * Convert an Anthropic Messages request to an Ollama chat request
+ *
+ * - `system` becomes the first system message
+ * - tool_use blocks become tool_calls; tool_result blocks become tool
+ *   messages named after the tool_use they answer
+ * - tool_choice "none" drops the tools; "tool" keeps only the named tool
+ * - stop_sequences and max_tokens map to stop and num_predict
+ */
+export function convertAnthropicRequestToOllama(
+  request: AnthropicMessagesRequest,
+): ConvertedAnthropicRequest {
+  const toolChoice = request.tool_choice || { type: "auto" };
+  let tools = (request.tools || []).map(convertAnthropicToolToOllama);
+
+  if (toolChoice.type === "none") {
+    tools = [];
+  } else if (toolChoice.type === "tool") {
+    tools = tools.filter((tool) => tool.function.name === toolChoice.name);
+  }
+
+  const system = typeof request.system === "string"
+    ? request.system
+    : getBlocksText(request.system || []);
+
+  return {
+    request: {
+      model: request.model,
+      messages: [
+        ...(system ? [{ role: "system" as const, content: system }] : []),
+        ...convertAnthropicMessagesToOllama(request.messages),
+      ],
+      ...(request.stream !== undefined && { stream: request.stream }),
+      ...(tools.length > 0 && { tools }),
+      options: getAnthropicOptions(request),
+    },
+    requireToolCall:
+      tools.length > 0 && (toolChoice.type === "any" || toolChoice.type === "tool"),
+  };
+}
+
+/**
+ * Convert Anthropic messages to Ollama messages
+ *
+ * A user message carrying tool_result blocks turns into one tool message
+ * per result, followed by a user message for any text next to them.
+ * Base64 image blocks become `images` of the user or tool message.
+ */
+export function convertAnthropicMessagesToOllama(messages: AnthropicMessage[]): OllamaMessage[] {
+  const toolNamesById = new Map<string, string>();
+  const converted: OllamaMessage[] = [];
+
+  for (const msg of messages) {
+    const blocks: AnthropicContentBlock[] = typeof msg.content === "string"
+      ? [{ type: "text", text: msg.content }]
+      : msg.content;
+    const text = getBlocksText(blocks);
+
+    if (msg.role === "assistant") {
+      const toolUses = blocks.filter(isToolUseBlock);
+      toolUses.forEach((block) => toolNamesById.set(block.id, block.name));
+
+      converted.push({
+        role: "assistant",
+        content: text,
+        ...(toolUses.length > 0 && {
+          tool_calls: toolUses.map((block) => ({
+            function: { name: block.name, arguments: block.input || {} },
+          })),
+        }),
+      });
+      continue;
+    }
+
+    for (const block of blocks.filter(isToolResultBlock)) {
+      const toolName = toolNamesById.get(block.tool_use_id);
+      const resultBlocks = typeof block.content === "string" ? [] : block.content || [];
+      const content = typeof block.content === "string"
+        ? block.content
+        : getBlocksText(resultBlocks);
+      const images = getBlocksImages(resultBlocks);
+
+      converted.push({
+        role: "tool",
+        content: block.is_error ? `Error: ${content}` : content,
+        ...(toolName && { tool_name: toolName }),
+        ...(images.length > 0 && { images }),
+      });
+    }
+
+    const images = getBlocksImages(blocks);
+    if (text || images.length > 0 || !blocks.some(isToolResultBlock)) {
+      converted.push({
+        role: "user",
+        content: text,
+        ...(images.length > 0 && { images }),
+      });
+    }
+  }
+
+  return converted;
+}
+
+/**
+ * Convert unified response to Anthropic Messages format
+ *
+ * Key differences from Ollama:
+ * - content is a list of blocks: text, or one tool_use block per call
+ * - every tool_use block has an id that tool_result blocks refer to
+ * - stop_reason is "tool_use" when tools were called
+ */
+export function convertUnifiedResponseToAnthropic(
+  response: UnifiedResponse,
+  modelId: string,
+  messageId: string,
+  stop: AnthropicStopInfo = { doneReason: "stop", stopSequence: null },
+  usage?: TokenUsage,
+): AnthropicMessagesResponse {
+  const stopReason = getAnthropicStopReason(response, stop);
+
+  return {
+    id: messageId,
+    type: "message",
+    role: "assistant",
+    model: modelId,
+    content: createAnthropicContentBlocks(response),
+    stop_reason: stopReason,
+    stop_sequence: stopReason === "stop_sequence" ? stop.stopSequence : null,
+    usage: convertTokenUsageToAnthropic(usage),
+  };
+}
+
+/**
+ * Create the content blocks of a response
+ * Tool calls get fresh "toolu_" ids.
+ */
+export function createAnthropicContentBlocks(response: UnifiedResponse): AnthropicResponseBlock[] {
+  if (response.action === "answer" || response.action === "chat") {
+    return [{ type: "text", text: response.content }];
+  }
+
+  return createAnthropicToolUseBlocks(response);
+}
+
+/**
+ * Create tool_use blocks for the calls of a response
+ *
+ * @returns Empty for answer and chat responses
+ */
+export function createAnthropicToolUseBlocks(response: UnifiedResponse): AnthropicToolUseBlock[] {
+  return getToolInvocations(response).map((call) => ({
+    type: "tool_use",
+    id: `toolu_${randomBytes(12).toString("hex")}`,
+    name: call.tool_name,
+    input: call.arguments,
+  }));
+}
+
+/**
+ * stop_reason for a response
+ */
+export function getAnthropicStopReason(
+  response: UnifiedResponse,
+  stop: AnthropicStopInfo,
+): AnthropicStopReason {
+  if (response.action === "tool_call" || response.action === "tool_calls") {
+    return "tool_use";
+  }
+  if (stop.doneReason === "length") {
+    return "max_tokens";
+  }
+  return stop.stopSequence !== null ? "stop_sequence" : "end_turn";
+}
+
+/**
+ * Convert token usage to the Anthropic usage object
+ * Without usage data both counts are 0.
+ */
+export function convertTokenUsageToAnthropic(usage?: TokenUsage): AnthropicUsage {
+  return {
+    input_tokens: usage?.promptTokens || 0,
+    output_tokens: usage?.completionTokens || 0,
+  };
+}
+
+/**
+ * Create the message of the `message_start` event that opens a stream
+ * Content and stop reason follow in later events.
+ */
+export function createAnthropicMessageStart(
+  messageId: string,
+  modelId: string,
+): AnthropicMessagesResponse {
+  return {
+    id: messageId,
+    type: "message",
+    role: "assistant",
+    model: modelId,
+    content: [],
+    stop_reason: null,
+    stop_sequence: null,
+    usage: convertTokenUsageToAnthropic(),
+  };
+}
+
+/**
+ * Create an Anthropic error body
+ */
+export function convertErrorToAnthropic(
+  message: string,
+  type = "api_error",
+): AnthropicErrorResponse {
+  return {
+    type: "error",
+    error: { type, message },
+  };
+}
+
+/**
+ * Create a message id ("msg_...")
+ */
+export function createMessageId(): string {
+  return `msg_${randomBytes(12).toString("hex")}`;
+}
+
+function convertAnthropicToolToOllama(tool: AnthropicTool): OllamaTool {
+  return {
+    type: "function",
+    function: {
+      name: tool.name,
+      description: tool.description || "",
+      parameters: {
+        type: "object",
+        properties: {},
+        ...tool.input_schema,
+      },
+    },
+  };
+}
+
+/**
+ * Text of the text blocks in a list of blocks
+ */
+function getBlocksText(blocks: AnthropicContentBlock[]): string {
+  return blocks
+    .filter(isTextBlock)
+    .map((block) => block.text)
+    .join("\n");
+}
+
+/**
+ * Base64 images of a list of blocks, as data URLs
+ */
+function getBlocksImages(blocks: AnthropicContentBlock[]): string[] {
+  return blocks
+    .filter(isImageBlock)
+    .flatMap((block) =>
+      block.source.type === "base64"
+        ? [`data:${block.source.media_type};base64,${block.source.data}`]
+        : [],
+    );
+}
+
+function isTextBlock(block: AnthropicContentBlock): block is AnthropicTextBlock {
+  return block.type === "text" && typeof block.text === "string";
+}
+
+function isImageBlock(block: AnthropicContentBlock): block is AnthropicImageBlock {
+  return block.type === "image" && typeof block.source === "object" && block.source !== null;
+}
+
+function isToolUseBlock(block: AnthropicContentBlock): block is AnthropicToolUseBlock {
+  return block.type === "tool_use";
+}
+
+function isToolResultBlock(block: AnthropicContentBlock): block is AnthropicToolResultBlock {
+  return block.type === "tool_result";
+}
+
+function getAnthropicOptions(request: AnthropicMessagesRequest): OllamaOptions {
+  return {
+    ...(request.stop_sequences && { stop: request.stop_sequences }),
+    ...(request.max_tokens !== undefined && { num_predict: request.max_tokens }),
+    ...(request.temperature !== undefined && { temperature: request.temperature }),
+    ...(request.top_p !== undefined && { top_p: request.top_p }),
+    ...(request.top_k !== undefined && { top_k: request.top_k }),
+  };
+}
@@ -3,16 +3,29 @@
  * Converts between Ollama API format and internal UnifiedResponse format
  */
 
+import { createHash } from "node:crypto";
 import type {
   OllamaChatRequest,
   OllamaChatResponse,
+  OllamaEmbedResponse,
+  OllamaGenerateRequest,
+  OllamaGenerateResponse,
   OllamaMessage,
+  OllamaModel,
+  OllamaShowResponse,
   OllamaToolCall,
 } from "../types/ollama.js";
 import type {
   UnifiedResponse,
   ExtractionResult,
+  ToolInvocation,
 } from "../types/tool-selection.js";
+import type { CatalogModel } from "../services/modelCatalog.js";
+import type { ModelAlias } from "../services/modelAliasStore.js";
+import { formatModelfile, formatParameters } from "../services/modelfile.js";
+import type { DoneReason } from "../services/generationOptions.js";
+import type { TokenUsage } from "../services/tokenUsage.js";
+import type { EmbedResult } from "../services/embeddings.js";
 
 /**
  * Extract messages, tools from Ollama chat request
@@ -48,7 +61,7 @@ export function extractMessagesAndTools(
  * Convert unified response to Ollama chat response format
  * 
  * Handles three response types:
- * - tool_call: Returns assistant message with tool_calls array
+ * - tool_call / tool_calls: Returns assistant message with tool_calls array
  * - answer: Returns assistant message with content (from tool results)
  * - chat: Returns assistant message with content (conversational)
  * 
@@ -61,22 +74,24 @@ export function convertUnifiedResponseToOllama(
   response: UnifiedResponse,
   modelId: string,
   processingTimeMs: number,
+  doneReason: DoneReason = "stop",
+  usage?: TokenUsage,
 ): OllamaChatResponse {
-  const totalDurationNs = processingTimeMs * 1_000_000;
+  const metrics = createOllamaMetrics(processingTimeMs, usage);
 
-  if (response.action === "tool_call") {
+  if (response.action === "tool_call" || response.action === "tool_calls") {
     // Return tool call response
-    const toolCall: OllamaToolCall = {
+    const toolCalls: OllamaToolCall[] = getToolInvocations(response).map((call) => ({
       function: {
-        name: response.tool_name,
-        arguments: response.arguments, // Object, not JSON.stringify()!
+        name: call.tool_name,
+        arguments: call.arguments, // Object, not JSON.stringify()!
       },
-    };
+    }));
 
     const message: OllamaMessage = {
       role: "assistant",
       content: "", // Empty string - client won't display during tool execution
-      tool_calls: [toolCall],
+      tool_calls: toolCalls,
     };
 
     return {
@@ -85,9 +100,7 @@ export function convertUnifiedResponseToOllama(
       message,
       done: true,
       done_reason: "stop",
-      total_duration: totalDurationNs,
-      eval_count: 1,
-      eval_duration: totalDurationNs,
+      ...metrics,
     };
   } else {
     // Return text response (answer or chat)
@@ -101,12 +114,64 @@ export function convertUnifiedResponseToOllama(
       created_at: new Date().toISOString(),
       message,
       done: true,
-      done_reason: "stop",
+      done_reason: doneReason,
+      ...metrics,
+    };
+  }
+}
+
+/**
+ * Create the token counts and durations of a final Ollama response
+ * 
+ * Durations are in nanoseconds. Without usage data only the total duration
+ * is known, and a single evaluated token is reported as before.
+ */
+export function createOllamaMetrics(
+  processingTimeMs: number,
+  usage?: TokenUsage,
+): Pick<
+  OllamaChatResponse,
+  | "total_duration"
+  | "load_duration"
+  | "prompt_eval_count"
+  | "prompt_eval_duration"
+  | "eval_count"
+  | "eval_duration"
+> {
+  const totalDurationNs = processingTimeMs * 1_000_000;
+
+  if (!usage) {
+    return {
       total_duration: totalDurationNs,
       eval_count: 1,
       eval_duration: totalDurationNs,
     };
   }
+
+  return {
+    total_duration: totalDurationNs,
+    load_duration: usage.loadMs * 1_000_000,
+    prompt_eval_count: usage.promptTokens,
+    prompt_eval_duration: usage.promptEvalMs * 1_000_000,
+    eval_count: usage.completionTokens,
+    eval_duration: usage.evalMs * 1_000_000,
+  };
+}
+
+/**
+ * List the tool invocations of a response
+ * 
+ * @returns One entry per call; empty for answer and chat responses
+ */
+export function getToolInvocations(response: UnifiedResponse): ToolInvocation[] {
+  switch (response.action) {
+    case "tool_call":
+      return [{ tool_name: response.tool_name, arguments: response.arguments }];
+    case "tool_calls":
+      return response.calls;
+    default:
+      return [];
+  }
 }
 
 /**
@@ -132,3 +197,380 @@ export function convertErrorToOllama(
 
   return response;
 }
+
+/**
+ * Create an intermediate chunk for a streamed Ollama chat response
+ * 
+ * Streaming responses are newline-delimited JSON: zero or more chunks with
+ * done: false, followed by a final chunk created by createOllamaChatDoneChunk().
+ */
+export function createOllamaChatChunk(
+  message: OllamaMessage,
+  modelId: string,
+): OllamaChatResponse {
+  return {
+    model: modelId,
+    created_at: new Date().toISOString(),
+    message,
+    done: false,
+  };
+}
+
+/**
+ * Create the final chunk of a streamed Ollama chat response
+ * Carries the timing metadata and an empty assistant message
+ */
+export function createOllamaChatDoneChunk(
+  modelId: string,
+  processingTimeMs: number,
+  doneReason: DoneReason = "stop",
+  usage?: TokenUsage,
+): OllamaChatResponse {
+  return {
+    model: modelId,
+    created_at: new Date().toISOString(),
+    message: {
+      role: "assistant",
+      content: "",
+    },
+    done: true,
+    done_reason: doneReason,
+    ...createOllamaMetrics(processingTimeMs, usage),
+  };
+}
+
+/**
+ * Prompt sent to OpenCode for an /api/generate request
+ */
+export interface GeneratePrompt {
+  /** System prompt (empty when the template or raw mode already covers it) */
+  system: string;
+
+  /** User prompt text */
+  prompt: string;
+}
+
+/**
+ * Build the OpenCode prompt for an Ollama /api/generate request
+ * 
+ * - raw: the prompt is sent verbatim, without system prompt or template
+ * - template: system and prompt are rendered into a single prompt
+ * - otherwise: system and prompt are sent separately
+ * 
+ * Previous turns passed via `context` and the fill-in-the-middle `suffix`
+ * are added around the prompt.
+ */
+export function buildGeneratePrompt(
+  request: OllamaGenerateRequest,
+): GeneratePrompt {
+  const prompt = request.prompt || "";
+  const previous = request.context ? decodeGenerateContext(request.context) : "";
+
+  if (request.raw) {
+    return {
+      system: "",
+      prompt: previous ? `${previous}\n${prompt}` : prompt,
+    };
+  }
+
+  let userPrompt = previous
+    ? `Previous conversation:\n${previous}\n\nCurrent request:\n${prompt}`
+    : prompt;
+
+  if (request.suffix) {
+    userPrompt += `\n\nYour output will be inserted directly before the following text and must connect to it seamlessly. Output ONLY the inserted text:\n${request.suffix}`;
+  }
+
+  if (request.template) {
+    return {
+      system: "",
+      prompt: renderPromptTemplate(request.template, {
+        system: request.system || "",
+        prompt: userPrompt,
+      }),
+    };
+  }
+
+  return {
+    system: request.system || "",
+    prompt: userPrompt,
+  };
+}
+
+/**
+ * Render an Ollama (Go text/template) prompt template
+ * 
+ * Supports the subset used by prompt templates in practice:
+ * `{{ .System }}`, `{{ .Prompt }}`, `{{ if .System }}...{{ end }}` and the
+ * `{{-`/`-}}` whitespace trim markers. Rendering stops at `{{ .Response }}`
+ * since that is where the model output starts.
+ * 
+ * @example
+ * renderPromptTemplate("{{ if .System }}{{ .System }}\n{{ end }}{{ .Prompt }}", {
+ *   system: "", prompt: "Hi"
+ * });
+ * // Returns: "Hi"
+ */
+export function renderPromptTemplate(
+  template: string,
+  values: { system: string; prompt: string },
+): string {
+  const lookup = (field: string): string =>
+    field === "System" ? values.system : values.prompt;
+
+  const responseIndex = template.search(/\{\{-?\s*\.Response\s*-?\}\}/);
+  const text = responseIndex >= 0 ? template.slice(0, responseIndex) : template;
+
+  return text
+    .replace(/\s*\{\{-/g, "{{")
+    .replace(/-\}\}\s*/g, "}}")
+    .replace(
+      /\{\{\s*if\s+\.(System|Prompt)\s*\}\}([\s\S]*?)\{\{\s*end\s*\}\}/g,
+      (_, field: string, body: string) => (lookup(field) ? body : ""),
+    )
+    .replace(/\{\{\s*\.(System|Prompt)\s*\}\}/g, (_, field: string) => lookup(field))
+    .trim();
+}
+
+/**
+ * Build the `context` returned by /api/generate
+ * 
+ * Ollama returns token ids of the conversation so far. There are no local
+ * tokens here, so the conversation transcript is encoded as Unicode code
+ * points instead - clients treat context as opaque and send it back as-is.
+ */
+export function buildGenerateContext(
+  previousContext: number[] | undefined,
+  prompt: string,
+  response: string,
+): number[] {
+  const previous = previousContext ? decodeGenerateContext(previousContext) : "";
+  const turn = `User: ${prompt}\nAssistant: ${response}`;
+  const transcript = previous ? `${previous}\n${turn}` : turn;
+  return Array.from(transcript, (char) => char.codePointAt(0) ?? 0);
+}
+
+/**
+ * Decode a `context` created by buildGenerateContext()
+ * Values that are not valid code points are skipped
+ */
+export function decodeGenerateContext(context: number[]): string {
+  return context
+    .filter((n) => Number.isInteger(n) && n > 0 && n <= 0x10ffff)
+    .map((n) => String.fromCodePoint(n))
+    .join("");
+}
+
+/**
+ * Convert a completion to Ollama /api/generate response format
+ */
+export function convertCompletionToOllamaGenerate(
+  response: string,
+  modelId: string,
+  processingTimeMs: number,
+  context: number[],
+  doneReason: DoneReason = "stop",
+  usage?: TokenUsage,
+): OllamaGenerateResponse {
+  return {
+    ...createOllamaGenerateDoneChunk(modelId, processingTimeMs, context, doneReason, usage),
+    response,
+  };
+}
+
+/**
+ * Create an intermediate chunk for a streamed /api/generate response
+ * Thinking chunks carry a piece of the reasoning and an empty response.
+ */
+export function createOllamaGenerateChunk(
+  response: string,
+  modelId: string,
+  thinking?: string,
+): OllamaGenerateResponse {
+  return {
+    model: modelId,
+    created_at: new Date().toISOString(),
+    response,
+    ...(thinking && { thinking }),
+    done: false,
+  };
+}
+
+/**
+ * Create the final chunk of a streamed /api/generate response
+ * Carries the context and timing metadata with an empty response
+ */
+export function createOllamaGenerateDoneChunk(
+  modelId: string,
+  processingTimeMs: number,
+  context: number[],
+  doneReason: DoneReason = "stop",
+  usage?: TokenUsage,
+): OllamaGenerateResponse {
+  return {
+    model: modelId,
+    created_at: new Date().toISOString(),
+    response: "",
+    done: true,
+    done_reason: doneReason,
+    context,
+    ...createOllamaMetrics(processingTimeMs, usage),
+  };
+}
+
+/**
+ * Convert embeddings to an Ollama /api/embed response
+ * The response names the requested model, like every other endpoint.
+ */
+export function convertEmbeddingsToOllamaEmbed(
+  result: EmbedResult,
+  modelId: string,
+  processingTimeMs: number,
+): OllamaEmbedResponse {
+  return {
+    model: modelId,
+    embeddings: result.embeddings,
+    total_duration: processingTimeMs * 1_000_000,
+    load_duration: 0,
+    prompt_eval_count: result.promptTokens,
+  };
+}
+
+/**
+ * Convert a model catalog entry to an Ollama /api/tags model
+ * 
+ * Cloud models have no local weights, so size is 0 and the digest is
+ * derived from the model name to stay stable across refreshes.
+ */
+export function convertCatalogModelToOllama(
+  model: CatalogModel,
+  modifiedAt: string,
+): OllamaModel {
+  return {
+    name: model.name,
+    model: model.name,
+    modified_at: modifiedAt,
+    size: 0,
+    digest: createHash("sha256").update(model.name).digest("hex"),
+    details: {
+      parent_model: "",
+      format: "opencode",
+      family: model.family,
+      families: [model.family],
+      parameter_size: "",
+      quantization_level: "",
+      ...(model.contextLength > 0 && { context_length: model.contextLength }),
+    },
+  };
+}
+
+/**
+ * Apply a custom model's defaults to a chat request
+ * 
+ * Like Ollama, the alias SYSTEM prompt is only used when the request has no
+ * system message of its own, and request options override alias parameters.
+ */
+export function applyModelAliasToChatRequest(
+  request: OllamaChatRequest,
+  alias: ModelAlias | undefined,
+): OllamaChatRequest {
+  if (!alias) {
+    return request;
+  }
+
+  const hasSystemMessage = request.messages.some((msg) => msg.role === "system");
+  const messages: OllamaMessage[] =
+    alias.system && !hasSystemMessage
+      ? [{ role: "system", content: alias.system }, ...request.messages]
+      : request.messages;
+
+  return {
+    ...request,
+    messages,
+    options: { ...alias.parameters, ...request.options },
+  };
+}
+
+/**
+ * Apply a custom model's defaults to a generate request
+ * Request values take precedence over the alias SYSTEM, TEMPLATE and parameters.
+ */
+export function applyModelAliasToGenerateRequest(
+  request: OllamaGenerateRequest,
+  alias: ModelAlias | undefined,
+): OllamaGenerateRequest {
+  if (!alias) {
+    return request;
+  }
+
+  const system = request.system ?? alias.system;
+  const template = request.template ?? alias.template;
+
+  return {
+    ...request,
+    ...(system !== undefined && { system }),
+    ...(template !== undefined && { template }),
+    options: { ...alias.parameters, ...request.options },
+  };
+}
+
+/**
+ * Prompt template reported for models without a TEMPLATE of their own
+ */
+export const DEFAULT_PROMPT_TEMPLATE = "{{ .System }}\n{{ .Prompt }}";
+
+/**
+ * Convert a catalog model to an Ollama /api/show response
+ * 
+ * Custom models report their real Modelfile, parameters and template.
+ * Capabilities and context length come from OpenCode provider metadata;
+ * "tools" is always reported because the adapter implements tool calling
+ * for every model.
+ */
+export function convertCatalogModelToOllamaShow(
+  model: CatalogModel,
+): OllamaShowResponse {
+  const alias = model.alias;
+
+  const capabilities = ["completion", "tools"];
+  if (model.capabilities.vision) {
+    capabilities.push("vision");
+  }
+  if (model.capabilities.reasoning) {
+    capabilities.push("thinking");
+  }
+
+  const modelInfo: Record<string, any> = {
+    "general.architecture": model.family,
+    "general.basename": model.displayName,
+    "opencode.provider": model.providerID,
+    "opencode.model": model.modelID,
+  };
+  if (model.contextLength > 0) {
+    modelInfo[`${model.family}.context_length`] = model.contextLength;
+  }
+  if (model.outputLimit > 0) {
+    modelInfo["opencode.output_limit"] = model.outputLimit;
+  }
+
+  return {
+    modelfile: formatModelfile(
+      alias || { from: model.name, parameters: {} },
+      model.name,
+    ),
+    parameters: formatParameters(alias?.parameters || {}),
+    template: alias?.template || DEFAULT_PROMPT_TEMPLATE,
+    ...(alias?.system && { system: alias.system }),
+    details: {
+      parent_model: alias?.from || "",
+      format: "opencode",
+      family: model.family,
+      families: [model.family],
+      parameter_size: "",
+      quantization_level: "",
+    },
+    model_info: modelInfo,
+    capabilities,
+    ...(alias && { modified_at: alias.modified_at }),
+  };
+}
@@ -0,0 +1,462 @@
+/**
+ * OpenAI Adapter
+ * Converts between the OpenAI API formats and the Ollama request /
+ * UnifiedResponse formats, so /v1/chat/completions and /v1/completions can
+ * share the /api/chat and /api/generate pipelines
+ */
+
+import { randomBytes } from "node:crypto";
+import type {
+  OpenAIChatChunk,
+  OpenAIChatRequest,
+  OpenAIChatResponse,
+  OpenAICompletionRequest,
+  OpenAICompletionResponse,
+  OpenAIErrorResponse,
+  OpenAIFinishReason,
+  OpenAIGenerationParams,
+  OpenAIMessage,
+  OpenAIModel,
+  OpenAITool,
+  OpenAIToolCall,
+  OpenAIUsage,
+} from "../types/openai.js";
+import type {
+  OllamaChatRequest,
+  OllamaFormat,
+  OllamaGenerateRequest,
+  OllamaMessage,
+  OllamaOptions,
+  OllamaTool,
+} from "../types/ollama.js";
+import type { UnifiedResponse } from "../types/tool-selection.js";
+import type { DoneReason } from "../services/generationOptions.js";
+import type { TokenUsage } from "../services/tokenUsage.js";
+import type { CatalogModel } from "../services/modelCatalog.js";
+import { getToolInvocations } from "./ollamaAdapter.js";
+
+/**
+ * Reported as system_fingerprint in every response
+ */
+export const SYSTEM_FINGERPRINT = "fp_opencode";
+
+/**
+ * An OpenAI chat request converted for the /api/chat pipeline
+ */
+export interface ConvertedOpenAIRequest {
+  request: OllamaChatRequest;
+
+  /** tool_choice asked for at least one tool call */
+  requireToolCall: boolean;
+}
+
+/**
+ * Convert an OpenAI chat request to an Ollama chat request
+ *
+ * - "developer" messages become system messages
+ * - tool_calls arguments are parsed from JSON strings
+ * - tool messages get the tool name of the call their tool_call_id answers
+ * - tool_choice "none" drops the tools; a named function keeps only that tool
+ * - response_format, stop and max_tokens map to format, stop and num_predict
+ */
+export function convertOpenAIRequestToOllama(
+  request: OpenAIChatRequest,
+): ConvertedOpenAIRequest {
+  const toolChoice = request.tool_choice || "auto";
+  let tools = (request.tools || []).map(convertOpenAIToolToOllama);
+
+  if (toolChoice === "none") {
+    tools = [];
+  } else if (typeof toolChoice === "object") {
+    tools = tools.filter((tool) => tool.function.name === toolChoice.function.name);
+  }
+
+  const format = getOpenAIResponseFormat(request);
+
+  return {
+    request: {
+      model: request.model,
+      messages: convertOpenAIMessagesToOllama(request.messages),
+      ...(request.stream !== undefined && { stream: request.stream }),
+      ...(tools.length > 0 && { tools }),
+      ...(format && { format }),
+      options: getOpenAIOptions(request),
+    },
+    requireToolCall:
+      tools.length > 0 && (toolChoice === "required" || typeof toolChoice === "object"),
+  };
+}
+
+/**
+ * Convert OpenAI messages to Ollama messages
+ * A tool message whose tool_call_id is unknown keeps its `name`, if any.
+ * Inline image_url parts of user messages become `images`.
+ */
+export function convertOpenAIMessagesToOllama(messages: OpenAIMessage[]): OllamaMessage[] {
+  const toolNamesById = new Map<string, string>();
+
+  return messages.map((msg): OllamaMessage => {
+    const content = getOpenAIMessageText(msg.content);
+
+    switch (msg.role) {
+      case "system":
+      case "developer":
+        return { role: "system", content };
+
+      case "assistant": {
+        if (!msg.tool_calls?.length) {
+          return { role: "assistant", content };
+        }
+
+        msg.tool_calls.forEach((call) => toolNamesById.set(call.id, call.function.name));
+        return {
+          role: "assistant",
+          content,
+          tool_calls: msg.tool_calls.map((call) => ({
+            function: {
+              name: call.function.name,
+              arguments: parseToolArguments(call.function.arguments),
+            },
+          })),
+        };
+      }
+
+      case "tool": {
+        const toolName = (msg.tool_call_id && toolNamesById.get(msg.tool_call_id)) || msg.name;
+        return {
+          role: "tool",
+          content,
+          ...(toolName && { tool_name: toolName }),
+        };
+      }
+
+      default: {
+        const images = getOpenAIMessageImages(msg.content);
+        return {
+          role: "user",
+          content,
+          ...(images.length > 0 && { images }),
+        };
+      }
+    }
+  });
+}
+
+/**
+ * Convert unified response to OpenAI chat completion format
+ *
+ * Key differences from Ollama:
+ * - tool_calls.arguments is a JSON string and each call has an id
+ * - content is null for tool calls
+ * - finish_reason is "tool_calls" when tools were called
+ */
+export function convertUnifiedResponseToOpenAI(
+  response: UnifiedResponse,
+  modelId: string,
+  completionId: string,
+  doneReason: DoneReason = "stop",
+  usage?: TokenUsage,
+): OpenAIChatResponse {
+  const toolCalls = createOpenAIToolCalls(response);
+  const isToolCall = toolCalls.length > 0;
+
+  return {
+    id: completionId,
+    object: "chat.completion",
+    created: getUnixTime(),
+    model: modelId,
+    system_fingerprint: SYSTEM_FINGERPRINT,
+    choices: [
+      {
+        index: 0,
+        message: {
+          role: "assistant",
+          content: response.action === "answer" || response.action === "chat"
+            ? response.content
+            : null,
+          ...(isToolCall && { tool_calls: toolCalls }),
+        },
+        finish_reason: getOpenAIFinishReason(response, doneReason),
+      },
+    ],
+    usage: convertTokenUsageToOpenAI(usage),
+  };
+}
+
+/**
+ * Create OpenAI tool calls, with fresh ids, for the calls of a response
+ *
+ * @returns Empty for answer and chat responses
+ */
+export function createOpenAIToolCalls(response: UnifiedResponse): OpenAIToolCall[] {
+  return getToolInvocations(response).map((call) => ({
+    id: `call_${randomBytes(12).toString("hex")}`,
+    type: "function",
+    function: {
+      name: call.tool_name,
+      arguments: JSON.stringify(call.arguments), // JSON string, not an object!
+    },
+  }));
+}
+
+/**
+ * finish_reason for a response: "tool_calls" for tool calls, otherwise
+ * the reason the output ended
+ */
+export function getOpenAIFinishReason(
+  response: UnifiedResponse,
+  doneReason: DoneReason,
+): OpenAIFinishReason {
+  if (response.action === "tool_call" || response.action === "tool_calls") {
+    return "tool_calls";
+  }
+  return doneReason;
+}
+
+/**
+ * Convert token usage to the OpenAI usage object
+ * Without usage data all counts are 0.
+ */
+export function convertTokenUsageToOpenAI(usage?: TokenUsage): OpenAIUsage {
+  const promptTokens = usage?.promptTokens || 0;
+  const completionTokens = usage?.completionTokens || 0;
+
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens,
+  };
+}
+
+/**
+ * Create a chunk of a streamed OpenAI chat completion
+ *
+ * Streaming responses are server-sent events: a chunk with the assistant
+ * role, content or tool call chunks, a chunk with the finish_reason, an
+ * optional usage chunk and finally `data: [DONE]`.
+ */
+export function createOpenAIChatChunk(
+  completionId: string,
+  modelId: string,
+  delta: OpenAIChatChunk["choices"][number]["delta"],
+  finishReason: OpenAIFinishReason | null = null,
+): OpenAIChatChunk {
+  return {
+    id: completionId,
+    object: "chat.completion.chunk",
+    created: getUnixTime(),
+    model: modelId,
+    system_fingerprint: SYSTEM_FINGERPRINT,
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  };
+}
+
+/**
+ * Create the usage chunk sent when stream_options.include_usage is set
+ * Like OpenAI, it has no choices.
+ */
+export function createOpenAIUsageChunk(
+  completionId: string,
+  modelId: string,
+  usage?: TokenUsage,
+): OpenAIChatChunk {
+  return {
+    id: completionId,
+    object: "chat.completion.chunk",
+    created: getUnixTime(),
+    model: modelId,
+    system_fingerprint: SYSTEM_FINGERPRINT,
+    choices: [],
+    usage: convertTokenUsageToOpenAI(usage),
+  };
+}
+
+/**
+ * Convert a legacy completion request to an Ollama generate request
+ * Only the first prompt of a prompt array is used; callers reject longer arrays.
+ */
+export function convertOpenAICompletionRequestToOllama(
+  request: OpenAICompletionRequest,
+): OllamaGenerateRequest {
+  const prompt = Array.isArray(request.prompt) ? request.prompt[0] : request.prompt;
+
+  return {
+    model: request.model,
+    prompt: prompt || "",
+    ...(request.suffix && { suffix: request.suffix }),
+    ...(request.stream !== undefined && { stream: request.stream }),
+    options: getOpenAIOptions(request),
+  };
+}
+
+/**
+ * Convert a completion to the OpenAI text_completion format
+ */
+export function convertCompletionToOpenAI(
+  text: string,
+  modelId: string,
+  completionId: string,
+  doneReason: DoneReason = "stop",
+  usage?: TokenUsage,
+): OpenAICompletionResponse {
+  return {
+    ...createOpenAICompletionChunk(completionId, modelId, text, doneReason),
+    usage: convertTokenUsageToOpenAI(usage),
+  };
+}
+
+/**
+ * Create a chunk of a streamed legacy completion
+ * Like chat, the stream ends with a chunk carrying the finish_reason.
+ */
+export function createOpenAICompletionChunk(
+  completionId: string,
+  modelId: string,
+  text: string,
+  finishReason: OpenAIFinishReason | null = null,
+): OpenAICompletionResponse {
+  return {
+    id: completionId,
+    object: "text_completion",
+    created: getUnixTime(),
+    model: modelId,
+    system_fingerprint: SYSTEM_FINGERPRINT,
+    choices: [{ index: 0, text, logprobs: null, finish_reason: finishReason }],
+  };
+}
+
+/**
+ * Convert a model catalog entry to an OpenAI /v1/models entry
+ * Custom models report when they were created; other models the given time.
+ */
+export function convertCatalogModelToOpenAI(
+  model: CatalogModel,
+  created: number,
+): OpenAIModel {
+  const modifiedAt = model.alias ? Date.parse(model.alias.modified_at) : NaN;
+
+  return {
+    id: model.name,
+    object: "model",
+    created: Number.isNaN(modifiedAt) ? created : Math.floor(modifiedAt / 1000),
+    owned_by: model.providerID,
+  };
+}
+
+/**
+ * Create an OpenAI error body
+ */
+export function convertErrorToOpenAI(
+  message: string,
+  type = "api_error",
+  code: string | null = null,
+): OpenAIErrorResponse {
+  return {
+    error: {
+      message,
+      type,
+      param: null,
+      code,
+    },
+  };
+}
+
+/**
+ * Create a completion id ("chatcmpl-..." for chat, "cmpl-..." for completions)
+ */
+export function createCompletionId(prefix: "chatcmpl" | "cmpl" = "chatcmpl"): string {
+  return `${prefix}-${randomBytes(12).toString("hex")}`;
+}
+
+/**
+ * Current time as a Unix timestamp in seconds
+ */
+export function getUnixTime(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+function convertOpenAIToolToOllama(tool: OpenAITool): OllamaTool {
+  return {
+    type: "function",
+    function: {
+      name: tool.function.name,
+      description: tool.function.description || "",
+      parameters: {
+        type: "object",
+        properties: {},
+        ...tool.function.parameters,
+      },
+    },
+  };
+}
+
+/**
+ * Text of a message; only text parts of multi-part content are kept
+ */
+function getOpenAIMessageText(content: OpenAIMessage["content"]): string {
+  if (typeof content === "string") {
+    return content;
+  }
+  if (!Array.isArray(content)) {
+    return "";
+  }
+
+  return content
+    .filter((part) => part.type === "text" && typeof part.text === "string")
+    .map((part) => part.text)
+    .join("\n");
+}
+
+/**
+ * Images of a message, as data URLs
+ * Only inline (data:) images are supported; remote image URLs are ignored.
+ */
+function getOpenAIMessageImages(content: OpenAIMessage["content"]): string[] {
+  if (!Array.isArray(content)) {
+    return [];
+  }
+
+  return content
+    .filter((part) => part.type === "image_url")
+    .map((part) => part.image_url?.url || "")
+    .filter((url) => url.startsWith("data:"));
+}
+
+function parseToolArguments(args: string): Record<string, any> {
+  try {
+    const parsed = JSON.parse(args || "{}");
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function getOpenAIResponseFormat(request: OpenAIChatRequest): OllamaFormat | undefined {
+  const responseFormat = request.response_format;
+
+  switch (responseFormat?.type) {
+    case "json_object":
+      return "json";
+    case "json_schema":
+      return responseFormat.json_schema?.schema || "json";
+    default:
+      return undefined;
+  }
+}
+
+function getOpenAIOptions(
+  request: OpenAIGenerationParams & { max_completion_tokens?: number },
+): OllamaOptions {
+  const maxTokens = request.max_completion_tokens ?? request.max_tokens;
+  const stop = typeof request.stop === "string" ? [request.stop] : request.stop;
+
+  return {
+    ...(stop && { stop }),
+    ...(maxTokens !== undefined && { num_predict: maxTokens }),
+    ...(request.temperature !== undefined && { temperature: request.temperature }),
+    ...(request.top_p !== undefined && { top_p: request.top_p }),
+    ...(request.seed !== undefined && { seed: request.seed }),
+    ...(request.presence_penalty !== undefined && { presence_penalty: request.presence_penalty }),
+    ...(request.frequency_penalty !== undefined && { frequency_penalty: request.frequency_penalty }),
+  };
+}
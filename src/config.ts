@@ -1,9 +1,18 @@
 // Application configuration
 
+import { hostname } from 'node:os';
+
 export interface Config {
   // Server settings
   port: number;
   host: string;
+  requestTimeout: number;
+  
+  // Request queue settings
+  maxConcurrentRequests: number;
+  maxQueuedRequests: number;
+  maxQueuedPerClient: number;
+  maxQueueWait: number;
   
   // OpenCode settings
   opencodeUrl: string;
@@ -12,12 +21,33 @@ export interface Config {
   // Model settings
   modelProvider: string;
   modelId: string;
+  modelCatalogRefreshInterval: number;
+  modelAliasFile: string;
+  
+  // Session settings
+  conversationSessionTtl: number;
+  sessionInstanceId: string;
+  sessionGcInterval: number;
+  sessionGcMaxAge: number;
+  
+  // Native tool calling settings
+  nativeToolModels: string[];
+  nativeToolMcpUrl: string;
+  
+  // Embedding settings
+  embeddingUrl: string;
+  embeddingApiKey: string;
+  embeddingModel: string;
+  embeddingMaxInputTokens: number;
   
   // Logging
   logLevel: 'fatal' | 'error' | 'warn' | 'info' | 'debug' | 'trace';
   
   // Error handling settings
   errorFormatTimeout: number;
+  structuredOutputRetries: number;
+  toolArgumentRetries: number;
+  responseActionRetries: number;
 }
 
 function getEnv(key: string, defaultValue?: string): string {
@@ -31,6 +61,13 @@ function getEnv(key: string, defaultValue?: string): string {
   return value;
 }
 
+function getEnvList(key: string): string[] {
+  return getEnv(key, '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
 function getEnvNumber(key: string, defaultValue: number): number {
   const value = process.env[key];
   if (value === undefined) {
@@ -44,10 +81,19 @@ function getEnvNumber(key: string, defaultValue: number): number {
 }
 
 export function loadConfig(): Config {
+  const port = getEnvNumber('PORT', 3000);
+
   return {
     // Server settings
-    port: getEnvNumber('PORT', 3000),
+    port,
     host: getEnv('HOST', '0.0.0.0'),
+    requestTimeout: getEnvNumber('REQUEST_TIMEOUT', 120000),
+    
+    // Request queue settings
+    maxConcurrentRequests: getEnvNumber('MAX_CONCURRENT_REQUESTS', 4),
+    maxQueuedRequests: getEnvNumber('MAX_QUEUED_REQUESTS', 32),
+    maxQueuedPerClient: getEnvNumber('MAX_QUEUED_PER_CLIENT', 8),
+    maxQueueWait: getEnvNumber('MAX_QUEUE_WAIT', 30000),
     
     // OpenCode settings
     opencodeUrl: getEnv('OPENCODE_URL', 'http://localhost'),
@@ -56,12 +102,33 @@ export function loadConfig(): Config {
     // Model settings
     modelProvider: getEnv('MODEL_PROVIDER', 'github-copilot'),
     modelId: getEnv('MODEL_ID', 'gpt-4o'),
+    modelCatalogRefreshInterval: getEnvNumber('MODEL_CATALOG_REFRESH_INTERVAL', 300000),
+    modelAliasFile: getEnv('MODEL_ALIAS_FILE', './data/model-aliases.json'),
+    
+    // Session settings
+    conversationSessionTtl: getEnvNumber('CONVERSATION_SESSION_TTL', 600000),
+    sessionInstanceId: getEnv('SESSION_INSTANCE_ID', hostname()),
+    sessionGcInterval: getEnvNumber('SESSION_GC_INTERVAL', 600000),
+    sessionGcMaxAge: getEnvNumber('SESSION_GC_MAX_AGE', 3600000),
+    
+    // Native tool calling settings
+    nativeToolModels: getEnvList('NATIVE_TOOL_MODELS'),
+    nativeToolMcpUrl: getEnv('NATIVE_TOOL_MCP_URL', `http://localhost:${port}/mcp`),
+    
+    // Embedding settings
+    embeddingUrl: getEnv('EMBEDDING_URL', ''),
+    embeddingApiKey: getEnv('EMBEDDING_API_KEY', ''),
+    embeddingModel: getEnv('EMBEDDING_MODEL', ''),
+    embeddingMaxInputTokens: getEnvNumber('EMBEDDING_MAX_INPUT_TOKENS', 8191),
     
     // Logging
     logLevel: (getEnv('LOG_LEVEL', 'info') as Config['logLevel']),
     
     // Error handling settings
     errorFormatTimeout: getEnvNumber('ERROR_FORMAT_TIMEOUT', 8000),
+    structuredOutputRetries: getEnvNumber('STRUCTURED_OUTPUT_RETRIES', 2),
+    toolArgumentRetries: getEnvNumber('TOOL_ARGUMENT_RETRIES', 1),
+    responseActionRetries: getEnvNumber('RESPONSE_ACTION_RETRIES', 1),
   };
 }
 
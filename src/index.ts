@@ -3,6 +3,8 @@
 import { createServer } from './server.js';
 import { config } from './config.js';
 import { getOpencodeService } from './services/opencode.js';
+import { getModelCatalog } from './services/modelCatalog.js';
+import { getSessionJanitor } from './services/sessionJanitor.js';
 
 async function start() {
   try {
@@ -16,6 +18,14 @@ async function start() {
     await opencodeService.connect();
     console.log('Connected to OpenCode successfully');
 
+    // Load the model list and keep it fresh for /api/tags
+    const modelCatalog = getModelCatalog();
+    modelCatalog.start();
+
+    // Delete sessions left behind by earlier runs, then keep sweeping
+    const sessionJanitor = getSessionJanitor();
+    sessionJanitor.start();
+
     // Create and start Fastify server
     const server = await createServer();
     
@@ -30,9 +40,26 @@ async function start() {
     console.log('Ollama-compatible API endpoints:');
     console.log(`  GET  http://${config.host}:${config.port}/health`);
     console.log(`  POST http://${config.host}:${config.port}/api/chat`);
+    console.log(`  POST http://${config.host}:${config.port}/api/generate`);
     console.log(`  GET  http://${config.host}:${config.port}/api/tags`);
     console.log(`  POST http://${config.host}:${config.port}/api/show`);
+    console.log(`  POST http://${config.host}:${config.port}/api/create`);
+    console.log(`  POST http://${config.host}:${config.port}/api/copy`);
+    console.log(`  DEL  http://${config.host}:${config.port}/api/delete`);
     console.log(`  GET  http://${config.host}:${config.port}/api/version`);
+    console.log(`  POST http://${config.host}:${config.port}/api/embed`);
+    console.log(`  POST http://${config.host}:${config.port}/api/embeddings`);
+    console.log('');
+    console.log('OpenAI-compatible API endpoints:');
+    console.log(`  POST http://${config.host}:${config.port}/v1/chat/completions`);
+    console.log(`  POST http://${config.host}:${config.port}/v1/completions`);
+    console.log(`  GET  http://${config.host}:${config.port}/v1/models`);
+    console.log('');
+    console.log('Anthropic-compatible API endpoints:');
+    console.log(`  POST http://${config.host}:${config.port}/v1/messages`);
+    console.log('');
+    console.log('MCP endpoint for OpenCode (native tool calling):');
+    console.log(`  POST http://${config.host}:${config.port}/mcp`);
     console.log('');
     console.log('Ready to accept requests from Ollama-compatible clients!');
 
@@ -43,6 +70,9 @@ async function start() {
       try {
         await server.close();
         console.log('Server closed');
+
+        modelCatalog.stop();
+        sessionJanitor.stop();
         
         await opencodeService.close();
         console.log('OpenCode connection closed');
@@ -1,23 +1,118 @@
 // Fastify server setup with Ollama-compatible API endpoints
 
-import Fastify from "fastify";
+import { PassThrough } from "node:stream";
+import Fastify, { type FastifyBaseLogger, type FastifyReply, type FastifyRequest } from "fastify";
 import cors from "@fastify/cors";
 import packageJson from "../package.json" with { type: "json" };
 import { config } from "./config.js";
 import type {
   OllamaChatRequest,
+  OllamaChatResponse,
+  OllamaErrorResponse,
+  OllamaGenerateRequest,
+  OllamaGenerateResponse,
+  OllamaMessage,
+  OllamaTool,
   OllamaTagsResponse,
+  OllamaShowRequest,
   OllamaShowResponse,
+  OllamaCreateRequest,
+  OllamaCopyRequest,
+  OllamaDeleteRequest,
+  OllamaEmbedRequest,
+  OllamaEmbeddingsRequest,
+  OllamaEmbeddingsResponse,
+  OllamaStatusResponse,
   OllamaVersionResponse,
 } from "./types/ollama.js";
+import type {
+  OpenAIChatChunk,
+  OpenAIChatRequest,
+  OpenAIChatResponse,
+  OpenAICompletionRequest,
+  OpenAICompletionResponse,
+  OpenAIErrorResponse,
+  OpenAIModelList,
+} from "./types/openai.js";
+import type {
+  AnthropicErrorResponse,
+  AnthropicMessagesRequest,
+  AnthropicMessagesResponse,
+  AnthropicStreamEvent,
+} from "./types/anthropic.js";
 import type { UnifiedResponse } from "./types/tool-selection.js";
-import { getOpencodeService } from "./services/opencode.js";
+import {
+  getOpencodeService,
+  type GenerateResponseOptions,
+  type GenerateCompletionOptions,
+} from "./services/opencode.js";
 import { ConversationHelper } from "./services/conversationHelper.js";
+import { getModelCatalog } from "./services/modelCatalog.js";
+import { getSessionJanitor } from "./services/sessionJanitor.js";
+import { getRequestQueue, QueueRejectedError } from "./services/requestQueue.js";
+import { getModelAliasStore, isValidAliasName } from "./services/modelAliasStore.js";
+import { parseModelfile, type ParsedModelfile } from "./services/modelfile.js";
+import { getEmbeddingService, EmbeddingInputTooLongError } from "./services/embeddings.js";
+import { isOutputFormat } from "./services/structuredOutput.js";
+import { getUnstreamedContent } from "./services/streamingContentExtractor.js";
+import { RequestCancellation, RequestCancelledError } from "./services/cancellation.js";
+import {
+  getNativeToolRegistry,
+  selectToolStrategy,
+  type JsonRpcMessage,
+} from "./services/nativeTools.js";
+import {
+  OutputLimiter,
+  applyOutputLimits,
+  getOutputLimits,
+  warnIgnoredOptions,
+  type DoneReason,
+} from "./services/generationOptions.js";
+import { addTokenUsage, type TokenUsage } from "./services/tokenUsage.js";
 import {
   extractMessagesAndTools,
   convertUnifiedResponseToOllama,
   convertErrorToOllama,
+  getToolInvocations,
+  createOllamaChatChunk,
+  createOllamaChatDoneChunk,
+  buildGeneratePrompt,
+  buildGenerateContext,
+  convertCompletionToOllamaGenerate,
+  createOllamaGenerateChunk,
+  createOllamaGenerateDoneChunk,
+  convertCatalogModelToOllama,
+  convertCatalogModelToOllamaShow,
+  convertEmbeddingsToOllamaEmbed,
+  applyModelAliasToChatRequest,
+  applyModelAliasToGenerateRequest,
 } from "./adapters/ollamaAdapter.js";
+import {
+  convertOpenAIRequestToOllama,
+  convertUnifiedResponseToOpenAI,
+  convertOpenAICompletionRequestToOllama,
+  convertCompletionToOpenAI,
+  convertCatalogModelToOpenAI,
+  convertTokenUsageToOpenAI,
+  convertErrorToOpenAI,
+  createCompletionId,
+  createOpenAIChatChunk,
+  createOpenAICompletionChunk,
+  createOpenAIToolCalls,
+  createOpenAIUsageChunk,
+  getOpenAIFinishReason,
+  getUnixTime,
+} from "./adapters/openaiAdapter.js";
+import {
+  convertAnthropicRequestToOllama,
+  convertUnifiedResponseToAnthropic,
+  convertTokenUsageToAnthropic,
+  convertErrorToAnthropic,
+  createAnthropicMessageStart,
+  createAnthropicToolUseBlocks,
+  createMessageId,
+  getAnthropicStopReason,
+} from "./adapters/anthropicAdapter.js";
 
 const PACKAGE_VERSION = packageJson.version;
 
@@ -36,10 +131,22 @@ export async function createServer() {
   // Health check endpoint
   fastify.get("/health", async () => {
     const opencodeService = getOpencodeService();
+    const sessionGc = getSessionJanitor().getStats();
+    const queue = getRequestQueue();
     return {
       status: "ok",
       opencode: opencodeService.isConnected() ? "connected" : "disconnected",
       ollama_compatible: true,
+      session_gc: {
+        runs: sessionGc.runs,
+        reclaimed: sessionGc.reclaimed,
+        failed: sessionGc.failed,
+        last_run: sessionGc.lastRunAt ? new Date(sessionGc.lastRunAt).toISOString() : null,
+      },
+      queue: {
+        running: queue.running,
+        queued: queue.queued,
+      },
     };
   });
 
@@ -69,13 +176,37 @@ export async function createServer() {
             error: "messages field is required and must not be empty",
           });
         }
+        if (body.format && !isOutputFormat(body.format)) {
+          return reply.code(400).send(invalidFormat());
+        }
+
+        // Route the request to the provider/model it names
+        const model = await getModelCatalog().resolveModel(body.model);
+        if (!model) {
+          return reply.code(404).send(modelNotFound(body.model));
+        }
 
         // Extract messages, tools, and system context
+        const chatRequest = applyModelAliasToChatRequest(body, model.alias);
         const {
           systemContext,
           conversationHistory,
           availableTools,
-        } = extractMessagesAndTools(body);
+        } = extractMessagesAndTools(chatRequest);
+
+        if (
+          ConversationHelper.getCurrentImages(conversationHistory).length > 0 &&
+          !model.capabilities.vision
+        ) {
+          return reply.code(400).send(imagesNotSupported(model.name));
+        }
+        if (body.think && !model.capabilities.reasoning) {
+          return reply.code(400).send(thinkingNotSupported(model.name));
+        }
+
+        // stop/num_predict are applied to the answer text; tool calls are never cut
+        const outputLimits = getOutputLimits(chatRequest.options);
+        warnIgnoredOptions(chatRequest.options);
 
         // Validate conversation history
         const userMessage = ConversationHelper.getLastUserMessage(conversationHistory);
@@ -96,142 +227,1314 @@ export async function createServer() {
             toolMessages: messageCounts.tool,
             lastUserMessage: userMessage,
             toolsAvailable: availableTools.length,
+            resolvedModel: model.name,
           },
           "Extracted context and conversation history",
         );
 
         // ============ Unified Response Generation ============
-        // Use OpenCode to generate unified response (tool_call, answer, or chat)
+        // Use OpenCode to generate unified response (tool_call(s), answer, or chat)
         const opencodeService = getOpencodeService();
-        
-        let unifiedResponse: UnifiedResponse;
-        
-        try {
-          unifiedResponse = await opencodeService.generateResponse(
+        const modelId = body.model || config.modelId;
+
+        // Summed over the main prompt and any fallback prompts
+        let usage: TokenUsage | undefined;
+        const recordUsage = (promptUsage: TokenUsage) => {
+          usage = addTokenUsage(usage, promptUsage);
+        };
+
+        // Reasoning is only returned when asked for; it never enters the content
+        let thinking = "";
+        const recordThinking = (delta: string) => {
+          thinking += delta;
+        };
+
+        // Wait for a free slot; a busy adapter turns the request away
+        const signal = watchCancellation(reply);
+        const rejection = await waitForGenerationSlot(
+          request,
+          reply,
+          signal,
+          fastify.log,
+          getQueuePriority(conversationHistory),
+        );
+        if (rejection) {
+          return reply
+            .code(rejection.statusCode)
+            .header("Retry-After", String(rejection.retryAfterSeconds))
+            .send({ error: rejection.message });
+        }
+
+        const generate = async (
+          options: GenerateResponseOptions = {},
+        ): Promise<UnifiedResponse> => {
+          const unifiedResponse = await opencodeService.generateResponse(
             systemContext,
             conversationHistory,
-            availableTools
+            availableTools,
+            {
+              model,
+              toolStrategy: selectToolStrategy(model, config.nativeToolModels),
+              ...(body.format && { format: body.format }),
+              onUsage: recordUsage,
+              ...(body.think && { onThinkingDelta: recordThinking }),
+              signal,
+              ...options,
+            },
           );
-          
+
+          const toolNames = getToolInvocations(unifiedResponse).map((call) => call.tool_name);
           fastify.log.info(
             { 
               action: unifiedResponse.action,
-              tool_name: unifiedResponse.action === 'tool_call' ? (unifiedResponse as any).tool_name : undefined 
+              tool_name: toolNames.length > 0 ? toolNames.join(", ") : undefined 
             },
             "Generated unified response"
           );
+
+          return validateToolCalls(unifiedResponse, availableTools, fastify.log);
+        };
+
+        // Ollama streams unless the client explicitly asks for stream: false
+        if (body.stream !== false) {
+          const { stream, writeLine } = createNdjsonStream<OllamaChatResponse>();
+
+          const streamResponse = async () => {
+            const limiter = new OutputLimiter(outputLimits);
+            let streamedContent = "";
+
+            const writeContent = (content: string) => {
+              if (content) {
+                writeLine(createOllamaChatChunk({ role: "assistant", content }, modelId));
+              }
+            };
+
+            try {
+              const unifiedResponse = await generate({
+                onContentDelta: (delta) => {
+                  streamedContent += delta;
+                  writeContent(limiter.push(delta));
+                },
+                ...(body.think && {
+                  onThinkingDelta: (delta: string) => {
+                    writeLine(
+                      createOllamaChatChunk({ role: "assistant", content: "", thinking: delta }, modelId),
+                    );
+                  },
+                }),
+              });
+
+              if (unifiedResponse.action === "tool_call" || unifiedResponse.action === "tool_calls") {
+                // Tool calls are never split across chunks
+                const { message } = convertUnifiedResponseToOllama(unifiedResponse, modelId, 0);
+                writeLine(createOllamaChatChunk(message, modelId));
+              } else {
+                // Send whatever was not streamed yet (e.g. fallback responses)
+                const remaining = getRemainingContent(unifiedResponse.content, streamedContent);
+                writeContent(limiter.push(remaining) + limiter.flush());
+              }
+
+              writeLine(
+                createOllamaChatDoneChunk(
+                  modelId,
+                  Date.now() - startTime,
+                  limiter.getDoneReason(),
+                  usage,
+                ),
+              );
+              fastify.log.info({ action: unifiedResponse.action, usage }, "Finished streaming Ollama response");
+            } catch (err) {
+              logGenerationError(fastify.log, err, "Error streaming unified response", usage);
+
+              // Headers are already sent, so report the error in-band like Ollama does
+              writeLine({
+                error: err instanceof Error ? err.message : "Failed to generate response",
+              });
+            } finally {
+              stream.end();
+            }
+          };
+
+          void streamResponse();
+          return reply
+            .code(200)
+            .header("Content-Type", "application/x-ndjson")
+            .send(stream);
+        }
+
+        let unifiedResponse: UnifiedResponse;
+        
+        try {
+          unifiedResponse = await generate();
         } catch (err) {
-          fastify.log.error({ 
-            error: err instanceof Error ? {
-              message: err.message,
-              stack: err.stack,
-              name: err.name,
-            } : err 
-          }, "Error generating unified response");
+          logGenerationError(fastify.log, err, "Error generating unified response", usage);
           
-          return reply.code(500).send(
+          return reply.code(getGenerationErrorStatus(err)).send(
             convertErrorToOllama(
               err instanceof Error ? err : new Error("Failed to generate response"),
-              body.model || config.modelId
+              modelId
             )
           );
         }
 
-        // Validate tool_call responses against available tools
-        if (unifiedResponse.action === 'tool_call') {
-          const toolCallResponse = unifiedResponse; // TypeScript narrows the type here
-          const isValidTool = availableTools.some(
-            (t) => t.function.name === toolCallResponse.tool_name,
-          );
-
-          if (!isValidTool && toolCallResponse.tool_name !== "unknown") {
-            fastify.log.warn(
-              {
-                selected: toolCallResponse.tool_name,
-                available: availableTools.map((t) => t.function.name),
-              },
-              "LLM selected invalid tool name, treating as unknown",
-            );
-            unifiedResponse = {
-              action: 'tool_call',
-              tool_name: "unknown",
-              arguments: {}
-            };
-          }
-        }
-
         // Calculate processing time
         const processingTimeMs = Date.now() - startTime;
 
+        let doneReason: DoneReason = "stop";
+        if (unifiedResponse.action === "answer" || unifiedResponse.action === "chat") {
+          const limited = applyOutputLimits(unifiedResponse.content, outputLimits);
+          unifiedResponse = { ...unifiedResponse, content: limited.text };
+          doneReason = limited.doneReason;
+        }
+
         // Convert to Ollama response
         const response = convertUnifiedResponseToOllama(
           unifiedResponse,
-          body.model || config.modelId,
+          modelId,
           processingTimeMs,
+          doneReason,
+          usage,
         );
+        if (thinking) {
+          response.message.thinking = thinking;
+        }
 
-        fastify.log.info({ response }, "Sending Ollama response");
+        fastify.log.info({ response, usage }, "Sending Ollama response");
 
         return reply.code(200).send(response);
       } catch (err) {
-        fastify.log.error({ 
-          error: err instanceof Error ? {
-            message: err.message,
-            stack: err.stack,
-            name: err.name,
-          } : err 
-        }, "Error processing chat request");
+        logGenerationError(fastify.log, err, "Error processing chat request");
 
         const errorResponse = convertErrorToOllama(
           err instanceof Error ? err : new Error("Internal server error"),
           config.modelId,
         );
 
-        return reply.code(500).send(errorResponse);
+        return reply.code(getGenerationErrorStatus(err)).send(errorResponse);
+      }
+    },
+  );
+
+  // Ollama-compatible completion endpoint
+  fastify.post<{ Body: OllamaGenerateRequest }>(
+    "/api/generate",
+    async (request, reply) => {
+      const startTime = Date.now();
+
+      try {
+        const requestBody = request.body;
+        const modelId = requestBody.model || config.modelId;
+
+        fastify.log.info(
+          {
+            model: requestBody.model,
+            promptLength: requestBody.prompt?.length || 0,
+            stream: requestBody.stream,
+            raw: requestBody.raw || false,
+            hasTemplate: Boolean(requestBody.template),
+            hasContext: Boolean(requestBody.context?.length),
+            imagesCount: requestBody.images?.length || 0,
+          },
+          "Received Ollama generate request",
+        );
+
+        if (requestBody.format && !isOutputFormat(requestBody.format)) {
+          return reply.code(400).send(invalidFormat());
+        }
+
+        // Route the request to the provider/model it names
+        const model = await getModelCatalog().resolveModel(requestBody.model);
+        if (!model) {
+          return reply.code(404).send(modelNotFound(requestBody.model));
+        }
+        const body = applyModelAliasToGenerateRequest(requestBody, model.alias);
+        if (body.images?.length && !model.capabilities.vision) {
+          return reply.code(400).send(imagesNotSupported(model.name));
+        }
+        if (body.think && !model.capabilities.reasoning) {
+          return reply.code(400).send(thinkingNotSupported(model.name));
+        }
+
+        // Like Ollama, an empty prompt just "loads" the model
+        if (!body.prompt && !body.images?.length) {
+          const response: OllamaGenerateResponse = {
+            model: modelId,
+            created_at: new Date().toISOString(),
+            response: "",
+            done: true,
+            done_reason: "load",
+          };
+          return reply.code(200).send(response);
+        }
+
+        const { system, prompt } = buildGeneratePrompt(body);
+        const opencodeService = getOpencodeService();
+        const outputLimits = getOutputLimits(body.options);
+        warnIgnoredOptions(body.options);
+
+        // Summed over the completion and any format corrections
+        let usage: TokenUsage | undefined;
+        let thinking = "";
+
+        // Wait for a free slot; a busy adapter turns the request away
+        const signal = watchCancellation(reply);
+        const rejection = await waitForGenerationSlot(request, reply, signal, fastify.log);
+        if (rejection) {
+          return reply
+            .code(rejection.statusCode)
+            .header("Retry-After", String(rejection.retryAfterSeconds))
+            .send({ error: rejection.message });
+        }
+
+        const generate = (options: GenerateCompletionOptions = {}) =>
+          opencodeService.generateCompletion(system, prompt, {
+            model,
+            ...(body.images && { images: body.images }),
+            ...(body.format && { format: body.format }),
+            onUsage: (promptUsage) => {
+              usage = addTokenUsage(usage, promptUsage);
+            },
+            ...(body.think && {
+              onThinkingDelta: (delta: string) => {
+                thinking += delta;
+              },
+            }),
+            signal,
+            ...options,
+          });
+
+        // Ollama streams unless the client explicitly asks for stream: false
+        if (body.stream !== false) {
+          const { stream, writeLine } = createNdjsonStream<OllamaGenerateResponse>();
+
+          const streamResponse = async () => {
+            const limiter = new OutputLimiter(outputLimits);
+            let streamed = "";
+            let sent = "";
+
+            const writeResponse = (response: string) => {
+              if (response) {
+                sent += response;
+                writeLine(createOllamaGenerateChunk(response, modelId));
+              }
+            };
+
+            try {
+              const completion = await generate({
+                onTextDelta: (delta) => {
+                  streamed += delta;
+                  writeResponse(limiter.push(delta));
+                },
+                ...(body.think && {
+                  onThinkingDelta: (delta: string) => {
+                    writeLine(createOllamaGenerateChunk("", modelId, delta));
+                  },
+                }),
+              });
+
+              // Send whatever was not streamed yet (e.g. JSON output)
+              const remaining = getRemainingContent(completion, streamed);
+              writeResponse(limiter.push(remaining) + limiter.flush());
+
+              writeLine(
+                createOllamaGenerateDoneChunk(
+                  modelId,
+                  Date.now() - startTime,
+                  buildGenerateContext(body.context, body.prompt || "", sent),
+                  limiter.getDoneReason(),
+                  usage,
+                ),
+              );
+              fastify.log.info({ responseLength: sent.length }, "Finished streaming Ollama generate response");
+            } catch (err) {
+              logGenerationError(fastify.log, err, "Error streaming completion", usage);
+
+              writeLine({
+                error: err instanceof Error ? err.message : "Failed to generate completion",
+              });
+            } finally {
+              stream.end();
+            }
+          };
+
+          void streamResponse();
+          return reply
+            .code(200)
+            .header("Content-Type", "application/x-ndjson")
+            .send(stream);
+        }
+
+        const completion = applyOutputLimits(await generate(), outputLimits);
+
+        const response = convertCompletionToOllamaGenerate(
+          completion.text,
+          modelId,
+          Date.now() - startTime,
+          buildGenerateContext(body.context, body.prompt || "", completion.text),
+          completion.doneReason,
+          usage,
+        );
+        if (thinking) {
+          response.thinking = thinking;
+        }
+
+        fastify.log.info({ responseLength: completion.text.length }, "Sending Ollama generate response");
+
+        return reply.code(200).send(response);
+      } catch (err) {
+        logGenerationError(fastify.log, err, "Error processing generate request");
+
+        const errorResponse: OllamaErrorResponse = {
+          error: err instanceof Error ? err.message : "Internal server error",
+        };
+        return reply.code(getGenerationErrorStatus(err)).send(errorResponse);
+      }
+    },
+  );
+
+  // OpenAI-compatible chat endpoint (same pipeline as /api/chat)
+  fastify.post<{ Body: OpenAIChatRequest }>(
+    "/v1/chat/completions",
+    async (request, reply) => {
+      const startTime = Date.now();
+
+      try {
+        const body = request.body;
+
+        fastify.log.info(
+          {
+            model: body.model,
+            messageCount: body.messages?.length,
+            stream: body.stream,
+            toolsCount: body.tools?.length || 0,
+            toolChoice: body.tool_choice,
+          },
+          "Received OpenAI chat request",
+        );
+
+        if (!Array.isArray(body.messages) || body.messages.length === 0) {
+          return reply.code(400).send(
+            convertErrorToOpenAI("messages must not be empty", "invalid_request_error"),
+          );
+        }
+
+        const toolChoice = body.tool_choice;
+        if (
+          typeof toolChoice === "object" &&
+          !body.tools?.some((tool) => tool.function.name === toolChoice.function?.name)
+        ) {
+          return reply.code(400).send(
+            convertErrorToOpenAI(
+              `tool_choice names unknown tool "${toolChoice.function?.name || ""}"`,
+              "invalid_request_error",
+            ),
+          );
+        }
+
+        // Route the request to the provider/model it names
+        const model = await getModelCatalog().resolveModel(body.model);
+        if (!model) {
+          return reply.code(404).send(openAIModelNotFound(body.model));
+        }
+
+        // Convert to an Ollama chat request and continue like /api/chat
+        const converted = convertOpenAIRequestToOllama(body);
+        const chatRequest = applyModelAliasToChatRequest(converted.request, model.alias);
+        const {
+          systemContext,
+          conversationHistory,
+          availableTools,
+        } = extractMessagesAndTools(chatRequest);
+
+        if (
+          ConversationHelper.getCurrentImages(conversationHistory).length > 0 &&
+          !model.capabilities.vision
+        ) {
+          return reply.code(400).send(
+            convertErrorToOpenAI(imagesNotSupported(model.name).error, "invalid_request_error"),
+          );
+        }
+
+        const outputLimits = getOutputLimits(chatRequest.options);
+        warnIgnoredOptions(chatRequest.options);
+
+        if (!ConversationHelper.getLastUserMessage(conversationHistory)) {
+          return reply.code(400).send(
+            convertErrorToOpenAI("At least one user message is required", "invalid_request_error"),
+          );
+        }
+
+        const opencodeService = getOpencodeService();
+        const modelId = body.model || config.modelId;
+        const completionId = createCompletionId();
+
+        let usage: TokenUsage | undefined;
+
+        // Wait for a free slot; a busy adapter turns the request away
+        const signal = watchCancellation(reply);
+        const rejection = await waitForGenerationSlot(
+          request,
+          reply,
+          signal,
+          fastify.log,
+          getQueuePriority(conversationHistory),
+        );
+        if (rejection) {
+          return reply
+            .code(rejection.statusCode)
+            .header("Retry-After", String(rejection.retryAfterSeconds))
+            .send(convertErrorToOpenAI(
+              rejection.message,
+              rejection.statusCode === 429 ? "rate_limit_error" : "server_error",
+            ));
+        }
+
+        const generate = async (
+          options: GenerateResponseOptions = {},
+        ): Promise<UnifiedResponse> => {
+          const unifiedResponse = await opencodeService.generateResponse(
+            systemContext,
+            conversationHistory,
+            availableTools,
+            {
+              model,
+              toolStrategy: selectToolStrategy(model, config.nativeToolModels),
+              ...(chatRequest.format && { format: chatRequest.format }),
+              requireToolCall: converted.requireToolCall,
+              onUsage: (promptUsage) => {
+                usage = addTokenUsage(usage, promptUsage);
+              },
+              signal,
+              ...options,
+            },
+          );
+
+          fastify.log.info(
+            {
+              action: unifiedResponse.action,
+              tool_name: getToolInvocations(unifiedResponse)
+                .map((call) => call.tool_name)
+                .join(", ") || undefined,
+            },
+            "Generated unified response",
+          );
+
+          return validateToolCalls(unifiedResponse, availableTools, fastify.log);
+        };
+
+        // Unlike Ollama, OpenAI only streams when asked to
+        if (body.stream === true) {
+          const { stream, writeEvent, writeDone } = createSseStream<OpenAIChatChunk>();
+
+          const streamResponse = async () => {
+            const limiter = new OutputLimiter(outputLimits);
+            let streamedContent = "";
+
+            const writeContent = (content: string) => {
+              if (content) {
+                writeEvent(createOpenAIChatChunk(completionId, modelId, { content }));
+              }
+            };
+
+            try {
+              writeEvent(
+                createOpenAIChatChunk(completionId, modelId, { role: "assistant", content: "" }),
+              );
+
+              const unifiedResponse = await generate({
+                onContentDelta: (delta) => {
+                  streamedContent += delta;
+                  writeContent(limiter.push(delta));
+                },
+              });
+
+              if (unifiedResponse.action === "tool_call" || unifiedResponse.action === "tool_calls") {
+                // Each tool call is sent whole, arguments included
+                const toolCalls = createOpenAIToolCalls(unifiedResponse).map((call, index) => ({
+                  index,
+                  ...call,
+                }));
+                writeEvent(createOpenAIChatChunk(completionId, modelId, { tool_calls: toolCalls }));
+              } else {
+                // Send whatever was not streamed yet (e.g. fallback responses)
+                const remaining = getRemainingContent(unifiedResponse.content, streamedContent);
+                writeContent(limiter.push(remaining) + limiter.flush());
+              }
+
+              writeEvent(
+                createOpenAIChatChunk(
+                  completionId,
+                  modelId,
+                  {},
+                  getOpenAIFinishReason(unifiedResponse, limiter.getDoneReason()),
+                ),
+              );
+              if (body.stream_options?.include_usage) {
+                writeEvent(createOpenAIUsageChunk(completionId, modelId, usage));
+              }
+              writeDone();
+              fastify.log.info({ action: unifiedResponse.action, usage }, "Finished streaming OpenAI response");
+            } catch (err) {
+              logGenerationError(fastify.log, err, "Error streaming OpenAI response", usage);
+
+              // Headers are already sent, so report the error as an event
+              writeEvent(
+                convertErrorToOpenAI(err instanceof Error ? err.message : "Failed to generate response"),
+              );
+            } finally {
+              stream.end();
+            }
+          };
+
+          void streamResponse();
+          return reply
+            .code(200)
+            .header("Content-Type", "text/event-stream")
+            .header("Cache-Control", "no-cache")
+            .send(stream);
+        }
+
+        let unifiedResponse = await generate();
+
+        let doneReason: DoneReason = "stop";
+        if (unifiedResponse.action === "answer" || unifiedResponse.action === "chat") {
+          const limited = applyOutputLimits(unifiedResponse.content, outputLimits);
+          unifiedResponse = { ...unifiedResponse, content: limited.text };
+          doneReason = limited.doneReason;
+        }
+
+        const response: OpenAIChatResponse = convertUnifiedResponseToOpenAI(
+          unifiedResponse,
+          modelId,
+          completionId,
+          doneReason,
+          usage,
+        );
+
+        fastify.log.info(
+          { action: unifiedResponse.action, usage, processingTimeMs: Date.now() - startTime },
+          "Sending OpenAI response",
+        );
+
+        return reply.code(200).send(response);
+      } catch (err) {
+        logGenerationError(fastify.log, err, "Error processing OpenAI chat request");
+
+        return reply.code(getGenerationErrorStatus(err)).send(
+          convertErrorToOpenAI(err instanceof Error ? err.message : "Internal server error"),
+        );
       }
     },
   );
 
+  // OpenAI-compatible legacy completion endpoint (same pipeline as /api/generate)
+  fastify.post<{ Body: OpenAICompletionRequest }>(
+    "/v1/completions",
+    async (request, reply) => {
+      const startTime = Date.now();
+
+      try {
+        const body = request.body;
+
+        fastify.log.info(
+          {
+            model: body.model,
+            promptLength: Array.isArray(body.prompt) ? body.prompt.length : body.prompt?.length || 0,
+            stream: body.stream,
+          },
+          "Received OpenAI completion request",
+        );
+
+        const prompts = Array.isArray(body.prompt) ? body.prompt : [body.prompt ?? ""];
+        if (prompts.length !== 1 || typeof prompts[0] !== "string") {
+          return reply.code(400).send(
+            convertErrorToOpenAI(
+              "prompt must be a string or an array with a single string",
+              "invalid_request_error",
+            ),
+          );
+        }
+
+        // Route the request to the provider/model it names
+        const model = await getModelCatalog().resolveModel(body.model);
+        if (!model) {
+          return reply.code(404).send(openAIModelNotFound(body.model));
+        }
+
+        // Convert to an Ollama generate request and continue like /api/generate
+        const generateRequest = applyModelAliasToGenerateRequest(
+          convertOpenAICompletionRequestToOllama(body),
+          model.alias,
+        );
+        const { system, prompt } = buildGeneratePrompt(generateRequest);
+        const outputLimits = getOutputLimits(generateRequest.options);
+        warnIgnoredOptions(generateRequest.options);
+
+        const opencodeService = getOpencodeService();
+        const modelId = body.model || config.modelId;
+        const completionId = createCompletionId("cmpl");
+
+        let usage: TokenUsage | undefined;
+
+        // Wait for a free slot; a busy adapter turns the request away
+        const signal = watchCancellation(reply);
+        const rejection = await waitForGenerationSlot(request, reply, signal, fastify.log);
+        if (rejection) {
+          return reply
+            .code(rejection.statusCode)
+            .header("Retry-After", String(rejection.retryAfterSeconds))
+            .send(convertErrorToOpenAI(
+              rejection.message,
+              rejection.statusCode === 429 ? "rate_limit_error" : "server_error",
+            ));
+        }
+
+        const generate = (options: GenerateCompletionOptions = {}) =>
+          opencodeService.generateCompletion(system, prompt, {
+            model,
+            onUsage: (promptUsage) => {
+              usage = addTokenUsage(usage, promptUsage);
+            },
+            signal,
+            ...options,
+          });
+
+        // Unlike Ollama, OpenAI only streams when asked to
+        if (body.stream === true) {
+          const { stream, writeEvent, writeDone } = createSseStream<OpenAICompletionResponse>();
+
+          const streamResponse = async () => {
+            const limiter = new OutputLimiter(outputLimits);
+            let streamed = "";
+
+            const writeText = (text: string) => {
+              if (text) {
+                writeEvent(createOpenAICompletionChunk(completionId, modelId, text));
+              }
+            };
+
+            try {
+              const completion = await generate({
+                onTextDelta: (delta) => {
+                  streamed += delta;
+                  writeText(limiter.push(delta));
+                },
+              });
+
+              // Send whatever was not streamed yet
+              const remaining = getRemainingContent(completion, streamed);
+              writeText(limiter.push(remaining) + limiter.flush());
+
+              writeEvent(
+                createOpenAICompletionChunk(completionId, modelId, "", limiter.getDoneReason()),
+              );
+              if (body.stream_options?.include_usage) {
+                writeEvent({
+                  ...createOpenAICompletionChunk(completionId, modelId, ""),
+                  choices: [],
+                  usage: convertTokenUsageToOpenAI(usage),
+                });
+              }
+              writeDone();
+              fastify.log.info({ usage }, "Finished streaming OpenAI completion");
+            } catch (err) {
+              logGenerationError(fastify.log, err, "Error streaming OpenAI completion", usage);
+
+              writeEvent(
+                convertErrorToOpenAI(err instanceof Error ? err.message : "Failed to generate completion"),
+              );
+            } finally {
+              stream.end();
+            }
+          };
+
+          void streamResponse();
+          return reply
+            .code(200)
+            .header("Content-Type", "text/event-stream")
+            .header("Cache-Control", "no-cache")
+            .send(stream);
+        }
+
+        const completion = applyOutputLimits(await generate(), outputLimits);
+
+        const response: OpenAICompletionResponse = convertCompletionToOpenAI(
+          completion.text,
+          modelId,
+          completionId,
+          completion.doneReason,
+          usage,
+        );
+
+        fastify.log.info(
+          { responseLength: completion.text.length, usage, processingTimeMs: Date.now() - startTime },
+          "Sending OpenAI completion",
+        );
+
+        return reply.code(200).send(response);
+      } catch (err) {
+        logGenerationError(fastify.log, err, "Error processing OpenAI completion request");
+
+        return reply.code(getGenerationErrorStatus(err)).send(
+          convertErrorToOpenAI(err instanceof Error ? err.message : "Internal server error"),
+        );
+      }
+    },
+  );
+
+  // Anthropic-compatible Messages endpoint (same pipeline as /api/chat)
+  fastify.post<{ Body: AnthropicMessagesRequest }>(
+    "/v1/messages",
+    async (request, reply) => {
+      const startTime = Date.now();
+
+      try {
+        const body = request.body;
+
+        fastify.log.info(
+          {
+            model: body.model,
+            messageCount: body.messages?.length,
+            stream: body.stream,
+            toolsCount: body.tools?.length || 0,
+            toolChoice: body.tool_choice?.type,
+          },
+          "Received Anthropic messages request",
+        );
+
+        if (!Array.isArray(body.messages) || body.messages.length === 0) {
+          return reply.code(400).send(
+            convertErrorToAnthropic("messages: at least one message is required", "invalid_request_error"),
+          );
+        }
+        if (typeof body.max_tokens !== "number") {
+          return reply.code(400).send(
+            convertErrorToAnthropic("max_tokens: Field required", "invalid_request_error"),
+          );
+        }
+
+        const toolChoice = body.tool_choice;
+        if (
+          toolChoice?.type === "tool" &&
+          !body.tools?.some((tool) => tool.name === toolChoice.name)
+        ) {
+          return reply.code(400).send(
+            convertErrorToAnthropic(
+              `tool_choice names unknown tool "${toolChoice.name || ""}"`,
+              "invalid_request_error",
+            ),
+          );
+        }
+
+        // Route the request to the provider/model it names
+        const model = await getModelCatalog().resolveModel(body.model);
+        if (!model) {
+          return reply.code(404).send(
+            convertErrorToAnthropic(`model: ${body.model || ""}`, "not_found_error"),
+          );
+        }
+
+        // Convert to an Ollama chat request and continue like /api/chat
+        const converted = convertAnthropicRequestToOllama(body);
+        const chatRequest = applyModelAliasToChatRequest(converted.request, model.alias);
+        const {
+          systemContext,
+          conversationHistory,
+          availableTools,
+        } = extractMessagesAndTools(chatRequest);
+
+        if (
+          ConversationHelper.getCurrentImages(conversationHistory).length > 0 &&
+          !model.capabilities.vision
+        ) {
+          return reply.code(400).send(
+            convertErrorToAnthropic(imagesNotSupported(model.name).error, "invalid_request_error"),
+          );
+        }
+
+        const outputLimits = getOutputLimits(chatRequest.options);
+        warnIgnoredOptions(chatRequest.options);
+
+        if (!ConversationHelper.getLastUserMessage(conversationHistory)) {
+          return reply.code(400).send(
+            convertErrorToAnthropic("At least one user message is required", "invalid_request_error"),
+          );
+        }
+
+        const opencodeService = getOpencodeService();
+        const modelId = body.model || config.modelId;
+        const messageId = createMessageId();
+
+        let usage: TokenUsage | undefined;
+
+        // Wait for a free slot; a busy adapter turns the request away
+        const signal = watchCancellation(reply);
+        const rejection = await waitForGenerationSlot(
+          request,
+          reply,
+          signal,
+          fastify.log,
+          getQueuePriority(conversationHistory),
+        );
+        if (rejection) {
+          return reply
+            .code(rejection.statusCode)
+            .header("Retry-After", String(rejection.retryAfterSeconds))
+            .send(convertErrorToAnthropic(
+              rejection.message,
+              rejection.statusCode === 429 ? "rate_limit_error" : "overloaded_error",
+            ));
+        }
+
+        const generate = async (
+          options: GenerateResponseOptions = {},
+        ): Promise<UnifiedResponse> => {
+          const unifiedResponse = await opencodeService.generateResponse(
+            systemContext,
+            conversationHistory,
+            availableTools,
+            {
+              model,
+              toolStrategy: selectToolStrategy(model, config.nativeToolModels),
+              requireToolCall: converted.requireToolCall,
+              onUsage: (promptUsage) => {
+                usage = addTokenUsage(usage, promptUsage);
+              },
+              signal,
+              ...options,
+            },
+          );
+
+          fastify.log.info(
+            {
+              action: unifiedResponse.action,
+              tool_name: getToolInvocations(unifiedResponse)
+                .map((call) => call.tool_name)
+                .join(", ") || undefined,
+            },
+            "Generated unified response",
+          );
+
+          return validateToolCalls(unifiedResponse, availableTools, fastify.log);
+        };
+
+        const limiter = new OutputLimiter(outputLimits);
+
+        if (body.stream === true) {
+          const { stream, writeEvent } = createAnthropicEventStream();
+
+          const streamResponse = async () => {
+            let streamedContent = "";
+            let blockIndex = 0;
+            let textBlockOpen = false;
+
+            const writeText = (text: string) => {
+              if (!text) {
+                return;
+              }
+              if (!textBlockOpen) {
+                writeEvent({
+                  type: "content_block_start",
+                  index: blockIndex,
+                  content_block: { type: "text", text: "" },
+                });
+                textBlockOpen = true;
+              }
+              writeEvent({
+                type: "content_block_delta",
+                index: blockIndex,
+                delta: { type: "text_delta", text },
+              });
+            };
+
+            const closeTextBlock = () => {
+              if (textBlockOpen) {
+                writeEvent({ type: "content_block_stop", index: blockIndex++ });
+                textBlockOpen = false;
+              }
+            };
+
+            try {
+              writeEvent({
+                type: "message_start",
+                message: createAnthropicMessageStart(messageId, modelId),
+              });
+              writeEvent({ type: "ping" });
+
+              const unifiedResponse = await generate({
+                onContentDelta: (delta) => {
+                  streamedContent += delta;
+                  writeText(limiter.push(delta));
+                },
+              });
+
+              if (unifiedResponse.action === "tool_call" || unifiedResponse.action === "tool_calls") {
+                closeTextBlock();
+
+                // Each tool_use block carries its whole input in one delta
+                for (const block of createAnthropicToolUseBlocks(unifiedResponse)) {
+                  writeEvent({
+                    type: "content_block_start",
+                    index: blockIndex,
+                    content_block: { ...block, input: {} },
+                  });
+                  writeEvent({
+                    type: "content_block_delta",
+                    index: blockIndex,
+                    delta: { type: "input_json_delta", partial_json: JSON.stringify(block.input) },
+                  });
+                  writeEvent({ type: "content_block_stop", index: blockIndex++ });
+                }
+              } else {
+                // Send whatever was not streamed yet (e.g. fallback responses)
+                const remaining = getRemainingContent(unifiedResponse.content, streamedContent);
+                writeText(limiter.push(remaining) + limiter.flush());
+
+                // A text response always has a text block, even when empty
+                if (!textBlockOpen) {
+                  writeEvent({
+                    type: "content_block_start",
+                    index: blockIndex,
+                    content_block: { type: "text", text: "" },
+                  });
+                  textBlockOpen = true;
+                }
+                closeTextBlock();
+              }
+
+              const stopReason = getAnthropicStopReason(unifiedResponse, {
+                doneReason: limiter.getDoneReason(),
+                stopSequence: limiter.getStopSequence(),
+              });
+              writeEvent({
+                type: "message_delta",
+                delta: {
+                  stop_reason: stopReason,
+                  stop_sequence: stopReason === "stop_sequence" ? limiter.getStopSequence() : null,
+                },
+                usage: { output_tokens: convertTokenUsageToAnthropic(usage).output_tokens },
+              });
+              writeEvent({ type: "message_stop" });
+              fastify.log.info({ action: unifiedResponse.action, usage }, "Finished streaming Anthropic response");
+            } catch (err) {
+              logGenerationError(fastify.log, err, "Error streaming Anthropic response", usage);
+
+              // Headers are already sent, so report the error as an event
+              writeEvent(
+                convertErrorToAnthropic(err instanceof Error ? err.message : "Failed to generate response"),
+              );
+            } finally {
+              stream.end();
+            }
+          };
+
+          void streamResponse();
+          return reply
+            .code(200)
+            .header("Content-Type", "text/event-stream")
+            .header("Cache-Control", "no-cache")
+            .send(stream);
+        }
+
+        let unifiedResponse = await generate();
+
+        if (unifiedResponse.action === "answer" || unifiedResponse.action === "chat") {
+          const content = limiter.push(unifiedResponse.content) + limiter.flush();
+          unifiedResponse = { ...unifiedResponse, content };
+        }
+
+        const response: AnthropicMessagesResponse = convertUnifiedResponseToAnthropic(
+          unifiedResponse,
+          modelId,
+          messageId,
+          { doneReason: limiter.getDoneReason(), stopSequence: limiter.getStopSequence() },
+          usage,
+        );
+
+        fastify.log.info(
+          { action: unifiedResponse.action, usage, processingTimeMs: Date.now() - startTime },
+          "Sending Anthropic response",
+        );
+
+        return reply.code(200).send(response);
+      } catch (err) {
+        logGenerationError(fastify.log, err, "Error processing Anthropic messages request");
+
+        return reply.code(getGenerationErrorStatus(err)).send(
+          convertErrorToAnthropic(err instanceof Error ? err.message : "Internal server error"),
+        );
+      }
+    },
+  );
+
+  // OpenAI-compatible /v1/models endpoint - list available models
+  fastify.get("/v1/models", async () => {
+    const models = await getModelCatalog().listModels();
+    const created = getUnixTime();
+
+    const response: OpenAIModelList = {
+      object: "list",
+      data: models.map((model) => convertCatalogModelToOpenAI(model, created)),
+    };
+    return response;
+  });
+
+  // OpenAI-compatible /v1/models/{model} endpoint - model names contain "/"
+  fastify.get<{ Params: { "*": string } }>("/v1/models/*", async (request, reply) => {
+    const name = request.params["*"];
+
+    // Same name resolution as requests, but no default model for an empty name
+    const model = name ? await getModelCatalog().resolveModel(name) : null;
+    if (!model) {
+      return reply.code(404).send(openAIModelNotFound(name));
+    }
+
+    return convertCatalogModelToOpenAI(model, getUnixTime());
+  });
+
+  // Ollama /api/embed endpoint - embed one or more inputs
+  fastify.post<{ Body: OllamaEmbedRequest }>("/api/embed", async (request, reply) => {
+    const startTime = Date.now();
+    const body = request.body || {};
+    const { input, dimensions } = body;
+
+    const isStringArray = Array.isArray(input) && input.every((item) => typeof item === "string");
+    if (typeof input !== "string" && !isStringArray) {
+      return reply.code(400).send({ error: "invalid input type: expected a string or an array of strings" });
+    }
+    if (dimensions !== undefined && !(Number.isInteger(dimensions) && dimensions > 0)) {
+      return reply.code(400).send({ error: "dimensions must be a positive integer" });
+    }
+
+    const embeddingService = getEmbeddingService();
+    if (!embeddingService.isAvailable()) {
+      return reply.code(501).send(embeddingsNotConfigured());
+    }
+
+    // Like Ollama, an empty input just "loads" the model
+    const inputs = typeof input === "string" ? (input ? [input] : []) : input;
+
+    try {
+      const result = await embeddingService.embed(body.model, inputs, {
+        truncate: body.truncate !== false,
+        ...(dimensions && { dimensions }),
+        signal: watchCancellation(reply),
+      });
+
+      fastify.log.info(
+        { model: body.model, embeddingModel: result.model, inputs: inputs.length },
+        "Created embeddings",
+      );
+      return convertEmbeddingsToOllamaEmbed(result, body.model, Date.now() - startTime);
+    } catch (err) {
+      if (err instanceof EmbeddingInputTooLongError) {
+        return reply.code(400).send({ error: `${err.message}; set truncate to true to cut it` });
+      }
+
+      logGenerationError(fastify.log, err, "Error creating embeddings");
+
+      return reply.code(getGenerationErrorStatus(err)).send({
+        error: err instanceof Error ? err.message : "Failed to create embeddings",
+      });
+    }
+  });
+
+  // Ollama /api/embeddings endpoint - legacy single-prompt embedding
+  fastify.post<{ Body: OllamaEmbeddingsRequest }>("/api/embeddings", async (request, reply) => {
+    const body = request.body || {};
+
+    if (body.prompt !== undefined && typeof body.prompt !== "string") {
+      return reply.code(400).send({ error: "prompt must be a string" });
+    }
+
+    const embeddingService = getEmbeddingService();
+    if (!embeddingService.isAvailable()) {
+      return reply.code(501).send(embeddingsNotConfigured());
+    }
+
+    try {
+      // The legacy endpoint always truncates and does not normalize
+      const result = await embeddingService.embed(body.model, body.prompt ? [body.prompt] : [], {
+        normalize: false,
+        signal: watchCancellation(reply),
+      });
+
+      const response: OllamaEmbeddingsResponse = {
+        embedding: result.embeddings[0] || [],
+      };
+      return response;
+    } catch (err) {
+      logGenerationError(fastify.log, err, "Error creating embedding");
+
+      return reply.code(getGenerationErrorStatus(err)).send({
+        error: err instanceof Error ? err.message : "Failed to create embedding",
+      });
+    }
+  });
+
   // Ollama /api/tags endpoint - list available models
   fastify.get("/api/tags", async () => {
+    const models = await getModelCatalog().listModels();
+    const modifiedAt = new Date().toISOString();
+
     const response: OllamaTagsResponse = {
-      models: [
-        {
-          name: config.modelId,
-          model: config.modelId,
-          modified_at: new Date().toISOString(),
-          size: 0, // Placeholder - we don't have actual model size
-          digest: "ollama-opencode-adapter",
-          details: {
-            format: "gguf",
-            family: "llama",
-            families: ["llama"],
-            parameter_size: "70B", // Placeholder
-            quantization_level: "Q4_0",
-          },
-        },
-      ],
+      models: models.map((model) => convertCatalogModelToOllama(model, modifiedAt)),
     };
     return response;
   });
 
   // Ollama /api/show endpoint - show model information
-  fastify.post<{ Body: { name: string } }>("/api/show", async () => {
-    const response: OllamaShowResponse = {
-      modelfile: "# ollama-opencode-adapter model\nFROM ollama-opencode-adapter",
-      parameters: "temperature 0.7",
-      template: "{{ .System }}\n{{ .Prompt }}",
-      details: {
-        format: "gguf",
-        family: "llama",
-        families: ["llama"],
-        parameter_size: "70B",
-        quantization_level: "Q4_0",
-      },
-    };
+  fastify.post<{ Body: OllamaShowRequest }>("/api/show", async (request, reply) => {
+    const name = request.body?.model || request.body?.name;
+    if (!name) {
+      return reply.code(400).send({ error: "model is required" });
+    }
+
+    const model = await getModelCatalog().resolveModel(name);
+    if (!model) {
+      return reply.code(404).send(modelNotFound(name));
+    }
+
+    const response: OllamaShowResponse = convertCatalogModelToOllamaShow(model);
     return response;
   });
 
+  // Ollama /api/create endpoint - create a custom model from a base model
+  fastify.post<{ Body: OllamaCreateRequest }>("/api/create", async (request, reply) => {
+    const body = request.body || {};
+    const name = body.model || body.name || "";
+
+    if (!isValidAliasName(name)) {
+      return reply.code(400).send({ error: `invalid model name "${name}"` });
+    }
+
+    let modelfile: ParsedModelfile = { parameters: {} };
+    if (body.modelfile) {
+      try {
+        modelfile = parseModelfile(body.modelfile);
+      } catch (err) {
+        return reply.code(400).send({
+          error: err instanceof Error ? err.message : "invalid Modelfile",
+        });
+      }
+    }
+
+    const from = body.from || modelfile.from;
+    if (!from) {
+      return reply.code(400).send({ error: "neither 'from' or 'files' was specified" });
+    }
+
+    const base = await getModelCatalog().resolveModel(from);
+    if (!base) {
+      return reply.code(404).send(modelNotFound(from));
+    }
+
+    // Creating from another custom model inherits its settings
+    const inherited = base.alias;
+    const system = body.system ?? modelfile.system ?? inherited?.system;
+    const template = body.template ?? modelfile.template ?? inherited?.template;
+
+    const alias = await getModelAliasStore().save({
+      name,
+      from: inherited ? inherited.from : base.name,
+      ...(system !== undefined && { system }),
+      ...(template !== undefined && { template }),
+      parameters: {
+        ...inherited?.parameters,
+        ...modelfile.parameters,
+        ...body.parameters,
+      },
+      modified_at: new Date().toISOString(),
+    });
+
+    fastify.log.info({ name: alias.name, from: alias.from }, "Created custom model");
+
+    const statuses: OllamaStatusResponse[] = [
+      { status: `using base model ${alias.from}` },
+      { status: "writing manifest" },
+      { status: "success" },
+    ];
+
+    if (body.stream !== false) {
+      const { stream, writeLine } = createNdjsonStream<OllamaStatusResponse>();
+      statuses.forEach(writeLine);
+      stream.end();
+      return reply
+        .code(200)
+        .header("Content-Type", "application/x-ndjson")
+        .send(stream);
+    }
+
+    return reply.code(200).send(statuses[statuses.length - 1]);
+  });
+
+  // Ollama /api/copy endpoint - copy a model under a new custom name
+  fastify.post<{ Body: OllamaCopyRequest }>("/api/copy", async (request, reply) => {
+    const { source, destination } = request.body || {};
+
+    if (!destination || !isValidAliasName(destination)) {
+      return reply.code(400).send({ error: `invalid model name "${destination || ""}"` });
+    }
+
+    const model = source ? await getModelCatalog().resolveModel(source) : null;
+    if (!model) {
+      return reply.code(404).send(modelNotFound(source));
+    }
+
+    const modifiedAt = new Date().toISOString();
+    await getModelAliasStore().save(
+      model.alias
+        ? { ...model.alias, name: destination, modified_at: modifiedAt }
+        : { name: destination, from: model.name, parameters: {}, modified_at: modifiedAt },
+    );
+
+    fastify.log.info({ source: model.name, destination }, "Copied model");
+    return reply.code(200).send();
+  });
+
+  // Ollama /api/delete endpoint - delete a custom model
+  fastify.delete<{ Body: OllamaDeleteRequest }>("/api/delete", async (request, reply) => {
+    const name = request.body?.model || request.body?.name || "";
+
+    const deleted = name ? await getModelAliasStore().delete(name) : false;
+    if (!deleted) {
+      // Only custom models can be deleted; OpenCode models are not ours to remove
+      const model = name ? await getModelCatalog().resolveModel(name) : null;
+      if (model) {
+        return reply.code(400).send({
+          error: `model "${name}" is provided by OpenCode and cannot be deleted`,
+        });
+      }
+      return reply.code(404).send(modelNotFound(name));
+    }
+
+    fastify.log.info({ name }, "Deleted custom model");
+    return reply.code(200).send();
+  });
+
+  // MCP endpoint that serves client tools to OpenCode (native tool calling)
+  fastify.post<{ Body: JsonRpcMessage | JsonRpcMessage[] }>(
+    "/mcp",
+    async (request, reply) => {
+      const registry = getNativeToolRegistry();
+      const body = request.body;
+
+      if (Array.isArray(body)) {
+        const responses = (await Promise.all(body.map((msg) => registry.handleMcpMessage(msg))))
+          .filter((response) => response !== null);
+        return responses.length > 0 ? reply.code(200).send(responses) : reply.code(202).send();
+      }
+
+      const response = await registry.handleMcpMessage(body);
+      return response ? reply.code(200).send(response) : reply.code(202).send();
+    },
+  );
+
+  // No server-initiated messages, so no SSE stream (allowed by the MCP spec)
+  fastify.get("/mcp", async (_request, reply) => {
+    return reply.code(405).header("Allow", "POST").send();
+  });
+
   // Ollama /api/version endpoint
   fastify.get("/api/version", async () => {
     const response: OllamaVersionResponse = {
@@ -242,3 +1545,256 @@ export async function createServer() {
 
   return fastify;
 }
+
+/**
+ * Validate tool_call(s) responses against available tools
+ * An unknown tool name is replaced by the "unknown" tool so the client can handle it.
+ * In a multi-call response, calls to unknown tools are dropped instead.
+ */
+function validateToolCalls(
+  unifiedResponse: UnifiedResponse,
+  availableTools: OllamaTool[],
+  log: FastifyBaseLogger,
+): UnifiedResponse {
+  const isValidTool = (name: string) =>
+    availableTools.some((t) => t.function.name === name);
+
+  if (unifiedResponse.action === 'tool_calls') {
+    const calls = unifiedResponse.calls.filter((call) => isValidTool(call.tool_name));
+    if (calls.length === unifiedResponse.calls.length) {
+      return unifiedResponse;
+    }
+
+    log.warn(
+      {
+        selected: unifiedResponse.calls.map((call) => call.tool_name),
+        available: availableTools.map((t) => t.function.name),
+      },
+      "LLM selected invalid tool names, dropping those calls",
+    );
+    return calls.length > 0
+      ? { action: 'tool_calls', calls }
+      : { action: 'tool_call', tool_name: "unknown", arguments: {} };
+  }
+
+  if (unifiedResponse.action !== 'tool_call') {
+    return unifiedResponse;
+  }
+
+  if (!isValidTool(unifiedResponse.tool_name) && unifiedResponse.tool_name !== "unknown") {
+    log.warn(
+      {
+        selected: unifiedResponse.tool_name,
+        available: availableTools.map((t) => t.function.name),
+      },
+      "LLM selected invalid tool name, treating as unknown",
+    );
+    return {
+      action: 'tool_call',
+      tool_name: "unknown",
+      arguments: {}
+    };
+  }
+
+  return unifiedResponse;
+}
+
+/**
+ * Create a newline-delimited JSON stream for streamed Ollama responses
+ * Errors after the headers were sent are written in-band as `{"error": ...}`
+ */
+function createNdjsonStream<T>() {
+  const stream = new PassThrough();
+  const writeLine = (chunk: T | OllamaErrorResponse) => {
+    stream.write(`${JSON.stringify(chunk)}\n`);
+  };
+  return { stream, writeLine };
+}
+
+/**
+ * Create a server-sent events stream for streamed OpenAI responses
+ * Each chunk is one `data:` event; the stream ends with `data: [DONE]`.
+ */
+function createSseStream<T>() {
+  const stream = new PassThrough();
+  const writeEvent = (chunk: T | OpenAIErrorResponse) => {
+    stream.write(`data: ${JSON.stringify(chunk)}\n\n`);
+  };
+  const writeDone = () => {
+    stream.write("data: [DONE]\n\n");
+  };
+  return { stream, writeEvent, writeDone };
+}
+
+/**
+ * Create a server-sent events stream for streamed Anthropic responses
+ * Unlike OpenAI's, every event is named after its type and there is no [DONE].
+ */
+function createAnthropicEventStream() {
+  const stream = new PassThrough();
+  const writeEvent = (event: AnthropicStreamEvent | AnthropicErrorResponse) => {
+    stream.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+  return { stream, writeEvent };
+}
+
+/**
+ * Ollama's 404 body for a model it does not have
+ */
+function modelNotFound(name: string | undefined): OllamaErrorResponse {
+  return { error: `model "${name || ""}" not found` };
+}
+
+/**
+ * OpenAI's 404 body for a model that does not exist
+ */
+function openAIModelNotFound(name: string | undefined): OpenAIErrorResponse {
+  return convertErrorToOpenAI(
+    `The model "${name || ""}" does not exist`,
+    "invalid_request_error",
+    "model_not_found",
+  );
+}
+
+/**
+ * 501 body for embedding requests when no embedding provider is set up
+ */
+function embeddingsNotConfigured(): OllamaErrorResponse {
+  return { error: "embeddings are not configured; set EMBEDDING_URL to an OpenAI-compatible embeddings API" };
+}
+
+/**
+ * 400 body for images sent to a model without image input
+ */
+function imagesNotSupported(name: string): OllamaErrorResponse {
+  return { error: `model "${name}" does not support image input` };
+}
+
+/**
+ * 400 body for `think` sent to a model without reasoning output
+ */
+function thinkingNotSupported(name: string): OllamaErrorResponse {
+  return { error: `model "${name}" does not support thinking` };
+}
+
+/**
+ * Signal that cancels a generation request
+ * It fires when the client disconnects before the response is finished, or
+ * when REQUEST_TIMEOUT passes.
+ */
+function watchCancellation(reply: FastifyReply): AbortSignal {
+  const cancellation = new RequestCancellation(config.requestTimeout);
+
+  // The response closes once it is finished, or when the connection is lost
+  reply.raw.once("close", () => {
+    if (!reply.raw.writableFinished) {
+      cancellation.cancel("client_disconnected");
+    }
+    cancellation.dispose();
+  });
+
+  return cancellation.signal;
+}
+
+/**
+ * Content of a streamed response that was not streamed yet
+ *
+ * @throws Error if the content does not continue what was streamed; it
+ *   cannot be sent without repeating it, so the stream ends with an error
+ */
+function getRemainingContent(content: string, streamed: string): string {
+  const remaining = getUnstreamedContent(content, streamed);
+  if (remaining === null) {
+    throw new Error("The response changed after part of it was streamed");
+  }
+  return remaining;
+}
+
+/**
+ * Wait until the request queue lets a generation request run
+ * The slot is held until the response closes.
+ *
+ * @param priority - Requests with a higher priority get a slot first
+ * @returns The error to answer with if the queue turned the request away
+ * @throws RequestCancelledError if the request is cancelled while it waits
+ */
+async function waitForGenerationSlot(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  signal: AbortSignal,
+  log: FastifyBaseLogger,
+  priority = 0,
+): Promise<QueueRejectedError | null> {
+  let release: () => void;
+  try {
+    release = await getRequestQueue().acquire(request.ip, { priority, signal });
+  } catch (err) {
+    if (err instanceof QueueRejectedError) {
+      log.warn(
+        { outcome: "rejected", client: request.ip, statusCode: err.statusCode, retryAfter: err.retryAfterSeconds },
+        err.message,
+      );
+      return err;
+    }
+    throw err;
+  }
+
+  if (reply.raw.closed) {
+    release();
+  } else {
+    reply.raw.once("close", release);
+  }
+  return null;
+}
+
+/**
+ * Queue priority of a chat request
+ * Tool results finish an action that is already under way, so they go
+ * ahead of new requests.
+ */
+function getQueuePriority(conversationHistory: OllamaMessage[]): number {
+  return ConversationHelper.getLastToolResults(conversationHistory).length > 0 ? 1 : 0;
+}
+
+/**
+ * Log why a generation request failed
+ * A cancelled request is logged as an outcome, not as an error.
+ */
+function logGenerationError(
+  log: FastifyBaseLogger,
+  err: unknown,
+  message: string,
+  usage?: TokenUsage,
+): void {
+  if (err instanceof RequestCancelledError) {
+    log.info({ outcome: "cancelled", reason: err.reason, usage }, "Request cancelled");
+    return;
+  }
+
+  log.error({
+    error: err instanceof Error ? {
+      message: err.message,
+      stack: err.stack,
+      name: err.name,
+    } : err,
+  }, message);
+}
+
+/**
+ * HTTP status for a failed generation request
+ * 504 after REQUEST_TIMEOUT; 499 (client closed request) when nobody is
+ * left to read it.
+ */
+function getGenerationErrorStatus(err: unknown): number {
+  if (err instanceof RequestCancelledError) {
+    return err.reason === "deadline_exceeded" ? 504 : 499;
+  }
+  return 500;
+}
+
+/**
+ * 400 body for a `format` that is neither "json" nor a schema
+ */
+function invalidFormat(): OllamaErrorResponse {
+  return { error: 'invalid format: expected "json" or a JSON schema object' };
+}
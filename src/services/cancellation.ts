@@ -0,0 +1,110 @@
+/**
+ * Request cancellation
+ *
+ * Every generation request carries an AbortSignal that fires when the
+ * client disconnects or the request deadline (REQUEST_TIMEOUT) passes.
+ * OpencodeService aborts the OpenCode prompt that is running and skips its
+ * fallbacks, so abandoned requests stop using the provider.
+ *
+ * @example
+ * const cancellation = new RequestCancellation(120000);
+ * socket.once("close", () => cancellation.cancel("client_disconnected"));
+ * await service.generateResponse(context, history, tools, { signal: cancellation.signal });
+ * cancellation.dispose();
+ */
+
+export type CancelReason = "client_disconnected" | "deadline_exceeded" | "aborted";
+
+/**
+ * Thrown by OpencodeService when a request is cancelled
+ */
+export class RequestCancelledError extends Error {
+  constructor(readonly reason: CancelReason) {
+    super(`Request cancelled: ${reason.replace(/_/g, " ")}`);
+    this.name = "RequestCancelledError";
+  }
+}
+
+/**
+ * Cancellation of one request, by the client or its deadline
+ */
+export class RequestCancellation {
+  private readonly controller = new AbortController();
+  private deadline: NodeJS.Timeout | undefined;
+
+  /**
+   * @param timeoutMs - Deadline of the request; 0 for none
+   */
+  constructor(timeoutMs: number) {
+    if (timeoutMs > 0) {
+      this.deadline = setTimeout(() => this.cancel("deadline_exceeded"), timeoutMs);
+      this.deadline.unref();
+    }
+  }
+
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /**
+   * Cancel the request; later calls keep the first reason
+   */
+  cancel(reason: CancelReason): void {
+    this.dispose();
+    if (!this.controller.signal.aborted) {
+      this.controller.abort(new RequestCancelledError(reason));
+    }
+  }
+
+  /**
+   * Stop the deadline once the request is over
+   */
+  dispose(): void {
+    clearTimeout(this.deadline);
+    this.deadline = undefined;
+  }
+}
+
+/**
+ * The error a cancelled signal stands for
+ */
+export function toCancellation(signal: AbortSignal): RequestCancelledError {
+  return signal.reason instanceof RequestCancelledError
+    ? signal.reason
+    : new RequestCancelledError("aborted");
+}
+
+/**
+ * @throws RequestCancelledError if the signal was aborted
+ */
+export function throwIfCancelled(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw toCancellation(signal);
+  }
+}
+
+/**
+ * Settle like `promise`, or reject as soon as the signal is aborted
+ */
+export async function raceCancellation<T>(
+  promise: Promise<T>,
+  signal: AbortSignal | undefined,
+): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  throwIfCancelled(signal);
+
+  let onAbort = () => {};
+  try {
+    return await Promise.race([
+      promise,
+      new Promise<never>((_, reject) => {
+        onAbort = () => reject(toCancellation(signal));
+        signal.addEventListener("abort", onAbort, { once: true });
+      }),
+    ]);
+  } finally {
+    signal.removeEventListener("abort", onAbort);
+  }
+}
@@ -76,18 +76,16 @@ export class ConversationHelper {
     return messagesToUse
       .map(msg => {
         if (msg.role === 'user') {
-          return `User: ${msg.content}`;
+          return `User: ${msg.content}${this.formatImageNote(msg)}`;
         } else if (msg.role === 'assistant') {
           // If assistant has tool_calls, show that instead of empty content
           if (msg.tool_calls && msg.tool_calls.length > 0 && includeToolCalls) {
-            const toolCall = msg.tool_calls[0];
-            if (toolCall) {
-              return `Assistant: [Called ${toolCall.function.name}]`;
-            }
+            const names = msg.tool_calls.map(toolCall => toolCall.function.name);
+            return `Assistant: [Called ${names.join(', ')}]`;
           }
           return msg.content ? `Assistant: ${msg.content}` : '';
         } else if (msg.role === 'tool' && includeToolResults) {
-          return `[Tool Result: ${msg.content}]`;
+          return `[Tool Result: ${msg.content}]${this.formatImageNote(msg)}`;
         }
         return '';
       })
@@ -176,14 +174,14 @@ export class ConversationHelper {
     const context = recentHistory
       .map(msg => {
         if (msg.role === 'user') {
-          return `User: ${msg.content}`;
+          return `User: ${msg.content}${this.formatImageNote(msg)}`;
         } else if (msg.role === 'assistant') {
           if (msg.tool_calls && msg.tool_calls.length > 0) {
-            const toolCall = msg.tool_calls[0];
-            if (toolCall) {
+            const calls = msg.tool_calls.map(toolCall => {
               const args = JSON.stringify(toolCall.function.arguments);
-              return `Assistant: [Executed ${toolCall.function.name}(${args})]`;
-            }
+              return `${toolCall.function.name}(${args})`;
+            });
+            return `Assistant: [Executed ${calls.join(', ')}]`;
           }
           return msg.content ? `Assistant: ${msg.content}` : '';
         }
@@ -195,6 +193,65 @@ export class ConversationHelper {
     return context ? `\nRecent Conversation Context:\n${context}\n` : '';
   }
 
+  /**
+   * Get the tool results at the end of the conversation
+   * A turn with several tool calls is answered by one tool message per call.
+   * 
+   * @param conversationHistory - Conversation history
+   * @returns Trailing tool messages in order, or empty array if the last message is not a tool result
+   * 
+   * @example
+   * // History: [user: "light off and lock door", assistant: [2 tool_calls], tool: "OK", tool: "Locked"]
+   * const results = ConversationHelper.getLastToolResults(history);
+   * // Returns: [{role: 'tool', content: 'OK'}, {role: 'tool', content: 'Locked'}]
+   */
+  static getLastToolResults(conversationHistory: OllamaMessage[]): OllamaMessage[] {
+    let start = conversationHistory.length;
+    while (start > 0 && conversationHistory[start - 1]?.role === 'tool') {
+      start--;
+    }
+    return conversationHistory.slice(start);
+  }
+
+  /**
+   * Get the images of the current turn
+   * Images from the last user message and the tool results after it are
+   * sent to the model; images of earlier turns are not resent.
+   * 
+   * @param conversationHistory - Conversation history
+   * @returns Base64-encoded images in message order, or empty array
+   * 
+   * @example
+   * // History: [user: "is the garage open?", assistant: [tool_call], tool: "snapshot" + 1 image]
+   * const images = ConversationHelper.getCurrentImages(history);
+   * // Returns: ["/9j/4AAQ..."]
+   */
+  static getCurrentImages(conversationHistory: OllamaMessage[]): string[] {
+    let start = conversationHistory.length - 1;
+    while (start > 0 && conversationHistory[start]?.role !== 'user') {
+      start--;
+    }
+
+    return conversationHistory
+      .slice(Math.max(start, 0))
+      .filter(msg => msg.role === 'user' || msg.role === 'tool')
+      .flatMap(msg => msg.images || []);
+  }
+
+  /**
+   * Note marking a message that carries images, e.g. " [2 images attached]"
+   * 
+   * @param message - Message to describe
+   * @returns The note, or empty string for messages without images
+   */
+  static formatImageNote(message: OllamaMessage): string {
+    const count = message.images?.length || 0;
+    if (count === 0) {
+      return '';
+    }
+    return ` [${count} image${count === 1 ? '' : 's'} attached]`;
+  }
+
   /**
    * Get original user request before tool execution
    * Useful for generating completion messages after tool execution
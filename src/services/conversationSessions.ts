@@ -0,0 +1,210 @@
+/**
+ * Conversation sessions
+ *
+ * Clients like Home Assistant resend the whole conversation on every turn.
+ * Instead of replaying it into a new OpenCode session each time, the
+ * session of the previous turn is kept and only the new messages are sent.
+ *
+ * A session is stored under a fingerprint of everything the model has seen:
+ * the model, system context, tools and the messages up to and including
+ * its own reply. The next request finds it by fingerprinting its history up
+ * to the last assistant message. If the client edited the history, or the
+ * system context or tools changed, nothing matches and a new session is
+ * started. Idle sessions expire after CONVERSATION_SESSION_TTL.
+ *
+ * @example
+ * // Turn 1: [user "turn on the kitchen light"] -> tool_call HassTurnOn
+ * store.put(fingerprintConversation(prefix, [user, toAssistantMessage(response)]), sessionId);
+ * // Turn 2: [user, assistant (tool_calls), tool "OK"]
+ * const { previous, added } = splitConversation(history); // added: [tool "OK"]
+ * store.take(fingerprintConversation(prefix, previous)); // Returns: sessionId
+ */
+
+import { createHash } from "node:crypto";
+import type { OllamaMessage, OllamaTool } from "../types/ollama.js";
+import type { UnifiedResponse } from "../types/tool-selection.js";
+
+/**
+ * What a session was started with, apart from the messages
+ */
+export interface ConversationPrefix {
+  /** "provider/model" */
+  model: string;
+
+  systemContext: string;
+
+  tools: OllamaTool[];
+}
+
+interface StoredSession {
+  sessionId: string;
+  lastUsed: number;
+}
+
+/**
+ * Idle conversation sessions, by fingerprint
+ *
+ * A session is taken out of the store while a request uses it, so two
+ * concurrent requests never share one.
+ */
+export class ConversationSessionStore {
+  private sessions = new Map<string, StoredSession>();
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * @param ttlMs - Idle time after which a session expires
+   * @param onExpire - Deletes an expired session in OpenCode
+   * @param now - Clock, replaceable in tests
+   */
+  constructor(
+    private readonly ttlMs: number,
+    private readonly onExpire: (sessionId: string) => void,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  /**
+   * Take the session stored under a fingerprint, if it has not expired
+   */
+  take(fingerprint: string): string | undefined {
+    this.sweep();
+
+    const session = this.sessions.get(fingerprint);
+    if (!session) {
+      return undefined;
+    }
+    this.sessions.delete(fingerprint);
+    return session.sessionId;
+  }
+
+  /**
+   * Store a session for the next turn of its conversation
+   */
+  put(fingerprint: string, sessionId: string): void {
+    const replaced = this.sessions.get(fingerprint);
+    if (replaced && replaced.sessionId !== sessionId) {
+      this.onExpire(replaced.sessionId);
+    }
+
+    this.sessions.set(fingerprint, { sessionId, lastUsed: this.now() });
+    this.startSweeping();
+  }
+
+  /**
+   * Expire idle sessions
+   *
+   * @returns Number of expired sessions
+   */
+  sweep(): number {
+    const cutoff = this.now() - this.ttlMs;
+    let expired = 0;
+
+    for (const [fingerprint, session] of this.sessions) {
+      if (session.lastUsed <= cutoff) {
+        this.sessions.delete(fingerprint);
+        this.onExpire(session.sessionId);
+        expired++;
+      }
+    }
+
+    if (this.sessions.size === 0) {
+      this.stopSweeping();
+    }
+    return expired;
+  }
+
+  /**
+   * Expire every session (on shutdown)
+   */
+  clear(): void {
+    for (const session of this.sessions.values()) {
+      this.onExpire(session.sessionId);
+    }
+    this.sessions.clear();
+    this.stopSweeping();
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  private startSweeping(): void {
+    if (!this.sweepTimer) {
+      this.sweepTimer = setInterval(() => this.sweep(), Math.min(this.ttlMs, 60000));
+      this.sweepTimer.unref();
+    }
+  }
+
+  private stopSweeping(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+}
+
+/**
+ * Split a conversation into what the model has seen and the new messages
+ *
+ * @returns `previous` ends with the last assistant message; `added` are
+ *   the user and tool messages after it (the whole history if there is no
+ *   assistant message yet)
+ */
+export function splitConversation(conversationHistory: OllamaMessage[]): {
+  previous: OllamaMessage[];
+  added: OllamaMessage[];
+} {
+  let end = conversationHistory.length;
+  while (end > 0 && conversationHistory[end - 1]?.role !== "assistant") {
+    end--;
+  }
+  return {
+    previous: conversationHistory.slice(0, end),
+    added: conversationHistory.slice(end),
+  };
+}
+
+/**
+ * Fingerprint of a conversation
+ *
+ * Only what survives a round trip through the client is included: roles,
+ * trimmed content and the names of called tools. Tool arguments are left
+ * out because clients reformat them.
+ */
+export function fingerprintConversation(
+  prefix: ConversationPrefix,
+  messages: OllamaMessage[],
+): string {
+  const normalized = messages.map((message) => [
+    message.role,
+    (message.content || "").trim(),
+    (message.tool_calls || []).map((call) => call.function.name),
+  ]);
+
+  return createHash("sha256")
+    .update(JSON.stringify([prefix.model, prefix.systemContext, prefix.tools, normalized]))
+    .digest("hex");
+}
+
+/**
+ * The assistant message a client stores for a response
+ */
+export function toAssistantMessage(response: UnifiedResponse): OllamaMessage {
+  switch (response.action) {
+    case "tool_call":
+      return {
+        role: "assistant",
+        content: "",
+        tool_calls: [{ function: { name: response.tool_name, arguments: response.arguments } }],
+      };
+    case "tool_calls":
+      return {
+        role: "assistant",
+        content: "",
+        tool_calls: response.calls.map((call) => ({
+          function: { name: call.tool_name, arguments: call.arguments },
+        })),
+      };
+    default:
+      return { role: "assistant", content: response.content };
+  }
+}
@@ -0,0 +1,246 @@
+/**
+ * Embeddings
+ *
+ * OpenCode only runs chat sessions and has no embeddings API, so embeddings
+ * come from a pluggable EmbeddingProvider. The built-in provider calls any
+ * OpenAI-compatible `/embeddings` endpoint (OpenAI, Azure OpenAI gateways,
+ * LiteLLM, vLLM, LM Studio, a real Ollama, ...).
+ *
+ * EmbeddingService adds what Ollama does around the model: input length
+ * limits with optional truncation, `dimensions` and L2 normalization.
+ *
+ * @example
+ * const service = new EmbeddingService(provider, { maxInputTokens: 8191 });
+ * await service.embed("nomic-embed-text", ["Kitchen light is on"]);
+ * // Returns: { model: "nomic-embed-text", embeddings: [[0.012, -0.094, ...]], promptTokens: 5 }
+ */
+
+import { config } from "../config.js";
+import { throwIfCancelled } from "./cancellation.js";
+import { estimateTokens, truncateToTokens } from "./tokenizer.js";
+
+export interface EmbeddingRequest {
+  /** Model name sent to the provider */
+  model: string;
+
+  /** Texts to embed, already within the input limit */
+  inputs: string[];
+
+  /** Requested vector size, for models that support shortening */
+  dimensions?: number;
+
+  /** Aborts the request with RequestCancelledError */
+  signal?: AbortSignal;
+}
+
+export interface EmbeddingResult {
+  /** One vector per input, in input order */
+  embeddings: number[][];
+
+  /** Input tokens reported by the provider, 0 if unknown */
+  promptTokens: number;
+}
+
+/**
+ * Source of embedding vectors
+ */
+export interface EmbeddingProvider {
+  embed(request: EmbeddingRequest): Promise<EmbeddingResult>;
+}
+
+export interface EmbedOptions {
+  /** Cut inputs that are too long instead of rejecting them (default: true) */
+  truncate?: boolean;
+
+  /** Shorten vectors to this many dimensions */
+  dimensions?: number;
+
+  /** Scale vectors to unit length (default: true, like /api/embed) */
+  normalize?: boolean;
+
+  /** Cancels the request (see RequestCancellation) */
+  signal?: AbortSignal;
+}
+
+export interface EmbedResult {
+  /** Model the provider was asked for */
+  model: string;
+
+  embeddings: number[][];
+
+  /** Input tokens, estimated when the provider does not report them */
+  promptTokens: number;
+}
+
+export interface EmbeddingServiceOptions {
+  /** Longest input in (estimated) tokens */
+  maxInputTokens: number;
+
+  /** Model used for every request; the requested name is used when empty */
+  model?: string;
+}
+
+/**
+ * Thrown for an input that exceeds the limit when truncation is off
+ */
+export class EmbeddingInputTooLongError extends Error {
+  constructor(
+    readonly index: number,
+    readonly tokens: number,
+    readonly maxTokens: number,
+  ) {
+    super(`input ${index} is ${tokens} tokens long, which exceeds the maximum of ${maxTokens}`);
+    this.name = "EmbeddingInputTooLongError";
+  }
+}
+
+/**
+ * Calls an OpenAI-compatible embeddings endpoint
+ */
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  constructor(
+    private readonly baseUrl: string,
+    private readonly apiKey = "",
+    private readonly fetchFn: typeof fetch = fetch,
+  ) {}
+
+  async embed(request: EmbeddingRequest): Promise<EmbeddingResult> {
+    try {
+      return await this.request(request);
+    } catch (err) {
+      // A stalled endpoint is given up on like any other cancelled request
+      throwIfCancelled(request.signal);
+      throw err;
+    }
+  }
+
+  private async request(request: EmbeddingRequest): Promise<EmbeddingResult> {
+    const response = await this.fetchFn(`${this.baseUrl.replace(/\/+$/, "")}/embeddings`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+      },
+      body: JSON.stringify({
+        model: request.model,
+        input: request.inputs,
+        encoding_format: "float",
+        ...(request.dimensions && { dimensions: request.dimensions }),
+      }),
+      ...(request.signal && { signal: request.signal }),
+    });
+
+    if (!response.ok) {
+      const detail = (await response.text()).slice(0, 500);
+      throw new Error(`embedding request failed with status ${response.status}: ${detail}`);
+    }
+
+    const body: any = await response.json();
+    if (!Array.isArray(body?.data) || body.data.length !== request.inputs.length) {
+      throw new Error("embedding response does not contain one embedding per input");
+    }
+
+    // Entries carry an index and are not guaranteed to be in input order
+    const data = [...body.data].sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+    return {
+      embeddings: data.map((entry) => entry.embedding),
+      promptTokens: body.usage?.prompt_tokens || 0,
+    };
+  }
+}
+
+/**
+ * Embeds texts with a provider, applying Ollama's input and output handling
+ */
+export class EmbeddingService {
+  constructor(
+    private readonly provider: EmbeddingProvider | null,
+    private readonly options: EmbeddingServiceOptions,
+  ) {}
+
+  /**
+   * Whether an embedding provider is configured
+   */
+  isAvailable(): boolean {
+    return this.provider !== null;
+  }
+
+  /**
+   * Embed texts
+   *
+   * @throws EmbeddingInputTooLongError if an input is too long and truncate is false
+   * @throws RequestCancelledError if the signal aborts
+   */
+  async embed(model: string, inputs: string[], options: EmbedOptions = {}): Promise<EmbedResult> {
+    const { truncate = true, dimensions, normalize = true, signal } = options;
+    if (!this.provider) {
+      throw new Error("no embedding provider is configured");
+    }
+
+    const { maxInputTokens } = this.options;
+    const limited = inputs.map((input, index) => {
+      const tokens = estimateTokens(input);
+      if (tokens <= maxInputTokens) {
+        return input;
+      }
+      if (!truncate) {
+        throw new EmbeddingInputTooLongError(index, tokens, maxInputTokens);
+      }
+      return truncateToTokens(input, maxInputTokens);
+    });
+
+    const providerModel = this.options.model || model;
+    if (limited.length === 0) {
+      return { model: providerModel, embeddings: [], promptTokens: 0 };
+    }
+
+    const result = await this.provider.embed({
+      model: providerModel,
+      inputs: limited,
+      ...(dimensions && { dimensions }),
+      ...(signal && { signal }),
+    });
+
+    const embeddings = result.embeddings.map((embedding) => {
+      // Providers without native shortening return full vectors
+      const sized = dimensions && embedding.length > dimensions
+        ? embedding.slice(0, dimensions)
+        : embedding;
+      return normalize ? normalizeEmbedding(sized) : sized;
+    });
+
+    return {
+      model: providerModel,
+      embeddings,
+      promptTokens:
+        result.promptTokens ||
+        limited.reduce((total, input) => total + estimateTokens(input), 0),
+    };
+  }
+}
+
+/**
+ * Scale a vector to unit (L2) length; zero vectors are returned unchanged
+ */
+export function normalizeEmbedding(embedding: number[]): number[] {
+  const norm = Math.sqrt(embedding.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? embedding.map((value) => value / norm) : embedding;
+}
+
+// Singleton instance
+let instance: EmbeddingService | null = null;
+
+export function getEmbeddingService(): EmbeddingService {
+  if (!instance) {
+    instance = new EmbeddingService(
+      config.embeddingUrl
+        ? new OpenAICompatibleEmbeddingProvider(config.embeddingUrl, config.embeddingApiKey)
+        : null,
+      {
+        maxInputTokens: config.embeddingMaxInputTokens,
+        ...(config.embeddingModel && { model: config.embeddingModel }),
+      },
+    );
+  }
+  return instance;
+}
@@ -0,0 +1,224 @@
+/**
+ * Generation options
+ *
+ * OpenCode's prompt API only takes a model, a system prompt and message
+ * parts - sampling settings such as temperature, top_p or seed cannot be
+ * passed per request (OpenCode only applies them from agent configuration).
+ * The output limits `stop` and `num_predict` are therefore enforced here,
+ * on the text the model produced, and everything else is reported once as
+ * ignored.
+ *
+ * @example
+ * applyOutputLimits("Hello.\nUser: hi", getOutputLimits({ stop: ["\nUser:"] }));
+ * // Returns: { text: "Hello.", doneReason: "stop" }
+ */
+
+import type { OllamaOptions } from "../types/ollama.js";
+
+/**
+ * Why generation finished: naturally or at a stop sequence ("stop"), or at
+ * the num_predict limit ("length")
+ */
+export type DoneReason = "stop" | "length";
+
+export interface OutputLimits {
+  /** Stop sequences; output ends before the first one */
+  stop: string[];
+
+  /** Maximum output length in characters, null for unlimited */
+  maxChars: number | null;
+}
+
+export interface LimitedOutput {
+  text: string;
+  doneReason: DoneReason;
+}
+
+/**
+ * Rough characters-per-token ratio used to turn num_predict into a length
+ */
+export const CHARS_PER_TOKEN = 4;
+
+const ENFORCED_OPTIONS = ["stop", "num_predict"];
+
+const warnedOptions = new Set<string>();
+
+/**
+ * Read the output limits from request options
+ * num_predict values below 1 (-1 unlimited, -2 fill context) mean no limit.
+ */
+export function getOutputLimits(options: OllamaOptions | undefined): OutputLimits {
+  const stop = (options?.stop || []).filter(
+    (sequence) => typeof sequence === "string" && sequence.length > 0,
+  );
+  const numPredict = options?.num_predict;
+
+  return {
+    stop,
+    maxChars:
+      typeof numPredict === "number" && numPredict > 0
+        ? Math.floor(numPredict) * CHARS_PER_TOKEN
+        : null,
+  };
+}
+
+/**
+ * Names of options that are set but cannot be honored
+ */
+export function getIgnoredOptions(options: OllamaOptions | undefined): string[] {
+  return Object.entries(options || {})
+    .filter(([name, value]) => value !== undefined && !ENFORCED_OPTIONS.includes(name))
+    .map(([name]) => name);
+}
+
+/**
+ * Warn about options that cannot be honored, once per option name
+ */
+export function warnIgnoredOptions(options: OllamaOptions | undefined): void {
+  const newlyIgnored = getIgnoredOptions(options).filter((name) => !warnedOptions.has(name));
+  if (newlyIgnored.length === 0) {
+    return;
+  }
+
+  newlyIgnored.forEach((name) => warnedOptions.add(name));
+  console.warn(
+    `[WARN] OpenCode does not accept per-request sampling options; ignoring: ${newlyIgnored.join(", ")}`,
+  );
+}
+
+/**
+ * Apply output limits to a complete text
+ */
+export function applyOutputLimits(text: string, limits: OutputLimits): LimitedOutput {
+  const limiter = new OutputLimiter(limits);
+  const limited = limiter.push(text) + limiter.flush();
+  return { text: limited, doneReason: limiter.getDoneReason() };
+}
+
+/**
+ * Applies output limits to text that arrives in pieces
+ *
+ * Text that could be the start of a stop sequence is held back until the
+ * next piece shows whether the sequence completes, so a stop sequence split
+ * across pieces is never emitted.
+ */
+export class OutputLimiter {
+  private held = "";
+  private emittedChars = 0;
+  private finished = false;
+  private doneReason: DoneReason = "stop";
+  private stopSequence: string | null = null;
+
+  constructor(private readonly limits: OutputLimits) {}
+
+  /**
+   * Feed the next piece of generated text
+   *
+   * @returns Text that can be sent to the client now
+   */
+  push(delta: string): string {
+    if (this.finished) {
+      return "";
+    }
+
+    const text = this.held + delta;
+    this.held = "";
+
+    const stop = this.findStop(text);
+    if (stop) {
+      this.finished = true;
+      const output = this.takeWithinLength(text.slice(0, stop.index));
+      if (this.doneReason === "stop") {
+        this.stopSequence = stop.sequence;
+      }
+      return output;
+    }
+
+    const holdLength = this.getPartialStopLength(text);
+    this.held = text.slice(text.length - holdLength);
+    return this.takeWithinLength(text.slice(0, text.length - holdLength));
+  }
+
+  /**
+   * Release text held back for a stop sequence that never completed
+   */
+  flush(): string {
+    if (this.finished) {
+      return "";
+    }
+
+    const text = this.held;
+    this.held = "";
+    this.finished = true;
+    return this.takeWithinLength(text);
+  }
+
+  /**
+   * Whether the limits ended the output; further pieces are dropped
+   */
+  isFinished(): boolean {
+    return this.finished;
+  }
+
+  getDoneReason(): DoneReason {
+    return this.doneReason;
+  }
+
+  /**
+   * The stop sequence that ended the output, null if none did
+   */
+  getStopSequence(): string | null {
+    return this.stopSequence;
+  }
+
+  private takeWithinLength(text: string): string {
+    const { maxChars } = this.limits;
+    if (maxChars === null) {
+      this.emittedChars += text.length;
+      return text;
+    }
+
+    // Count code points so a cut never splits a surrogate pair
+    const chars = [...text];
+    const remaining = maxChars - this.emittedChars;
+    if (chars.length <= remaining) {
+      this.emittedChars += chars.length;
+      return text;
+    }
+
+    this.finished = true;
+    this.doneReason = "length";
+    this.emittedChars = maxChars;
+    return chars.slice(0, Math.max(0, remaining)).join("");
+  }
+
+  /**
+   * The earliest stop sequence in `text`, if any
+   */
+  private findStop(text: string): { index: number; sequence: string } | null {
+    let first: { index: number; sequence: string } | null = null;
+    for (const sequence of this.limits.stop) {
+      const index = text.indexOf(sequence);
+      if (index >= 0 && (!first || index < first.index)) {
+        first = { index, sequence };
+      }
+    }
+    return first;
+  }
+
+  /**
+   * Length of the longest suffix of `text` that starts a stop sequence
+   */
+  private getPartialStopLength(text: string): number {
+    let longest = 0;
+    for (const sequence of this.limits.stop) {
+      for (let length = Math.min(sequence.length - 1, text.length); length > longest; length--) {
+        if (text.endsWith(sequence.slice(0, length))) {
+          longest = length;
+          break;
+        }
+      }
+    }
+    return longest;
+  }
+}
@@ -0,0 +1,322 @@
+/**
+ * JSON extraction from LLM output
+ *
+ * Models wrap JSON in prose and code fences, emit several objects, and
+ * produce "almost JSON": trailing commas, single or smart quotes, comments,
+ * unquoted keys, Python literals and raw line breaks inside strings.
+ *
+ * extractJson() scans the text for balanced objects and arrays (aware of
+ * strings, escapes and comments, so braces inside strings do not count),
+ * parses each one - repairing it with repairJson() if plain JSON.parse
+ * fails - and returns the first one the caller accepts.
+ *
+ * @example
+ * extractJson('Sure! {"action": "chat", "content": "Hi",} Hope this helps', isAction);
+ * // Returns: { ok: true, value: { action: "chat", content: "Hi" }, candidates: 1 }
+ */
+
+export type ExtractJsonResult =
+  | {
+      ok: true;
+      value: unknown;
+
+      /** Number of separate top-level JSON values found in the text */
+      candidates: number;
+    }
+  | { ok: false; error: string };
+
+const OPENERS = "{[";
+const CLOSERS: Record<string, string> = { "{": "}", "[": "]" };
+
+/** Opening quote -> closing quotes */
+const QUOTES: Record<string, string> = {
+  '"': '"',
+  "'": "'",
+  "“": "”“", // “ ... ” (or “ ... “)
+  "”": "”", // ” ... ”
+  "‘": "’‘", // ‘ ... ’
+  "’": "’", // ’ ... ’
+};
+
+const ESCAPES: Record<string, string> = {
+  n: "\n",
+  t: "\t",
+  r: "\r",
+  b: "\b",
+  f: "\f",
+};
+
+const PYTHON_LITERALS: Record<string, string> = {
+  True: "true",
+  False: "false",
+  None: "null",
+};
+
+/**
+ * Extract a JSON value from model output
+ *
+ * @param text - Model output
+ * @param accept - Picks the wanted value when several are found; without
+ *   it, or if none is accepted, the first top-level value is returned
+ */
+export function extractJson(
+  text: string,
+  accept?: (value: unknown) => boolean,
+): ExtractJsonResult {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return { ok: false, error: "response is empty" };
+  }
+
+  try {
+    const value = JSON.parse(trimmed);
+    if (!accept || accept(value)) {
+      return { ok: true, value, candidates: 1 };
+    }
+  } catch {
+    // Look for JSON inside the text below
+  }
+
+  const topLevel: unknown[] = [];
+  let accepted: { value: unknown } | null = null;
+  let acceptedNested: { value: unknown } | null = null;
+  let coveredUntil = -1;
+
+  for (let start = 0; start < trimmed.length; start++) {
+    if (!OPENERS.includes(trimmed[start]!)) {
+      continue;
+    }
+
+    const end = findJsonEnd(trimmed, start);
+    if (end === -1) {
+      continue;
+    }
+
+    const parsed = parseCandidate(trimmed.slice(start, end + 1));
+    if (!parsed) {
+      continue;
+    }
+
+    if (start > coveredUntil) {
+      topLevel.push(parsed.value);
+      coveredUntil = end;
+      if (!accepted && accept?.(parsed.value)) {
+        accepted = parsed;
+      }
+    } else if (!acceptedNested && accept?.(parsed.value)) {
+      // A wrapper like {"response": {...}}: used if no top-level value is accepted
+      acceptedNested = parsed;
+    }
+  }
+
+  if (topLevel.length === 0) {
+    return { ok: false, error: "no JSON object or array found" };
+  }
+
+  return {
+    ok: true,
+    value: (accepted ?? acceptedNested ?? { value: topLevel[0] }).value,
+    candidates: topLevel.length,
+  };
+}
+
+/**
+ * Turn "almost JSON" into JSON
+ *
+ * - single and smart quotes become double quotes; raw line breaks in
+ *   strings are escaped
+ * - // and /* *\/ comments and trailing commas are dropped
+ * - unquoted keys are quoted; True/False/None become true/false/null
+ *
+ * The result is not guaranteed to be valid JSON.
+ */
+export function repairJson(text: string): string {
+  let out = "";
+  let i = 0;
+
+  while (i < text.length) {
+    const ch = text[i]!;
+
+    if (ch in QUOTES && (ch === '"' || opensString(out))) {
+      const string = readString(text, i);
+      out += JSON.stringify(string.value);
+      i = string.end + 1;
+      continue;
+    }
+
+    const afterComment = skipComment(text, i);
+    if (afterComment !== i) {
+      i = afterComment;
+      continue;
+    }
+
+    if (ch === ",") {
+      const next = text[skipInsignificant(text, i + 1)];
+      if (next === "}" || next === "]") {
+        i++; // Trailing comma
+        continue;
+      }
+    }
+
+    if (/[A-Za-z_$]/.test(ch)) {
+      const word = text.slice(i).match(/^[A-Za-z_$][\w$]*/)![0];
+      const next = text[skipInsignificant(text, i + word.length)];
+      if (next === ":") {
+        out += JSON.stringify(word);
+      } else {
+        out += PYTHON_LITERALS[word] ?? word;
+      }
+      i += word.length;
+      continue;
+    }
+
+    out += ch;
+    i++;
+  }
+
+  return out;
+}
+
+/**
+ * Index of the bracket that closes the object or array opened at `start`
+ *
+ * @returns -1 if it is never closed, or closed by the wrong bracket
+ */
+function findJsonEnd(text: string, start: number): number {
+  const stack: string[] = [];
+  let significant = "";
+  let i = start;
+
+  while (i < text.length) {
+    const ch = text[i]!;
+
+    // Apostrophes outside JSON strings are prose (e.g. "it's"), not quotes
+    if (ch in QUOTES && (ch === '"' || opensString(significant))) {
+      i = readString(text, i).end + 1;
+      significant = '"';
+      continue;
+    }
+
+    const afterComment = skipComment(text, i);
+    if (afterComment !== i) {
+      i = afterComment;
+      continue;
+    }
+
+    if (!/\s/.test(ch)) {
+      significant = ch;
+    }
+
+    if (ch in CLOSERS) {
+      stack.push(CLOSERS[ch]!);
+    } else if (ch === "}" || ch === "]") {
+      if (stack.pop() !== ch) {
+        return -1;
+      }
+      if (stack.length === 0) {
+        return i;
+      }
+    }
+    i++;
+  }
+
+  return -1;
+}
+
+/**
+ * Whether a single or smart quote opens a string: it follows a structural
+ * character (or nothing), like a key or value would
+ *
+ * @param before - What precedes the quote, without comments
+ */
+function opensString(before: string): boolean {
+  const last = before.trimEnd().slice(-1);
+  return last === "" || "{[,:".includes(last);
+}
+
+/**
+ * Read the string that starts with the quote at `start`
+ *
+ * @returns The decoded value and the index of the closing quote (the last
+ *   index of the text if the string is never closed)
+ */
+function readString(text: string, start: number): { value: string; end: number } {
+  const closers = QUOTES[text[start]!]!;
+  let value = "";
+  let i = start + 1;
+
+  while (i < text.length) {
+    const ch = text[i]!;
+
+    if (ch === "\\" && i + 1 < text.length) {
+      const next = text[i + 1]!;
+      if (next === "u" && /^[0-9a-fA-F]{4}$/.test(text.slice(i + 2, i + 6))) {
+        value += String.fromCharCode(parseInt(text.slice(i + 2, i + 6), 16));
+        i += 6;
+      } else {
+        value += ESCAPES[next] ?? next;
+        i += 2;
+      }
+      continue;
+    }
+
+    if (closers.includes(ch)) {
+      return { value, end: i };
+    }
+
+    value += ch;
+    i++;
+  }
+
+  return { value, end: text.length - 1 };
+}
+
+/**
+ * Index after a comment starting at `index`, or `index` if there is none
+ */
+function skipComment(text: string, index: number): number {
+  if (text[index] !== "/") {
+    return index;
+  }
+  if (text[index + 1] === "/") {
+    const end = text.indexOf("\n", index);
+    return end === -1 ? text.length : end;
+  }
+  if (text[index + 1] === "*") {
+    const end = text.indexOf("*/", index + 2);
+    return end === -1 ? text.length : end + 2;
+  }
+  return index;
+}
+
+/**
+ * Index of the next character that is neither whitespace nor a comment
+ */
+function skipInsignificant(text: string, index: number): number {
+  let i = index;
+  while (i < text.length) {
+    if (/\s/.test(text[i]!)) {
+      i++;
+      continue;
+    }
+    const afterComment = skipComment(text, i);
+    if (afterComment === i) {
+      break;
+    }
+    i = afterComment;
+  }
+  return i;
+}
+
+function parseCandidate(candidate: string): { value: unknown } | null {
+  try {
+    return { value: JSON.parse(candidate) };
+  } catch {
+    // Try again after repairing it below
+  }
+  try {
+    return { value: JSON.parse(repairJson(candidate)) };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,482 @@
+/**
+ * JSON Schema validation
+ *
+ * A small validator for the JSON Schema subset clients send to Ollama as
+ * structured output formats (usually generated by Pydantic or Zod):
+ * type, enum, const, properties, required, additionalProperties, items,
+ * string/number/array bounds, pattern and the anyOf/oneOf/allOf combinators.
+ * Local "$ref"s into "$defs"/"definitions" are resolved; a reference that
+ * leads back to itself without descending into the value is reported.
+ *
+ * Keywords outside this subset are ignored rather than rejected, so an
+ * unusual schema never blocks a response.
+ *
+ * coerceToSchema() fixes values whose intent is unambiguous (numbers sent
+ * as strings, a single value where a list is expected, ...) before they
+ * are validated.
+ *
+ * @example
+ * validateJsonSchema({ age: "5" }, {
+ *   type: "object",
+ *   properties: { age: { type: "integer" } },
+ *   required: ["age", "name"],
+ * });
+ * // Returns: ["$: missing required property 'name'", "$.age: expected integer, got string"]
+ */
+
+export type JsonSchema = Record<string, any>;
+
+/**
+ * Validate a value against a JSON Schema
+ *
+ * @returns Validation errors prefixed with the JSON path ("$.a[0]"), empty if valid
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema): string[] {
+  const errors: string[] = [];
+  validate(value, schema, "$", schema, NO_REFS, errors);
+  return errors;
+}
+
+/**
+ * Coerce a value towards a schema where the intent is unambiguous
+ *
+ * - numeric strings become numbers ("2" -> 2) and "true"/"false" booleans
+ * - numbers and booleans become strings when a string is expected
+ * - a single value becomes a one-item array when an array is expected
+ * - a string that matches one enum value except for case becomes that value
+ *
+ * Anything else is left as it is for validateJsonSchema() to report.
+ * The value is not modified; coerced parts are copies.
+ *
+ * @example
+ * coerceToSchema({ brightness: "80", areas: "kitchen" }, {
+ *   type: "object",
+ *   properties: { brightness: { type: "integer" }, areas: { type: "array", items: { type: "string" } } },
+ * });
+ * // Returns: { brightness: 80, areas: ["kitchen"] }
+ */
+export function coerceToSchema(value: unknown, schema: JsonSchema): unknown {
+  return coerce(value, schema, schema, NO_REFS);
+}
+
+/**
+ * JSON type name of a value as used in schema "type" keywords
+ */
+export function getJsonType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? "integer" : "number";
+  }
+  return typeof value;
+}
+
+/**
+ * References followed at the current value; following one again is a cycle
+ * Descending into an item or property starts a new set.
+ */
+type RefPath = ReadonlySet<string>;
+
+const NO_REFS: RefPath = new Set();
+
+function validate(
+  value: unknown,
+  schema: JsonSchema | boolean | undefined,
+  path: string,
+  root: JsonSchema,
+  refs: RefPath,
+  errors: string[],
+): void {
+  if (schema === undefined || schema === true) {
+    return;
+  }
+  if (schema === false) {
+    errors.push(`${path}: no value is allowed here`);
+    return;
+  }
+
+  if (typeof schema.$ref === "string") {
+    if (refs.has(schema.$ref)) {
+      errors.push(`${path}: circular schema reference ${schema.$ref}`);
+      return;
+    }
+    const target = resolveRef(schema.$ref, root);
+    if (target === undefined) {
+      errors.push(`${path}: cannot resolve schema reference ${schema.$ref}`);
+      return;
+    }
+    refs = new Set(refs).add(schema.$ref);
+    validate(value, target, path, root, refs, errors);
+  }
+
+  const types = getSchemaTypes(schema);
+  if (types.length > 0 && !types.some((type) => matchesType(value, type))) {
+    errors.push(`${path}: expected ${types.join(" or ")}, got ${getJsonType(value)}`);
+    return; // Remaining keywords assume the right type
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((v: unknown) => isEqual(v, value))) {
+    errors.push(
+      `${path}: must be one of ${schema.enum.map((v: unknown) => JSON.stringify(v)).join(", ")}`,
+    );
+  }
+  if ("const" in schema && !isEqual(schema.const, value)) {
+    errors.push(`${path}: must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === "string") {
+    validateString(value, schema, path, errors);
+  } else if (typeof value === "number") {
+    validateNumber(value, schema, path, errors);
+  } else if (Array.isArray(value)) {
+    validateArray(value, schema, path, root, errors);
+  } else if (value !== null && typeof value === "object") {
+    validateObject(value as Record<string, unknown>, schema, path, root, errors);
+  }
+
+  validateCombinators(value, schema, path, root, refs, errors);
+}
+
+function coerce(
+  value: unknown,
+  schema: JsonSchema | boolean | undefined,
+  root: JsonSchema,
+  refs: RefPath,
+): unknown {
+  if (schema === undefined || typeof schema === "boolean") {
+    return value;
+  }
+
+  let result = value;
+
+  if (typeof schema.$ref === "string") {
+    if (refs.has(schema.$ref)) {
+      return result; // Circular; validateJsonSchema() reports it
+    }
+    const target = resolveRef(schema.$ref, root);
+    refs = new Set(refs).add(schema.$ref);
+    if (target !== undefined) {
+      result = coerce(result, target, root, refs);
+    }
+  }
+
+  const types = getSchemaTypes(schema);
+  if (types.length > 0 && !types.some((type) => matchesType(result, type))) {
+    result = coerceType(result, types);
+  }
+
+  if (typeof result === "string" && Array.isArray(schema.enum) && !schema.enum.includes(result)) {
+    const lower = result.toLowerCase();
+    const matches = schema.enum.filter(
+      (option: unknown) => typeof option === "string" && option.toLowerCase() === lower,
+    );
+    if (matches.length === 1) {
+      result = matches[0];
+    }
+  }
+
+  if (Array.isArray(result)) {
+    const prefixItems: JsonSchema[] = Array.isArray(schema.prefixItems) ? schema.prefixItems : [];
+    result = result.map((item, i) =>
+      coerce(item, i < prefixItems.length ? prefixItems[i] : schema.items, root, NO_REFS),
+    );
+  } else if (result !== null && typeof result === "object") {
+    const properties: Record<string, JsonSchema> = schema.properties || {};
+    result = Object.fromEntries(
+      Object.entries(result).map(([name, propertyValue]) => [
+        name,
+        coerce(
+          propertyValue,
+          hasOwn(properties, name)
+            ? properties[name]
+            : typeof schema.additionalProperties === "object"
+              ? schema.additionalProperties
+              : undefined,
+          root,
+          NO_REFS,
+        ),
+      ]),
+    );
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    for (const subschema of schema.allOf) {
+      result = coerce(result, subschema, root, refs);
+    }
+  }
+
+  // Use the first alternative the coerced value satisfies
+  const alternatives = schema.anyOf || schema.oneOf;
+  if (
+    Array.isArray(alternatives) &&
+    !alternatives.some((alt) => isValid(result, alt, root, refs))
+  ) {
+    for (const alternative of alternatives) {
+      const candidate = coerce(result, alternative, root, refs);
+      if (isValid(candidate, alternative, root, refs)) {
+        return candidate;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Convert a scalar to the first of the expected types it clearly represents
+ */
+function coerceType(value: unknown, types: string[]): unknown {
+  for (const type of types) {
+    if (typeof value === "string") {
+      const text = value.trim();
+      if ((type === "number" || type === "integer") && NUMERIC_STRING.test(text)) {
+        const number = Number(text);
+        if (type === "number" || Number.isInteger(number)) {
+          return number;
+        }
+      }
+      if (type === "boolean" && /^(true|false)$/i.test(text)) {
+        return text.toLowerCase() === "true";
+      }
+    }
+    if (type === "string" && (typeof value === "number" || typeof value === "boolean")) {
+      return String(value);
+    }
+  }
+
+  if (types.includes("array") && value !== undefined && value !== null) {
+    return [value];
+  }
+  return value;
+}
+
+const NUMERIC_STRING = /^-?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?$/;
+
+function isValid(value: unknown, schema: JsonSchema, root: JsonSchema, refs: RefPath): boolean {
+  const errors: string[] = [];
+  validate(value, schema, "$", root, refs, errors);
+  return errors.length === 0;
+}
+
+function getSchemaTypes(schema: JsonSchema): string[] {
+  const types: string[] = Array.isArray(schema.type)
+    ? schema.type
+    : typeof schema.type === "string"
+      ? [schema.type]
+      : [];
+
+  // OpenAPI-style nullable
+  return schema.nullable === true && types.length > 0 ? [...types, "null"] : types;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = getJsonType(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+function validateString(
+  value: string,
+  schema: JsonSchema,
+  path: string,
+  errors: string[],
+): void {
+  const length = [...value].length;
+  if (typeof schema.minLength === "number" && length < schema.minLength) {
+    errors.push(`${path}: must be at least ${schema.minLength} characters`);
+  }
+  if (typeof schema.maxLength === "number" && length > schema.maxLength) {
+    errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+  }
+  if (typeof schema.pattern === "string") {
+    try {
+      if (!new RegExp(schema.pattern, "u").test(value)) {
+        errors.push(`${path}: must match pattern ${schema.pattern}`);
+      }
+    } catch {
+      // Patterns JavaScript cannot compile are not enforced
+    }
+  }
+}
+
+function validateNumber(
+  value: number,
+  schema: JsonSchema,
+  path: string,
+  errors: string[],
+): void {
+  if (typeof schema.minimum === "number" && value < schema.minimum) {
+    errors.push(`${path}: must be >= ${schema.minimum}`);
+  }
+  if (typeof schema.maximum === "number" && value > schema.maximum) {
+    errors.push(`${path}: must be <= ${schema.maximum}`);
+  }
+  if (typeof schema.exclusiveMinimum === "number" && value <= schema.exclusiveMinimum) {
+    errors.push(`${path}: must be > ${schema.exclusiveMinimum}`);
+  }
+  if (typeof schema.exclusiveMaximum === "number" && value >= schema.exclusiveMaximum) {
+    errors.push(`${path}: must be < ${schema.exclusiveMaximum}`);
+  }
+  if (
+    typeof schema.multipleOf === "number" &&
+    schema.multipleOf > 0 &&
+    !Number.isInteger(value / schema.multipleOf)
+  ) {
+    errors.push(`${path}: must be a multiple of ${schema.multipleOf}`);
+  }
+}
+
+function validateArray(
+  value: unknown[],
+  schema: JsonSchema,
+  path: string,
+  root: JsonSchema,
+  errors: string[],
+): void {
+  if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+    errors.push(`${path}: must have at least ${schema.minItems} items`);
+  }
+  if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+    errors.push(`${path}: must have at most ${schema.maxItems} items`);
+  }
+  if (schema.uniqueItems === true) {
+    const duplicate = value.findIndex((item, i) =>
+      value.slice(0, i).some((other) => isEqual(other, item)),
+    );
+    if (duplicate >= 0) {
+      errors.push(`${path}[${duplicate}]: duplicate item`);
+    }
+  }
+
+  // "prefixItems" describes a tuple; "items" then applies to the rest
+  const prefixItems: JsonSchema[] = Array.isArray(schema.prefixItems) ? schema.prefixItems : [];
+  value.forEach((item, i) => {
+    const itemSchema = i < prefixItems.length ? prefixItems[i] : schema.items;
+    if (itemSchema !== undefined && !Array.isArray(itemSchema)) {
+      validate(item, itemSchema, `${path}[${i}]`, root, NO_REFS, errors);
+    }
+  });
+}
+
+function validateObject(
+  value: Record<string, unknown>,
+  schema: JsonSchema,
+  path: string,
+  root: JsonSchema,
+  errors: string[],
+): void {
+  const properties: Record<string, JsonSchema> = schema.properties || {};
+
+  for (const name of Array.isArray(schema.required) ? schema.required : []) {
+    if (!hasOwn(value, name)) {
+      errors.push(`${path}: missing required property '${name}'`);
+    }
+  }
+
+  for (const [name, propertyValue] of Object.entries(value)) {
+    const propertyPath = `${path}.${name}`;
+    if (hasOwn(properties, name)) {
+      validate(propertyValue, properties[name], propertyPath, root, NO_REFS, errors);
+    } else if (schema.additionalProperties === false) {
+      errors.push(`${path}: unexpected property '${name}'`);
+    } else if (typeof schema.additionalProperties === "object") {
+      validate(propertyValue, schema.additionalProperties, propertyPath, root, NO_REFS, errors);
+    }
+  }
+
+  const count = Object.keys(value).length;
+  if (typeof schema.minProperties === "number" && count < schema.minProperties) {
+    errors.push(`${path}: must have at least ${schema.minProperties} properties`);
+  }
+  if (typeof schema.maxProperties === "number" && count > schema.maxProperties) {
+    errors.push(`${path}: must have at most ${schema.maxProperties} properties`);
+  }
+}
+
+function validateCombinators(
+  value: unknown,
+  schema: JsonSchema,
+  path: string,
+  root: JsonSchema,
+  refs: RefPath,
+  errors: string[],
+): void {
+  if (Array.isArray(schema.allOf)) {
+    for (const subschema of schema.allOf) {
+      validate(value, subschema, path, root, refs, errors);
+    }
+  }
+
+  if (Array.isArray(schema.anyOf) || Array.isArray(schema.oneOf)) {
+    const keyword = Array.isArray(schema.anyOf) ? "anyOf" : "oneOf";
+    const subschemas: JsonSchema[] = schema[keyword];
+    const results = subschemas.map((subschema) => {
+      const subErrors: string[] = [];
+      validate(value, subschema, path, root, refs, subErrors);
+      return subErrors;
+    });
+    const matches = results.filter((subErrors) => subErrors.length === 0).length;
+
+    if (matches === 0) {
+      // Report the closest alternative so the model knows what to fix
+      const closest = results.reduce((a, b) => (b.length < a.length ? b : a), results[0] || []);
+      errors.push(`${path}: does not match any allowed schema`, ...closest);
+    } else if (keyword === "oneOf" && matches > 1) {
+      errors.push(`${path}: matches more than one allowed schema`);
+    }
+  }
+
+  if (schema.not !== undefined) {
+    const subErrors: string[] = [];
+    validate(value, schema.not, path, root, refs, subErrors);
+    if (subErrors.length === 0) {
+      errors.push(`${path}: matches a schema it must not match`);
+    }
+  }
+}
+
+/**
+ * Resolve a local reference such as "#/$defs/Address"
+ */
+function resolveRef(ref: string, root: JsonSchema): JsonSchema | undefined {
+  if (ref === "#") {
+    return root;
+  }
+  if (!ref.startsWith("#/")) {
+    return undefined; // Remote references are not supported
+  }
+
+  let target: any = root;
+  for (const segment of ref.slice(2).split("/")) {
+    const key = decodeURIComponent(segment).replace(/~1/g, "/").replace(/~0/g, "~");
+    target = target?.[key];
+  }
+  return target && typeof target === "object" ? target : undefined;
+}
+
+/**
+ * Own keys only; "constructor" or "toString" are not properties of a JSON object
+ */
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return (
+    aKeys.length === bKeys.length &&
+    aKeys.every((key) =>
+      isEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]),
+    )
+  );
+}
@@ -0,0 +1,151 @@
+/**
+ * ModelAliasStore
+ *
+ * Persists custom models created via /api/create and /api/copy. An alias
+ * bundles a base OpenCode model with a system prompt, default options and a
+ * prompt template, e.g. "ha-assistant:latest" = Claude + house persona.
+ *
+ * Aliases are stored as JSON in MODEL_ALIAS_FILE and loaded lazily.
+ */
+
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { config } from "../config.js";
+import type { ModelfileParameterValue } from "./modelfile.js";
+
+export interface ModelAlias {
+  /** Alias name including tag (e.g. "ha-assistant:latest") */
+  name: string;
+
+  /** Base catalog model: "provider/model" */
+  from: string;
+
+  /** System prompt used when the request has none */
+  system?: string;
+
+  /** Prompt template used by /api/generate when the request has none */
+  template?: string;
+
+  /** Default generation options (request options take precedence) */
+  parameters: Record<string, ModelfileParameterValue>;
+
+  /** ISO 8601 timestamp of the last create/copy */
+  modified_at: string;
+}
+
+const ALIAS_NAME_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9._-]*(:[a-zA-Z0-9._-]+)?$/;
+
+/**
+ * Normalize an alias name the way Ollama does: a missing tag means ":latest"
+ *
+ * @example
+ * normalizeAliasName("ha-assistant"); // Returns: "ha-assistant:latest"
+ */
+export function normalizeAliasName(name: string): string {
+  const trimmed = name.trim();
+  return trimmed.includes(":") ? trimmed : `${trimmed}:latest`;
+}
+
+/**
+ * Check whether a name can be used for an alias
+ * Slashes are reserved for "provider/model" names.
+ */
+export function isValidAliasName(name: string): boolean {
+  return ALIAS_NAME_PATTERN.test(name.trim());
+}
+
+export class ModelAliasStore {
+  private aliases: Map<string, ModelAlias> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async list(): Promise<ModelAlias[]> {
+    const aliases = await this.load();
+    return [...aliases.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async get(name: string): Promise<ModelAlias | undefined> {
+    const aliases = await this.load();
+    return aliases.get(normalizeAliasName(name));
+  }
+
+  /**
+   * Create or replace an alias
+   */
+  async save(alias: ModelAlias): Promise<ModelAlias> {
+    const aliases = await this.load();
+    const saved = { ...alias, name: normalizeAliasName(alias.name) };
+    aliases.set(saved.name, saved);
+    await this.persist();
+    return saved;
+  }
+
+  /**
+   * Delete an alias
+   *
+   * @returns false if no alias with this name exists
+   */
+  async delete(name: string): Promise<boolean> {
+    const aliases = await this.load();
+    if (!aliases.delete(normalizeAliasName(name))) {
+      return false;
+    }
+    await this.persist();
+    return true;
+  }
+
+  private async load(): Promise<Map<string, ModelAlias>> {
+    if (this.aliases) {
+      return this.aliases;
+    }
+
+    let stored: ModelAlias[] = [];
+    try {
+      stored = JSON.parse(await readFile(this.filePath, "utf-8"));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error(
+          `[ModelAliasStore] Failed to read ${this.filePath}:`,
+          err instanceof Error ? err.message : err,
+        );
+      }
+    }
+
+    // Another call may have finished loading while this one was reading
+    if (!this.aliases) {
+      this.aliases = new Map(stored.map((alias) => [alias.name, alias]));
+    }
+    return this.aliases;
+  }
+
+  /**
+   * Write all aliases to disk
+   * Writes are serialized and go through a temp file so a crash never
+   * leaves a half-written file behind.
+   */
+  private persist(): Promise<void> {
+    const data = JSON.stringify([...(this.aliases?.values() || [])], null, 2);
+
+    this.writeQueue = this.writeQueue
+      .catch(() => {})
+      .then(async () => {
+        const tempPath = `${this.filePath}.tmp`;
+        await mkdir(dirname(this.filePath), { recursive: true });
+        await writeFile(tempPath, data, "utf-8");
+        await rename(tempPath, this.filePath);
+      });
+
+    return this.writeQueue;
+  }
+}
+
+// Singleton instance
+let instance: ModelAliasStore | null = null;
+
+export function getModelAliasStore(): ModelAliasStore {
+  if (!instance) {
+    instance = new ModelAliasStore(config.modelAliasFile);
+  }
+  return instance;
+}
@@ -0,0 +1,319 @@
+/**
+ * ModelCatalog
+ * 
+ * Lists every model OpenCode can reach, built from its configured providers.
+ * The list is cached and refreshed in the background on an interval, so
+ * /api/tags does not query OpenCode on every request.
+ * 
+ * Models are named "provider/model" (e.g. "anthropic/claude-sonnet-4").
+ * Custom aliases from the ModelAliasStore are listed alongside them.
+ */
+
+import type { Provider } from "@opencode-ai/sdk";
+import { config } from "../config.js";
+import { getOpencodeService, type OpencodeService } from "./opencode.js";
+import {
+  getModelAliasStore,
+  normalizeAliasName,
+  type ModelAlias,
+  type ModelAliasStore,
+} from "./modelAliasStore.js";
+
+export interface CatalogModel {
+  /** Ollama-facing model name: "provider/model" */
+  name: string;
+
+  /** OpenCode provider ID (e.g. "anthropic") */
+  providerID: string;
+
+  /** Model ID within the provider (e.g. "claude-sonnet-4") */
+  modelID: string;
+
+  /** Human-readable model name reported by OpenCode */
+  displayName: string;
+
+  /** Model family derived from the model ID (e.g. "claude", "gpt") */
+  family: string;
+
+  /** Context window in tokens (0 if unknown) */
+  contextLength: number;
+
+  /** Maximum output tokens (0 if unknown) */
+  outputLimit: number;
+
+  /** What the model supports natively, according to OpenCode */
+  capabilities: ModelCapabilities;
+
+  /** Set for custom models created via /api/create or /api/copy */
+  alias?: ModelAlias;
+}
+
+export interface ModelCapabilities {
+  /** Native tool calling */
+  toolCall: boolean;
+
+  /** Image input */
+  vision: boolean;
+
+  /** Reasoning/thinking output */
+  reasoning: boolean;
+}
+
+export class ModelCatalog {
+  private models: CatalogModel[] = [];
+  private fetchedAt = 0;
+  private pendingRefresh: Promise<CatalogModel[]> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly opencodeService: OpencodeService,
+    private readonly refreshIntervalMs: number,
+    private readonly aliasStore: ModelAliasStore | null = null,
+  ) {}
+
+  /**
+   * List custom aliases followed by the OpenCode models
+   */
+  async listModels(): Promise<CatalogModel[]> {
+    const models = await this.listOpencodeModels();
+    const aliases = this.aliasStore ? await this.aliasStore.list() : [];
+    return [...aliases.map((alias) => toAliasModel(alias, models)), ...models];
+  }
+
+  /**
+   * Get the cached OpenCode model list, refreshing it first if it is stale
+   */
+  async listOpencodeModels(): Promise<CatalogModel[]> {
+    if (this.fetchedAt && Date.now() - this.fetchedAt < this.refreshIntervalMs) {
+      return this.models;
+    }
+    return this.refresh();
+  }
+
+  /**
+   * Reload the model list from OpenCode
+   * Concurrent calls share one request. On failure the previous list is
+   * kept; if there is none, only the configured default model is listed.
+   */
+  async refresh(): Promise<CatalogModel[]> {
+    if (this.pendingRefresh) {
+      return this.pendingRefresh;
+    }
+
+    this.pendingRefresh = (async () => {
+      try {
+        const providers = await this.opencodeService.listProviders();
+        this.models = withDefaultModel(buildCatalogModels(providers));
+        this.fetchedAt = Date.now();
+      } catch (err) {
+        console.error(
+          "[ModelCatalog] Failed to load models from OpenCode:",
+          err instanceof Error ? err.message : err,
+        );
+        if (this.models.length === 0) {
+          return withDefaultModel([]);
+        }
+      }
+      return this.models;
+    })().finally(() => {
+      this.pendingRefresh = null;
+    });
+
+    return this.pendingRefresh;
+  }
+
+  /**
+   * Resolve an Ollama `model` field to a catalog model
+   * 
+   * Accepts an alias name, "provider/model", "provider:model" or a bare
+   * model ID, with an optional ":latest" tag. An empty name resolves to the
+   * configured default. A bare model ID available from several providers
+   * prefers the default provider. An exact "provider/model" match wins over
+   * a model ID match, and both win over splitting the name.
+   * 
+   * @returns The matching model, or null if OpenCode does not have it
+   */
+  async resolveModel(name: string | undefined): Promise<CatalogModel | null> {
+    const allModels = await this.listModels();
+    const requested = (name || "").trim();
+
+    if (requested) {
+      const aliasName = normalizeAliasName(requested);
+      const alias = allModels.find((m) => m.alias && m.name === aliasName);
+      if (alias) {
+        return alias;
+      }
+    }
+
+    const models = allModels.filter((m) => !m.alias);
+    const defaultName = `${config.modelProvider}/${config.modelId}`;
+    const trimmed = requested.replace(/:latest$/, "");
+
+    if (!trimmed) {
+      return models.find((m) => m.name === defaultName) || null;
+    }
+
+    const exact = models.find((m) => m.name === trimmed);
+    if (exact) {
+      return exact;
+    }
+
+    // Model IDs may contain "/" or ":" themselves (e.g. "meta-llama/llama-3.1-8b"),
+    // so the full name is looked up as a model ID before it is split
+    const candidates = models.filter((m) => m.modelID === trimmed);
+    const bare = candidates.find((m) => m.providerID === config.modelProvider) || candidates[0];
+    if (bare) {
+      return bare;
+    }
+
+    const parsed = parseModelName(trimmed);
+    if (!parsed) {
+      return null;
+    }
+    return (
+      models.find(
+        (m) => m.providerID === parsed.providerID && m.modelID === parsed.modelID,
+      ) || null
+    );
+  }
+
+  /**
+   * Load the catalog now and keep refreshing it on the configured interval
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    void this.refresh();
+    this.timer = setInterval(() => void this.refresh(), this.refreshIntervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+/**
+ * Build catalog entries from OpenCode providers, sorted by name
+ */
+export function buildCatalogModels(providers: Provider[]): CatalogModel[] {
+  return providers
+    .flatMap((provider) =>
+      Object.entries(provider.models || {}).map(([modelID, model]) => ({
+        name: `${provider.id}/${modelID}`,
+        providerID: provider.id,
+        modelID,
+        displayName: model.name || modelID,
+        family: getModelFamily(modelID),
+        contextLength: model.limit?.context || 0,
+        outputLimit: model.limit?.output || 0,
+        capabilities: {
+          toolCall: model.capabilities?.toolcall ?? false,
+          vision: model.capabilities?.input?.image ?? false,
+          reasoning: model.capabilities?.reasoning ?? false,
+        },
+      })),
+    )
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Split a "provider/model" or "provider:model" name
+ * Model IDs may contain further slashes (e.g. "openrouter/anthropic/claude-3.5-sonnet")
+ * 
+ * @returns Provider and model IDs, or null for a bare model name
+ */
+export function parseModelName(
+  name: string,
+): { providerID: string; modelID: string } | null {
+  const match = name.match(/^([^/:]+)[/:](.+)$/);
+  if (!match) {
+    return null;
+  }
+  return { providerID: match[1]!, modelID: match[2]! };
+}
+
+/**
+ * Derive a model family from its ID
+ * 
+ * @example
+ * getModelFamily("claude-sonnet-4"); // Returns: "claude"
+ * getModelFamily("gpt-4o");          // Returns: "gpt"
+ */
+export function getModelFamily(modelID: string): string {
+  const baseName = modelID.split("/").pop() || modelID;
+  return baseName.match(/^[a-z]+/i)?.[0]?.toLowerCase() || baseName;
+}
+
+/**
+ * Capabilities of models OpenCode has no metadata for
+ */
+const UNKNOWN_CAPABILITIES: ModelCapabilities = {
+  toolCall: false,
+  vision: false,
+  reasoning: false,
+};
+
+/**
+ * Create the catalog entry of an alias from its base model
+ * The base keeps its routing even if it is missing from the current list.
+ */
+function toAliasModel(alias: ModelAlias, models: CatalogModel[]): CatalogModel {
+  const base = models.find((m) => m.name === alias.from);
+  const parsed = parseModelName(alias.from);
+  const modelID = base?.modelID || parsed?.modelID || alias.from;
+
+  return {
+    name: alias.name,
+    providerID: base?.providerID || parsed?.providerID || config.modelProvider,
+    modelID,
+    displayName: alias.name,
+    family: base?.family || getModelFamily(modelID),
+    contextLength: base?.contextLength || 0,
+    outputLimit: base?.outputLimit || 0,
+    capabilities: base?.capabilities || UNKNOWN_CAPABILITIES,
+    alias,
+  };
+}
+
+/**
+ * Make sure the configured default model is always listed
+ */
+function withDefaultModel(models: CatalogModel[]): CatalogModel[] {
+  const defaultName = `${config.modelProvider}/${config.modelId}`;
+  if (models.some((m) => m.name === defaultName)) {
+    return models;
+  }
+
+  return [
+    {
+      name: defaultName,
+      providerID: config.modelProvider,
+      modelID: config.modelId,
+      displayName: config.modelId,
+      family: getModelFamily(config.modelId),
+      contextLength: 0,
+      outputLimit: 0,
+      capabilities: UNKNOWN_CAPABILITIES,
+    },
+    ...models,
+  ];
+}
+
+// Singleton instance
+let instance: ModelCatalog | null = null;
+
+export function getModelCatalog(): ModelCatalog {
+  if (!instance) {
+    instance = new ModelCatalog(
+      getOpencodeService(),
+      config.modelCatalogRefreshInterval,
+      getModelAliasStore(),
+    );
+  }
+  return instance;
+}
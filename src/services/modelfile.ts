@@ -0,0 +1,228 @@
+/**
+ * Modelfile parsing and formatting
+ *
+ * Supports the subset of Ollama's Modelfile format that makes sense for
+ * cloud models: FROM, SYSTEM, TEMPLATE and PARAMETER. Values may be
+ * wrapped in quotes or triple quotes to span multiple lines.
+ *
+ * Based on: https://github.com/ollama/ollama/blob/main/docs/modelfile.md
+ *
+ * @example
+ * parseModelfile(`
+ * FROM anthropic/claude-sonnet-4
+ * SYSTEM """You are a home assistant."""
+ * PARAMETER temperature 0.3
+ * `);
+ * // Returns: { from: "anthropic/claude-sonnet-4", system: "You are a home assistant.", parameters: { temperature: 0.3 } }
+ */
+
+/**
+ * Parameter values allowed in a Modelfile
+ */
+export type ModelfileParameterValue = number | boolean | string[];
+
+export interface ParsedModelfile {
+  from?: string;
+  system?: string;
+  template?: string;
+  parameters: Record<string, ModelfileParameterValue>;
+}
+
+type ParameterType = "number" | "integer" | "boolean" | "string[]";
+
+/**
+ * Ollama parameters and their value types
+ * Parameters without meaning for cloud models are still accepted so that
+ * existing Modelfiles can be used unchanged.
+ */
+const PARAMETER_TYPES: Record<string, ParameterType> = {
+  temperature: "number",
+  top_p: "number",
+  top_k: "integer",
+  min_p: "number",
+  typical_p: "number",
+  tfs_z: "number",
+  seed: "integer",
+  stop: "string[]",
+  num_predict: "integer",
+  num_ctx: "integer",
+  num_keep: "integer",
+  repeat_last_n: "integer",
+  repeat_penalty: "number",
+  presence_penalty: "number",
+  frequency_penalty: "number",
+  penalize_newline: "boolean",
+  mirostat: "integer",
+  mirostat_eta: "number",
+  mirostat_tau: "number",
+  num_batch: "integer",
+  num_gpu: "integer",
+  main_gpu: "integer",
+  num_thread: "integer",
+  use_mmap: "boolean",
+  use_mlock: "boolean",
+  low_vram: "boolean",
+  numa: "boolean",
+};
+
+const COMMANDS = ["FROM", "SYSTEM", "TEMPLATE", "PARAMETER"];
+
+/**
+ * Parse Modelfile text
+ *
+ * @throws Error for unknown commands, unknown parameters or invalid values
+ */
+export function parseModelfile(text: string): ParsedModelfile {
+  const result: ParsedModelfile = { parameters: {} };
+  let rest = text.replace(/\r\n/g, "\n");
+
+  while (rest.length > 0) {
+    // Skip blank lines and comments
+    const skip = rest.match(/^(\s+|#[^\n]*)/);
+    if (skip) {
+      rest = rest.slice(skip[0].length);
+      continue;
+    }
+
+    const commandMatch = rest.match(/^(\S+)[ \t]*/);
+    const command = commandMatch?.[1]?.toUpperCase() || "";
+    if (!commandMatch || !COMMANDS.includes(command)) {
+      throw new Error(`unsupported Modelfile command: ${commandMatch?.[1]}`);
+    }
+    rest = rest.slice(commandMatch[0].length);
+
+    let parameterName = "";
+    if (command === "PARAMETER") {
+      const nameMatch = rest.match(/^(\S+)[ \t]+/);
+      if (!nameMatch) {
+        throw new Error("PARAMETER requires a name and a value");
+      }
+      parameterName = nameMatch[1]!.toLowerCase();
+      rest = rest.slice(nameMatch[0].length);
+    }
+
+    const { value, remaining } = readValue(rest);
+    rest = remaining;
+
+    switch (command) {
+      case "FROM":
+        result.from = value;
+        break;
+      case "SYSTEM":
+        result.system = value;
+        break;
+      case "TEMPLATE":
+        result.template = value;
+        break;
+      case "PARAMETER":
+        setParameter(result.parameters, parameterName, value);
+        break;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Read a command value: """triple quoted""", "quoted" or the rest of the line
+ */
+function readValue(text: string): { value: string; remaining: string } {
+  if (text.startsWith('"""')) {
+    const end = text.indexOf('"""', 3);
+    if (end < 0) {
+      throw new Error("unterminated triple-quoted string");
+    }
+    return { value: text.slice(3, end), remaining: text.slice(end + 3) };
+  }
+
+  const lineEnd = text.indexOf("\n");
+  const line = (lineEnd < 0 ? text : text.slice(0, lineEnd)).trim();
+  const remaining = lineEnd < 0 ? "" : text.slice(lineEnd + 1);
+
+  const quoted = line.match(/^"((?:[^"\\]|\\.)*)"$/);
+  const value = quoted ? quoted[1]!.replace(/\\(.)/g, "$1") : line;
+  return { value, remaining };
+}
+
+function setParameter(
+  parameters: Record<string, ModelfileParameterValue>,
+  name: string,
+  value: string,
+): void {
+  const type = PARAMETER_TYPES[name];
+  if (!type) {
+    throw new Error(`unknown parameter '${name}'`);
+  }
+
+  switch (type) {
+    case "string[]": {
+      const existing = parameters[name];
+      parameters[name] = [...(Array.isArray(existing) ? existing : []), value];
+      return;
+    }
+    case "boolean": {
+      if (value !== "true" && value !== "false") {
+        throw new Error(`invalid bool value for parameter '${name}': ${value}`);
+      }
+      parameters[name] = value === "true";
+      return;
+    }
+    default: {
+      const num = Number(value);
+      if (value === "" || isNaN(num) || (type === "integer" && !Number.isInteger(num))) {
+        throw new Error(`invalid ${type} value for parameter '${name}': ${value}`);
+      }
+      parameters[name] = num;
+    }
+  }
+}
+
+/**
+ * Format Modelfile text, e.g. for /api/show
+ */
+export function formatModelfile(modelfile: ParsedModelfile, name?: string): string {
+  const lines: string[] = [];
+
+  if (name) {
+    lines.push(
+      '# Modelfile generated by "ollama show"',
+      "# To build a new Modelfile based on this, replace FROM with:",
+      `# FROM ${name}`,
+      "",
+    );
+  }
+
+  if (modelfile.from) {
+    lines.push(`FROM ${modelfile.from}`);
+  }
+  if (modelfile.template) {
+    lines.push(`TEMPLATE """${modelfile.template}"""`);
+  }
+  if (modelfile.system) {
+    lines.push(`SYSTEM """${modelfile.system}"""`);
+  }
+  for (const line of formatParameterLines(modelfile.parameters)) {
+    lines.push(`PARAMETER ${line}`);
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Format parameters the way /api/show reports them: one "name value" per line
+ */
+export function formatParameters(
+  parameters: Record<string, ModelfileParameterValue>,
+): string {
+  return formatParameterLines(parameters).join("\n");
+}
+
+function formatParameterLines(
+  parameters: Record<string, ModelfileParameterValue>,
+): string[] {
+  return Object.entries(parameters).flatMap(([name, value]) =>
+    Array.isArray(value)
+      ? value.map((v) => `${name} ${JSON.stringify(v)}`)
+      : [`${name} ${value}`],
+  );
+}
@@ -0,0 +1,299 @@
+/**
+ * Native tool calling
+ *
+ * OpenCode sessions can only call tools that OpenCode knows about, and its
+ * prompt API cannot take tool definitions. For native tool calling, the
+ * adapter therefore serves the client's tools from its own MCP endpoint
+ * (POST /mcp), which is registered with OpenCode as a remote MCP server.
+ *
+ * Every request registers its tools as a tool set under a unique prefix, so
+ * concurrent requests never see each other's tools. When the model calls a
+ * tool, the call is read from the session's tool parts and the session is
+ * aborted; the MCP `tools/call` is held until then, so nothing is executed
+ * on the adapter side. The client executes the call, like with Ollama.
+ *
+ * @example
+ * const toolSet = getNativeToolRegistry().register(tools);
+ * // OpenCode tool ids: { "ollama-adapter_t1a2b3c4d__HassTurnOn": "HassTurnOn", ... }
+ * toolSet.release(); // Once the calls are captured
+ */
+
+import { randomBytes } from "node:crypto";
+import type { OllamaTool } from "../types/ollama.js";
+import type { ToolInvocation } from "../types/tool-selection.js";
+import type { CatalogModel } from "./modelCatalog.js";
+
+/**
+ * How generateResponse() gets tool calls from the model
+ * - json: tools are described in the prompt and the model answers with a JSON action
+ * - native: tools are registered with OpenCode and called by the model directly
+ */
+export type ToolStrategy = "json" | "native";
+
+/**
+ * Name of the adapter's MCP server in OpenCode
+ */
+export const NATIVE_TOOL_SERVER_NAME = "ollama-adapter";
+
+/**
+ * Longest time a `tools/call` is held before it is answered anyway
+ */
+const MAX_CALL_HOLD_MS = 60000;
+
+/**
+ * Tools of one request, as registered with OpenCode
+ */
+export interface NativeToolSet {
+  id: string;
+
+  tools: OllamaTool[];
+
+  /** OpenCode tool id -> client tool name */
+  toolNames: Map<string, string>;
+
+  /** Resolves once the set is released */
+  released: Promise<void>;
+
+  release(): void;
+}
+
+/**
+ * Tool definition in MCP `tools/list` format
+ */
+export interface McpToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: Record<string, any>;
+}
+
+/**
+ * JSON-RPC 2.0 message received on the MCP endpoint
+ * Messages without an id are notifications and get no response.
+ */
+export interface JsonRpcMessage {
+  jsonrpc: "2.0";
+  id?: string | number | null;
+  method?: string;
+  params?: any;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: "2.0";
+  id: string | number | null;
+  result?: any;
+  error?: { code: number; message: string };
+}
+
+/**
+ * Tool sets of the requests in flight
+ */
+export class NativeToolRegistry {
+  private sets = new Map<string, NativeToolSet>();
+
+  /**
+   * Register the tools of a request
+   * The set must be released when the request is done.
+   */
+  register(tools: OllamaTool[]): NativeToolSet {
+    const id = `t${randomBytes(4).toString("hex")}`;
+    let release = () => {};
+    const released = new Promise<void>((resolve) => {
+      release = () => {
+        this.sets.delete(id);
+        resolve();
+      };
+    });
+
+    const toolSet: NativeToolSet = {
+      id,
+      tools,
+      toolNames: new Map(
+        tools.map((tool) => [
+          getOpencodeToolId(getMcpToolName(id, tool.function.name)),
+          tool.function.name,
+        ]),
+      ),
+      released,
+      release,
+    };
+
+    this.sets.set(id, toolSet);
+    return toolSet;
+  }
+
+  /**
+   * Tools of every registered set, as served by `tools/list`
+   */
+  listTools(): McpToolDefinition[] {
+    return [...this.sets.values()].flatMap((toolSet) =>
+      toolSet.tools.map((tool) => ({
+        name: getMcpToolName(toolSet.id, tool.function.name),
+        description: tool.function.description || "",
+        inputSchema: {
+          ...tool.function.parameters,
+          type: "object",
+          properties: tool.function.parameters?.properties || {},
+        },
+      })),
+    );
+  }
+
+  /**
+   * OpenCode tool ids of every set except the given one
+   * These are disabled in the session of that set.
+   */
+  getOtherToolIds(toolSet: NativeToolSet): string[] {
+    return [...this.sets.values()]
+      .filter((other) => other.id !== toolSet.id)
+      .flatMap((other) => [...other.toolNames.keys()]);
+  }
+
+  /**
+   * Tool set an MCP tool name belongs to
+   */
+  findByMcpToolName(name: string): NativeToolSet | undefined {
+    const setId = name.split("__", 1)[0] || "";
+    const toolSet = this.sets.get(setId);
+    return toolSet?.tools.some((tool) => getMcpToolName(setId, tool.function.name) === name)
+      ? toolSet
+      : undefined;
+  }
+
+  /**
+   * Handle a JSON-RPC message of the MCP protocol
+   *
+   * Only what OpenCode needs is implemented: initialize, ping, tools/list
+   * and tools/call.
+   *
+   * @returns The response, or null for notifications
+   */
+  async handleMcpMessage(message: JsonRpcMessage): Promise<JsonRpcResponse | null> {
+    if (message.id === undefined) {
+      return null;
+    }
+    const id = message.id;
+
+    switch (message.method) {
+      case "initialize":
+        return {
+          jsonrpc: "2.0",
+          id,
+          result: {
+            protocolVersion: message.params?.protocolVersion || "2025-03-26",
+            capabilities: { tools: { listChanged: false } },
+            serverInfo: { name: NATIVE_TOOL_SERVER_NAME, version: "1.0.0" },
+          },
+        };
+
+      case "ping":
+        return { jsonrpc: "2.0", id, result: {} };
+
+      case "tools/list":
+        return { jsonrpc: "2.0", id, result: { tools: this.listTools() } };
+
+      case "tools/call": {
+        const toolSet = this.findByMcpToolName(String(message.params?.name || ""));
+        if (!toolSet) {
+          return {
+            jsonrpc: "2.0",
+            id,
+            error: { code: -32602, message: `Unknown tool: ${message.params?.name}` },
+          };
+        }
+
+        // The call is returned to the client; hold it until the session is aborted
+        await Promise.race([
+          toolSet.released,
+          new Promise((resolve) => setTimeout(resolve, MAX_CALL_HOLD_MS).unref()),
+        ]);
+        return {
+          jsonrpc: "2.0",
+          id,
+          result: {
+            content: [{ type: "text", text: "This tool is executed by the client." }],
+            isError: true,
+          },
+        };
+      }
+
+      default:
+        return {
+          jsonrpc: "2.0",
+          id,
+          error: { code: -32601, message: `Method not found: ${message.method}` },
+        };
+    }
+  }
+}
+
+/**
+ * Read the calls of a tool set from the parts of an assistant message
+ *
+ * @returns The calls in order, or null while a call is still being generated
+ */
+export function readNativeToolCalls(
+  parts: any[],
+  toolSet: NativeToolSet,
+): ToolInvocation[] | null {
+  const toolParts = parts.filter(
+    (part) => part?.type === "tool" && toolSet.toolNames.has(part.tool),
+  );
+
+  // Pending calls do not have their final input yet
+  if (toolParts.some((part) => part.state?.status === "pending")) {
+    return null;
+  }
+
+  return toolParts.map((part) => ({
+    tool_name: toolSet.toolNames.get(part.tool) || part.tool,
+    arguments: part.state?.input && typeof part.state.input === "object" ? part.state.input : {},
+  }));
+}
+
+/**
+ * Pick the tool strategy for a model
+ *
+ * Native tool calling is used for models that match a NATIVE_TOOL_MODELS
+ * pattern ("provider/model", "provider/*" or "*") and support tool calls
+ * according to OpenCode. Custom models match by their own name or their
+ * base model.
+ */
+export function selectToolStrategy(model: CatalogModel, patterns: string[]): ToolStrategy {
+  if (!model.capabilities.toolCall) {
+    return "json";
+  }
+
+  const names = [model.name, `${model.providerID}/${model.modelID}`];
+  const matches = patterns.some((pattern) =>
+    pattern === "*" ||
+    names.some((name) =>
+      pattern.endsWith("/*") ? name.startsWith(pattern.slice(0, -1)) : name === pattern,
+    ),
+  );
+  return matches ? "native" : "json";
+}
+
+/**
+ * MCP tool name of a client tool: the set prefix keeps sets apart
+ */
+function getMcpToolName(setId: string, toolName: string): string {
+  return `${setId}__${toolName}`;
+}
+
+/**
+ * Id of an MCP tool in OpenCode: "<server>_<tool>" with unsafe characters replaced
+ */
+function getOpencodeToolId(mcpToolName: string): string {
+  const sanitize = (name: string) => name.replace(/[^a-zA-Z0-9_-]/g, "_");
+  return `${sanitize(NATIVE_TOOL_SERVER_NAME)}_${sanitize(mcpToolName)}`;
+}
+
+// Singleton instance
+let instance: NativeToolRegistry | null = null;
+
+export function getNativeToolRegistry(): NativeToolRegistry {
+  if (!instance) {
+    instance = new NativeToolRegistry();
+  }
+  return instance;
+}
@@ -1,12 +1,59 @@
 // OpenCode SDK service wrapper
 // Handles session-based communication with OpenCode server
 
-import { createOpencodeClient } from "@opencode-ai/sdk";
-import type { OllamaTool, OllamaMessage } from "../types/ollama.js";
-import type { UnifiedResponse } from "../types/tool-selection.js";
+import { createOpencodeClient, type Provider, type Session } from "@opencode-ai/sdk";
+import type { OllamaTool, OllamaMessage, OllamaFormat } from "../types/ollama.js";
+import type {
+  UnifiedResponse,
+  ToolInvocation,
+} from "../types/tool-selection.js";
 import { ConversationHelper } from "./conversationHelper.js";
+import { StreamingContentExtractor } from "./streamingContentExtractor.js";
+import {
+  StructuredOutputError,
+  buildCorrectionPrompt,
+  checkStructuredOutput,
+  describeOutputFormat,
+  parseJsonOutput,
+} from "./structuredOutput.js";
+import { getPromptUsage, type TokenUsage } from "./tokenUsage.js";
+import { readAssistantOutput, type AssistantOutput } from "./reasoning.js";
+import {
+  SessionEventStream,
+  type AssistantReply,
+  type ReplyWatch,
+} from "./sessionEvents.js";
+import {
+  ConversationSessionStore,
+  fingerprintConversation,
+  splitConversation,
+  toAssistantMessage,
+  type ConversationPrefix,
+} from "./conversationSessions.js";
+import {
+  buildActionCorrectionPrompt,
+  normalizeToolCalls,
+  parseResponseAction,
+} from "./responseAction.js";
+import { buildToolCallCorrectionPrompt, checkToolCall } from "./toolArguments.js";
+import { RequestCancelledError, raceCancellation, throwIfCancelled } from "./cancellation.js";
+import {
+  NATIVE_TOOL_SERVER_NAME,
+  getNativeToolRegistry,
+  readNativeToolCalls,
+  type ToolStrategy,
+} from "./nativeTools.js";
 import { config } from "../config.js";
 
+/** How long the first prompt waits for the event stream to connect */
+const EVENT_CONNECT_TIMEOUT_MS = 2000;
+
+/** How long the completion event may lag behind session.prompt() returning */
+const EVENT_GRACE_MS = 1000;
+
+/** Session titles start with "[ollama-adapter:<instance id>] " */
+const SESSION_TITLE_PREFIX = "ollama-adapter";
+
 export interface OpencodeMessage {
   role: "system" | "user" | "assistant";
   content: string;
@@ -14,11 +61,89 @@ export interface OpencodeMessage {
 
 export interface OpencodeResponse {
   content: string;
+  thinking: string; // Reasoning of the model, empty if there is none
   elapsed: number; // milliseconds
+  usage: TokenUsage;
+}
+
+/**
+ * OpenCode provider/model pair a prompt is sent to
+ */
+export interface ModelRef {
+  providerID: string;
+  modelID: string;
+}
+
+export interface GenerateResponseOptions {
+  /** Model to use (defaults to the configured MODEL_PROVIDER/MODEL_ID) */
+  model?: ModelRef;
+
+  /**
+   * Structured output format for answer/chat content
+   * Formatted content is validated before it is returned, so it is not streamed.
+   */
+  format?: OllamaFormat;
+
+  /** The response must call a tool (OpenAI tool_choice "required" or a named tool) */
+  requireToolCall?: boolean;
+
+  /**
+   * How tools are offered to the model (default: "json")
+   * Native tool calling falls back to the JSON prompt when it fails, and is
+   * not used with `format` or without tools.
+   */
+  toolStrategy?: ToolStrategy;
+
+  /** Called with each new piece of answer/chat content while it is generated */
+  onContentDelta?: (delta: string) => void;
+
+  /**
+   * Called with each new piece of the model's reasoning
+   * Without onContentDelta, the whole reasoning arrives in one piece at the end.
+   */
+  onThinkingDelta?: (delta: string) => void;
+
+  /** Called with the token usage of every OpenCode prompt, including fallbacks */
+  onUsage?: (usage: TokenUsage) => void;
+
+  /**
+   * Cancels the request: the running prompt is aborted, no fallbacks run
+   * and RequestCancelledError is thrown
+   */
+  signal?: AbortSignal;
+}
+
+export interface GenerateCompletionOptions {
+  /** Model to use (defaults to the configured MODEL_PROVIDER/MODEL_ID) */
+  model?: ModelRef;
+
+  /** Base64-encoded images to attach to the prompt */
+  images?: string[];
+
+  /** Structured output format - "json" or a JSON Schema */
+  format?: OllamaFormat;
+
+  /** Called with each new piece of completion text while it is generated */
+  onTextDelta?: (delta: string) => void;
+
+  /** Called with each new piece of the model's reasoning (see GenerateResponseOptions) */
+  onThinkingDelta?: (delta: string) => void;
+
+  /** Called with the token usage of every OpenCode prompt, including format corrections */
+  onUsage?: (usage: TokenUsage) => void;
+
+  /** Cancels the request (see GenerateResponseOptions) */
+  signal?: AbortSignal;
 }
 
 export class OpencodeService {
   private client: any;
+  private nativeToolServer: Promise<void> | null = null;
+  private sessionEvents = new SessionEventStream((options) => this.client.event.subscribe(options));
+  private conversations = new ConversationSessionStore(
+    config.conversationSessionTtl,
+    (sessionId) => void this.deleteSession(sessionId),
+  );
 
   async connect(): Promise<void> {
     if (this.client) {
@@ -33,10 +158,44 @@ export class OpencodeService {
 
   async close(): Promise<void> {
     if (this.client) {
+      this.conversations.clear();
+      this.sessionEvents.close();
       this.client = null;
     }
   }
 
+  /**
+   * List the providers configured in OpenCode, including their models
+   */
+  async listProviders(): Promise<Provider[]> {
+    if (!this.client) {
+      throw new Error("OpencodeService not connected. Call connect() first.");
+    }
+
+    const response = await this.client.config.providers();
+    if (!response.data) {
+      throw new Error("Failed to list OpenCode providers");
+    }
+
+    return response.data.providers;
+  }
+
+  /**
+   * List all OpenCode sessions, including those of other clients
+   */
+  async listSessions(): Promise<Session[]> {
+    if (!this.client) {
+      throw new Error("OpencodeService not connected. Call connect() first.");
+    }
+
+    const response = await this.client.session.list();
+    if (!response.data) {
+      throw new Error("Failed to list OpenCode sessions");
+    }
+
+    return response.data;
+  }
+
   /**
    * Send a prompt to OpenCode and wait for response
    * Uses session-based API pattern:
@@ -45,6 +204,15 @@ export class OpencodeService {
    * 3. Poll for response
    * 4. Delete session (cleanup)
    * 
+   * With `sessionId`, the prompt continues an existing session instead,
+   * which the caller deletes.
+   * 
+   * Reasoning is returned separately from the content. onProgress and
+   * onThinkingProgress receive the full text generated so far.
+   * 
+   * When `signal` aborts, the prompt is aborted in OpenCode and
+   * RequestCancelledError is thrown.
+   * 
    * @private Internal method - use generateResponse() for external calls
    */
   private async sendPrompt(
@@ -52,8 +220,15 @@ export class OpencodeService {
     userMessage: string,
     options: {
       sessionTitle?: string;
+      sessionId?: string;
+      model?: ModelRef;
       maxWaitMs?: number;
       pollIntervalMs?: number;
+      images?: string[];
+      onProgress?: (text: string) => void;
+      onThinkingProgress?: ((thinking: string) => void) | undefined;
+      onUsage?: ((usage: TokenUsage) => void) | undefined;
+      signal?: AbortSignal | undefined;
     } = {},
   ): Promise<OpencodeResponse> {
     if (!this.client) {
@@ -62,21 +237,47 @@ export class OpencodeService {
 
     const {
       sessionTitle = "ollama-opencode-session",
+      model = getDefaultModel(),
       maxWaitMs = 30000,
       pollIntervalMs = 300,
+      images = [],
+      onProgress,
+      onThinkingProgress,
+      onUsage,
+      signal,
     } = options;
 
-    // Create session
-    const session = await this.client.session.create({
-      body: { title: sessionTitle },
-    });
-    const sessionId = session.data?.id;
+    throwIfCancelled(signal);
+    const requestStart = Date.now();
+    const ownsSession = !options.sessionId;
+    const sessionId = options.sessionId ?? (await this.createSession(sessionTitle));
+    const stopOnAbort = this.abortSessionOnCancel(sessionId, signal);
+
+    let lastReported = "";
+    let lastThinking = "";
+    const reportProgress = ({ content, thinking }: AssistantOutput) => {
+      if (onThinkingProgress && thinking !== lastThinking) {
+        lastThinking = thinking;
+        onThinkingProgress(thinking);
+      }
+      if (onProgress && content && content !== lastReported) {
+        lastReported = content;
+        onProgress(content);
+      }
+    };
 
-    if (!sessionId) {
-      throw new Error("Failed to create OpenCode session");
-    }
+    // The reply is followed on the event stream; polling is the fallback
+    const watch = (await this.connectSessionEvents())
+      ? this.sessionEvents.watchReply(sessionId, (parts) =>
+          reportProgress(readAssistantOutput(parts)),
+        )
+      : null;
 
     try {
+      throwIfCancelled(signal);
+
+      // Replies to earlier prompts of a continued session are not this reply
+      const earlierReplies = ownsSession ? 0 : await this.countAssistantMessages(sessionId);
       const startTime = Date.now();
 
       // Send prompt with timeout
@@ -84,30 +285,70 @@ export class OpencodeService {
         path: { id: sessionId },
         body: {
           model: {
-            providerID: config.modelProvider,
-            modelID: config.modelId,
+            providerID: model.providerID,
+            modelID: model.modelID,
           },
-          system: systemPrompt,
-          parts: [{ type: "text", text: userMessage }],
+          ...(systemPrompt && { system: systemPrompt }),
+          parts: [
+            { type: "text", text: userMessage },
+            ...images.map(toImageFilePart),
+          ],
         },
       });
 
-      // Add timeout to prompt call itself (40 seconds for complex prompts with many tools)
-      const promptTimeoutPromise = new Promise((_, reject) =>
-        setTimeout(
-          () => reject(new Error("session.prompt() timeout after 40s")),
-          40000,
-        ),
-      );
+      // session.prompt() resolves only once the assistant has finished.
+      // When progress is requested, poll while it is still running instead.
+      let promptDone = false;
+      const trackedPrompt = promptPromise.finally(() => {
+        promptDone = true;
+      });
+      trackedPrompt.catch(() => {}); // Re-awaited below
 
-      await Promise.race([promptPromise, promptTimeoutPromise]);
+      let assistantContent: string | null = null;
+      let assistantThinking = "";
+      let assistantMessage: any = null;
+
+      const reply = watch
+        ? await raceCancellation(waitForReply(watch, trackedPrompt, maxWaitMs), signal)
+        : null;
+      if (reply) {
+        const { content, thinking } = readAssistantOutput(reply.parts);
+        if (!content) {
+          throw new Error("OpenCode returned an empty response");
+        }
+        reportProgress({ content, thinking });
+
+        const textPart = reply.parts.find((p: any) => p.type === "text");
+        assistantContent = content;
+        assistantThinking = thinking;
+        assistantMessage = { info: reply.info, textTime: textPart?.time };
+      } else if (watch) {
+        console.warn("[FALLBACK] OpenCode event stream unavailable, polling for the response");
+      }
+
+      // With progress, the running prompt is polled below instead
+      if (!assistantContent && !onProgress) {
+        // Add timeout to prompt call itself (40 seconds for complex prompts with many tools)
+        const promptTimeoutPromise = new Promise((_, reject) =>
+          setTimeout(
+            () => reject(new Error("session.prompt() timeout after 40s")),
+            40000,
+          ),
+        );
+
+        await raceCancellation(Promise.race([trackedPrompt, promptTimeoutPromise]), signal);
+      }
 
       // Poll for assistant response
-      let assistantContent: string | null = null;
-      let pollCount = 0;
+      while (!assistantContent && Date.now() - startTime < maxWaitMs) {
+        throwIfCancelled(signal);
+
+        // Snapshot before fetching so the final fetch happens after completion
+        const completed = promptDone;
+        if (completed) {
+          await trackedPrompt; // Surface prompt errors
+        }
 
-      while (Date.now() - startTime < maxWaitMs) {
-        pollCount++;
         const messages = await this.client.session.messages({
           path: { id: sessionId },
         });
@@ -116,14 +357,20 @@ export class OpencodeService {
           messages.data?.filter((m: any) => m.info?.role === "assistant") || [];
 
         // Get the last assistant message
-        const lastAssistant = assistantMsgs[assistantMsgs.length - 1];
+        const lastAssistant = assistantMsgs.length > earlierReplies
+          ? assistantMsgs[assistantMsgs.length - 1]
+          : undefined;
 
         if (lastAssistant?.parts?.length > 0) {
-          const textPart = lastAssistant.parts.find(
-            (p: any) => p.type === "text",
-          );
-          if (textPart?.text) {
-            assistantContent = textPart.text;
+          const output = readAssistantOutput(lastAssistant.parts);
+          reportProgress(output);
+          if (output.content && (!onProgress || completed)) {
+            const textPart = lastAssistant.parts.find(
+              (p: any) => p.type === "text",
+            );
+            assistantContent = output.content;
+            assistantThinking = output.thinking;
+            assistantMessage = { info: lastAssistant.info, textTime: textPart?.time };
             break;
           }
         }
@@ -137,26 +384,348 @@ export class OpencodeService {
         throw new Error(`OpenCode response timeout after ${maxWaitMs}ms`);
       }
 
+      const usage = getPromptUsage({
+        message: assistantMessage?.info,
+        textTime: assistantMessage?.textTime,
+        promptText: `${systemPrompt}\n${userMessage}`,
+        completionText: assistantContent,
+        requestStart,
+        promptSentAt: startTime,
+        completedAt: startTime + elapsed,
+      });
+      onUsage?.(usage);
+
       return {
         content: assistantContent,
+        thinking: assistantThinking,
         elapsed,
+        usage,
       };
     } finally {
-      // Always cleanup session (with timeout to prevent hanging)
-      try {
-        const deletePromise = this.client.session.delete({
-          path: { id: sessionId },
-        });
-        const timeoutPromise = new Promise((_, reject) =>
-          setTimeout(() => reject(new Error("Session delete timeout")), 5000),
-        );
-        await Promise.race([deletePromise, timeoutPromise]);
-      } catch (err) {
+      watch?.stop();
+      stopOnAbort();
+
+      // Always cleanup session
+      if (ownsSession) {
+        await this.deleteSession(sessionId);
+      }
+    }
+  }
+
+  /**
+   * Connect to the OpenCode event stream
+   * Only the first call waits for the connection; while the stream is down,
+   * prompts are polled.
+   */
+  private connectSessionEvents(): Promise<boolean> {
+    return this.sessionEvents.connect(EVENT_CONNECT_TIMEOUT_MS);
+  }
+
+  private async countAssistantMessages(sessionId: string): Promise<number> {
+    const messages = await this.client.session.messages({
+      path: { id: sessionId },
+    });
+    return messages.data?.filter((m: any) => m.info?.role === "assistant").length || 0;
+  }
+
+  /**
+   * Create a session, tagged as this adapter instance's (see tagSessionTitle())
+   */
+  private async createSession(title: string): Promise<string> {
+    const session = await this.client.session.create({
+      body: { title: tagSessionTitle(title, config.sessionInstanceId) },
+    });
+    const sessionId = session.data?.id;
+
+    if (!sessionId) {
+      throw new Error("Failed to create OpenCode session");
+    }
+    return sessionId;
+  }
+
+  /**
+   * Delete a session (with timeout to prevent hanging)
+   * Failures are logged, never thrown.
+   *
+   * @returns Whether the session was deleted
+   */
+  async deleteSession(sessionId: string): Promise<boolean> {
+    try {
+      const deletePromise = this.client.session.delete({
+        path: { id: sessionId },
+      });
+      const timeoutPromise = new Promise((_, reject) =>
+        setTimeout(() => reject(new Error("Session delete timeout")), 5000),
+      );
+      await Promise.race([deletePromise, timeoutPromise]);
+      return true;
+    } catch (err) {
+      console.error(
+        `Failed to delete OpenCode session ${sessionId}:`,
+        err instanceof Error ? err.message : err,
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Abort the running prompt of a session when a request is cancelled
+   *
+   * @returns Stops listening for the cancellation
+   */
+  private abortSessionOnCancel(sessionId: string, signal: AbortSignal | undefined): () => void {
+    if (!signal) {
+      return () => {};
+    }
+
+    const onAbort = () => {
+      console.warn(`[CANCELLED] Aborting OpenCode session ${sessionId}`);
+      this.client.session.abort({ path: { id: sessionId } }).catch((err: unknown) => {
         console.error(
-          `Failed to delete OpenCode session ${sessionId}:`,
+          `Failed to abort OpenCode session ${sessionId}:`,
           err instanceof Error ? err.message : err,
         );
+      });
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+    return () => signal.removeEventListener("abort", onAbort);
+  }
+
+  /**
+   * Register the adapter's MCP endpoint with OpenCode (once)
+   * A failed registration is retried by the next native request.
+   */
+  private ensureNativeToolServer(): Promise<void> {
+    if (!this.nativeToolServer) {
+      this.nativeToolServer = (async () => {
+        const response = await this.client.mcp.add({
+          body: {
+            name: NATIVE_TOOL_SERVER_NAME,
+            config: { type: "remote", url: config.nativeToolMcpUrl, oauth: false },
+          },
+        });
+        const status = response.data?.[NATIVE_TOOL_SERVER_NAME];
+        if (status?.status !== "connected") {
+          throw new Error(
+            `OpenCode could not connect to ${config.nativeToolMcpUrl}: ${status?.error || status?.status || "no status"}`,
+          );
+        }
+      })();
+      this.nativeToolServer.catch(() => {
+        this.nativeToolServer = null;
+      });
+    }
+    return this.nativeToolServer;
+  }
+
+  /**
+   * Generate a unified response with native tool calling
+   *
+   * The client's tools are the only tools enabled in the session. As soon
+   * as the model has called tools, the calls are captured from the tool
+   * parts and the session is aborted, so OpenCode never runs them.
+   * Without tool calls, the model's text is the answer.
+   */
+  private async generateNativeToolResponse(
+    systemContext: string,
+    conversationHistory: OllamaMessage[],
+    availableTools: OllamaTool[],
+    options: {
+      model: ModelRef;
+      requireToolCall: boolean;
+      images: string[];
+      onContentDelta?: ((delta: string) => void) | undefined;
+      onThinkingDelta?: ((delta: string) => void) | undefined;
+      onUsage?: ((usage: TokenUsage) => void) | undefined;
+      signal?: AbortSignal | undefined;
+    },
+  ): Promise<UnifiedResponse> {
+    const { model, requireToolCall, images, onContentDelta, onThinkingDelta, onUsage, signal } =
+      options;
+    const maxWaitMs = 50000;
+    const pollIntervalMs = 300;
+
+    await this.ensureNativeToolServer();
+
+    const registry = getNativeToolRegistry();
+    const toolSet = registry.register(availableTools);
+    const requestStart = Date.now();
+    const sessionId = await this.createSession("native-tools");
+    const stopOnAbort = this.abortSessionOnCancel(sessionId, signal);
+
+    // The reply is followed on the event stream; polling is the fallback
+    let onReplyUpdate = (_parts: any[], _info: any) => {};
+    const watch = (await this.connectSessionEvents())
+      ? this.sessionEvents.watchReply(sessionId, (parts, info) => onReplyUpdate(parts, info))
+      : null;
+
+    try {
+      // Built-in tools and the tools of other requests are switched off
+      const builtinIds: string[] = (await this.client.tool.ids())?.data || [];
+      const tools: Record<string, boolean> = {};
+      for (const id of [...builtinIds, ...registry.getOtherToolIds(toolSet)]) {
+        tools[id] = false;
+      }
+      for (const id of toolSet.toolNames.keys()) {
+        tools[id] = true;
+      }
+
+      const toolResults = ConversationHelper.getLastToolResults(conversationHistory);
+      const history = ConversationHelper.formatConversationHistory(conversationHistory, {
+        includeToolResults: true,
+        includeToolCalls: true,
+        maxMessages: 10,
+      });
+
+      const system = `${systemContext}
+
+Use the provided tools when the request needs an action or live data; otherwise answer directly.
+Call each tool at most once per action. Match the user's language in responses.${requireToolCall ? "\nYou MUST call at least one tool." : ""}`.trim();
+      const prompt = `Conversation:
+${history}
+
+${toolResults.length > 0 ? "The tool results above belong to the last request. Use them to answer it." : "Respond to the last user message."}`;
+
+      const startTime = Date.now();
+      const promptPromise = this.client.session.prompt({
+        path: { id: sessionId },
+        body: {
+          model: { providerID: model.providerID, modelID: model.modelID },
+          system,
+          tools,
+          parts: [{ type: "text", text: prompt }, ...images.map(toImageFilePart)],
+        },
+      });
+
+      let promptDone = false;
+      let promptError: unknown = null;
+      promptPromise
+        .catch((err: unknown) => {
+          promptError = err;
+        })
+        .finally(() => {
+          promptDone = true;
+        });
+
+      const reportContent = onContentDelta && toDeltaCallback(onContentDelta);
+      const reportThinking = onThinkingDelta && toDeltaCallback(onThinkingDelta);
+
+      /**
+       * Response from the latest assistant message, or null while the model is still at it
+       *
+       * @param completed - The prompt has finished
+       * @param quiet - Nothing changed since the last look; parallel tool calls
+       *   arrive one by one, so calls are only taken once no new one shows up
+       */
+      const readResponse = (
+        message: any,
+        parts: any[],
+        completed: boolean,
+        quiet: boolean,
+      ): UnifiedResponse | null => {
+        const { content, thinking } = readAssistantOutput(parts);
+        reportThinking?.(thinking);
+
+        const calls = readNativeToolCalls(parts, toolSet);
+        if (calls && calls.length > 0) {
+          if (!quiet && !completed) {
+            return null;
+          }
+          onUsage?.(
+            getPromptUsage({
+              message,
+              promptText: `${system}\n${prompt}`,
+              completionText: JSON.stringify(calls),
+              requestStart,
+              promptSentAt: startTime,
+              completedAt: Date.now(),
+            }),
+          );
+          return calls.length === 1
+            ? { action: "tool_call", tool_name: calls[0]!.tool_name, arguments: calls[0]!.arguments }
+            : { action: "tool_calls", calls };
+        }
+
+        reportContent?.(content);
+        if (completed && content) {
+          onUsage?.(
+            getPromptUsage({
+              message,
+              textTime: parts.find((p: any) => p.type === "text")?.time,
+              promptText: `${system}\n${prompt}`,
+              completionText: content,
+              requestStart,
+              promptSentAt: startTime,
+              completedAt: Date.now(),
+            }),
+          );
+          return { action: toolResults.length > 0 ? "answer" : "chat", content };
+        }
+        if (completed) {
+          throw new Error("Model returned neither tool calls nor text");
+        }
+        return null;
+      };
+
+      let response = watch
+        ? await raceCancellation(
+            waitForNativeResponse(
+              watch,
+              (onUpdate) => {
+                onReplyUpdate = onUpdate;
+              },
+              promptPromise,
+              readResponse,
+              pollIntervalMs,
+              maxWaitMs,
+            ),
+            signal,
+          )
+        : null;
+      if (!response && watch) {
+        console.warn("[FALLBACK] OpenCode event stream unavailable, polling for the response");
+      }
+
+      let lastCallCount = -1;
+      while (!response && Date.now() - startTime < maxWaitMs) {
+        throwIfCancelled(signal);
+
+        const completed = promptDone;
+        if (completed && promptError) {
+          throw promptError;
+        }
+
+        const messages = await this.client.session.messages({
+          path: { id: sessionId },
+        });
+        const assistantMsgs =
+          messages.data?.filter((m: any) => m.info?.role === "assistant") || [];
+        const lastAssistant = assistantMsgs[assistantMsgs.length - 1];
+        const parts: any[] = lastAssistant?.parts || [];
+
+        const callCount = readNativeToolCalls(parts, toolSet)?.length ?? -1;
+        response = readResponse(lastAssistant?.info, parts, completed, callCount === lastCallCount);
+        lastCallCount = callCount;
+
+        if (!response) {
+          await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+        }
+      }
+
+      if (!response) {
+        throw new Error(`OpenCode response timeout after ${maxWaitMs}ms`);
+      }
+
+      // Stop the model before OpenCode runs the calls
+      if (response.action === "tool_call" || response.action === "tool_calls") {
+        await this.client.session.abort({ path: { id: sessionId } }).catch(() => {});
       }
+      return response;
+    } finally {
+      watch?.stop();
+      stopOnAbort();
+      toolSet.release();
+      await this.deleteSession(sessionId);
     }
   }
 
@@ -167,13 +736,50 @@ export class OpencodeService {
    * @param systemContext - System context (device list, available data, etc.)
    * @param conversationHistory - Full conversation history
    * @param availableTools - Tools provided by client
-   * @returns UnifiedResponse (tool_call, answer, or chat)
+   * @param options - Model selection, streaming and usage callbacks
+   * @returns UnifiedResponse (tool_call, tool_calls, answer, or chat)
    */
   async generateResponse(
     systemContext: string,
     conversationHistory: OllamaMessage[],
     availableTools: OllamaTool[],
+    options: GenerateResponseOptions = {},
   ): Promise<UnifiedResponse> {
+    const response = await this.decideResponse(
+      systemContext,
+      conversationHistory,
+      availableTools,
+      options,
+    );
+
+    return this.repairToolCalls(response, systemContext, conversationHistory, availableTools, {
+      model: options.model || getDefaultModel(),
+      onUsage: options.onUsage,
+      signal: options.signal,
+    });
+  }
+
+  /**
+   * Ask the model how to respond, with native tools or the JSON action prompt
+   * Tool arguments are not validated yet (see repairToolCalls()).
+   */
+  private async decideResponse(
+    systemContext: string,
+    conversationHistory: OllamaMessage[],
+    availableTools: OllamaTool[],
+    options: GenerateResponseOptions,
+  ): Promise<UnifiedResponse> {
+    const {
+      model = getDefaultModel(),
+      format,
+      requireToolCall,
+      toolStrategy = "json",
+      onContentDelta,
+      onThinkingDelta,
+      onUsage,
+      signal,
+    } = options;
+
     // Get recent conversation context (limit to last 10 messages for performance)
     const recentContext = ConversationHelper.buildToolSelectionContext(
       conversationHistory,
@@ -187,28 +793,47 @@ export class OpencodeService {
     // Format tools into LLM-friendly description
     const toolsDescription = formatToolsForLLM(availableTools);
 
-    // Check if last message is a tool result
-    const lastMessage = conversationHistory[conversationHistory.length - 1];
-    const hasToolResult = lastMessage?.role === "tool";
+    // Check if the conversation ends with tool results (one per tool call)
+    const toolResults = ConversationHelper.getLastToolResults(conversationHistory);
+    const hasToolResult = toolResults.length > 0;
 
     // Extract tool result content if available
-    let toolResultText = "";
-    if (hasToolResult && lastMessage) {
-      const content =
-        typeof lastMessage.content === "string"
-          ? lastMessage.content
-          : JSON.stringify(lastMessage.content);
-
-      // Parse tool result if it's JSON
+    const toolResultText = formatToolResults(toolResults);
+
+    // Camera snapshots etc. from the user message or the tool results
+    const images = ConversationHelper.getCurrentImages(conversationHistory);
+
+    if (toolStrategy === "native" && availableTools.length > 0 && !format) {
+      let streamed = false;
       try {
-        const toolResultObj = JSON.parse(content);
-        if (toolResultObj.result) {
-          toolResultText = `\nTool Result:\n${toolResultObj.result}`;
-        } else {
-          toolResultText = `\nTool Result:\n${content}`;
+        return await this.generateNativeToolResponse(
+          systemContext,
+          conversationHistory,
+          availableTools,
+          {
+            model,
+            requireToolCall: Boolean(requireToolCall),
+            images,
+            onContentDelta: onContentDelta && ((delta: string) => {
+              streamed = true;
+              onContentDelta(delta);
+            }),
+            onThinkingDelta,
+            onUsage,
+            signal,
+          },
+        );
+      } catch (err) {
+        throwIfCancelled(signal);
+
+        // Content that was already streamed cannot be replaced by a fallback
+        if (streamed) {
+          throw err;
         }
-      } catch {
-        toolResultText = `\nTool Result:\n${content}`;
+        console.warn(
+          "[FALLBACK] Native tool calling failed, using JSON prompt:",
+          err instanceof Error ? err.message : err,
+        );
       }
     }
 
@@ -237,10 +862,14 @@ B) Provide an answer:
 C) Chat conversationally:
 {"action": "chat", "content": "your response"}
 
+D) Call several tools at once:
+{"action": "tool_calls", "calls": [{"tool_name": "ExactToolName", "arguments": {...}}, {"tool_name": "ExactToolName", "arguments": {...}}]}
+
 === DECISION LOGIC ===
 
 1. If the request requires executing a tool:
    → Use Format A with the appropriate tool and arguments
+   → If it asks for several actions (e.g., "turn off the light and lock the door"), use Format D with one call per action
 
 2. If a tool result is available and answers the request:
    → Use Format B to provide answer based on the tool result
@@ -248,7 +877,11 @@ C) Chat conversationally:
 3. If no tools are needed or available:
    → Use Format C for conversational response
 
-${hasToolResult ? "\nNOTE: A tool result is available above. Use it to answer if it's relevant to the user's request.\n" : ""}
+${hasToolResult ? "\nNOTE: A tool result is available above. Use it to answer if it's relevant to the user's request.\n" : ""}${requireToolCall ? "\nREQUIRED: You MUST call a tool (Format A or D). Formats B and C are not allowed.\n" : ""}${format ? `
+=== RESPONSE CONTENT FORMAT ===
+For Format B and C, "content" must be the JSON value itself (not a string).
+${describeOutputFormat(format)}
+` : ""}
 === CONSTRAINTS ===
 - Output EXACTLY ONE JSON object
 - Start with { and end with }
@@ -258,74 +891,131 @@ ${hasToolResult ? "\nNOTE: A tool result is available above. Use it to answer if
 
 Output your JSON:`.trim();
 
+    let streamed = false;
     try {
       const fullPrompt = `${UNIFIED_RESPONSE_PROMPT}
 
 Now, analyze the conversation and respond with the appropriate JSON:
 ${hasToolResult ? "\nNote: A tool result is available in the conversation history. Check if it answers the user's question." : ""}`;
 
-      const response = await this.sendPrompt(
-        "You are an intelligent assistant. Respond with valid JSON only.",
-        fullPrompt,
-        {
-          sessionTitle: "unified-response",
-          maxWaitMs: 50000, // Increased from 30s to 50s for complex prompts
-        },
-      );
+      // Later turns of a conversation continue its session and only send
+      // what is new; corrections are asked in the same session too
+      const prefix: ConversationPrefix = {
+        model: `${model.providerID}/${model.modelID}`,
+        systemContext,
+        tools: availableTools,
+      };
+      const reuseSessions = config.conversationSessionTtl > 0 && !format;
+      const { previous, added } = splitConversation(conversationHistory);
+      const reusedSessionId = reuseSessions && previous.length > 0
+        ? this.conversations.take(fingerprintConversation(prefix, previous))
+        : undefined;
+
+      const sessionId = reusedSessionId ?? (await this.createSession("unified-response"));
+      let keepSession = false;
+      try {
+        const prompt = (text: string, promptImages: string[]) => {
+          const extractor = new StreamingContentExtractor();
+          return this.sendPrompt(
+            "You are an intelligent assistant. Respond with valid JSON only.",
+            text,
+            {
+              sessionId,
+              model,
+              maxWaitMs: 50000, // Increased from 30s to 50s for complex prompts
+              images: promptImages,
+              onUsage,
+              signal,
+              onThinkingProgress: onThinkingDelta && toDeltaCallback(onThinkingDelta),
+              ...(onContentDelta && !format && {
+                onProgress: (text: string) => {
+                  const delta = extractor.push(text);
+                  if (delta) {
+                    streamed = true;
+                    onContentDelta(delta);
+                  }
+                },
+              }),
+            },
+          );
+        };
 
-      // Clean markdown code blocks
-      let cleaned = response.content
-        .trim()
-        .replace(/```json\n?/g, "")
-        .replace(/```\n?/g, "")
-        .trim();
-
-      // Detect and extract first valid JSON object (Ref: https://community.openai.com/t/2-json-objects-returned-when-using-function-calling-and-json-mode/574348)
-      const jsonMatch = cleaned.match(/\{[^{}]*(?:\{[^{}]*\}[^{}]*)*\}/);
-      if (!jsonMatch) {
-        throw new Error("No valid JSON object found in LLM response");
-      }
+        const newUserMessages = added
+          .filter((msg) => msg.role === "user")
+          .map((msg) => `User: ${msg.content}${ConversationHelper.formatImageNote(msg)}`)
+          .join("\n");
+        const followUpPrompt = `The conversation continues.
+${newUserMessages}${toolResultText}
 
-      // Warn if multiple JSON objects detected
-      const allMatches = cleaned.match(/\{[^{}]*(?:\{[^{}]*\}[^{}]*)*\}/g);
-      if (allMatches && allMatches.length > 1) {
-        console.warn(
-          `[WARN] LLM returned ${allMatches.length} JSON objects, using first one`,
-        );
-        console.warn("[WARN] Full response:", cleaned);
-      }
+=== USER REQUEST ===
+"${userMessage}"
+${hasToolResult ? "\nNOTE: A tool result is available above. Use it to answer if it's relevant to the user's request.\n" : ""}${requireToolCall ? "\nREQUIRED: You MUST call a tool (Format A or D). Formats B and C are not allowed.\n" : ""}
+Decide how to respond with the same tools, decision logic and constraints as before.
+Respond with EXACTLY ONE JSON object (Format A, B, C or D) and nothing else.`;
+
+        const response = await prompt(reusedSessionId ? followUpPrompt : fullPrompt, images);
+
+        if (format) {
+          return await this.resolveFormattedResponse(response.content, format, {
+            model,
+            onUsage,
+            signal,
+            contextPrompt: `${systemContext}
+${recentContext}${toolResultText}
 
-      // Use only the first JSON object
-      cleaned = jsonMatch[0];
+User request: "${userMessage}"`.trim(),
+          });
+        }
 
-      // Parse and validate response
-      const parsed = JSON.parse(cleaned);
+        const action = await this.resolveResponseAction(
+          response.content,
+          async (correction) => (await prompt(correction, [])).content,
+          () => !streamed, // Streamed content cannot be taken back
+        );
 
-      // Validate response action type
-      if (
-        !parsed.action ||
-        !["tool_call", "answer", "chat"].includes(parsed.action)
-      ) {
-        throw new Error(`Invalid response action: ${parsed.action}`);
+        if (reuseSessions) {
+          const seen = [...conversationHistory, toAssistantMessage(action)];
+          this.conversations.put(fingerprintConversation(prefix, seen), sessionId);
+          keepSession = true;
+        }
+        return action;
+      } finally {
+        if (!keepSession) {
+          await this.deleteSession(sessionId);
+        }
       }
-
-      return parsed as UnifiedResponse;
     } catch (err) {
+      // A cancelled request gets no fallback answer
+      throwIfCancelled(signal);
+
       const error = err instanceof Error ? err : new Error(String(err));
       console.error("[ERROR] generateResponse failed:", error.message);
 
+      // Fallback answers are prose and cannot satisfy a requested format,
+      // nor replace content that was already streamed
+      if (format || streamed) {
+        throw error;
+      }
+
       // Fallback Strategy 1: Try to generate answer from tool result if available
       if (hasToolResult) {
         try {
           const answer = await this.generateAnswerFromToolResult(
             conversationHistory,
             systemContext,
+            model,
+            onUsage,
+            images,
+            signal,
           );
           return {
             action: "answer",
             content: answer,
           };
         } catch (fallbackErr) {
+          if (fallbackErr instanceof RequestCancelledError) {
+            throw fallbackErr;
+          }
           console.error(
             "[FALLBACK] generateAnswerFromToolResult failed:",
             fallbackErr instanceof Error ? fallbackErr.message : fallbackErr,
@@ -334,7 +1024,13 @@ ${hasToolResult ? "\nNote: A tool result is available in the conversation histor
       }
 
       // Fallback Strategy 2: Use LLM to format error message
-      const errorMessage = await this.formatErrorWithLLM(error, userMessage);
+      const errorMessage = await this.formatErrorWithLLM(
+        error,
+        userMessage,
+        model,
+        onUsage,
+        signal,
+      );
 
       return {
         action: "chat",
@@ -343,26 +1039,331 @@ ${hasToolResult ? "\nNote: A tool result is available in the conversation histor
     }
   }
 
+  /**
+   * Parse the response action in model output
+   * Output that cannot be used is sent back through `retry` with the
+   * error, up to RESPONSE_ACTION_RETRIES times.
+   *
+   * @param canRetry - Whether a correction may still replace the output
+   * @throws Error once all retries are used up
+   */
+  private async resolveResponseAction(
+    output: string,
+    retry: (correctionPrompt: string) => Promise<string>,
+    canRetry: () => boolean,
+  ): Promise<UnifiedResponse> {
+    const maxAttempts = config.responseActionRetries + 1;
+    let current = output;
+
+    for (let attempt = 1; ; attempt++) {
+      const result = parseResponseAction(current);
+      if (result.ok) {
+        if (result.candidates > 1) {
+          console.warn(
+            `[WARN] LLM returned ${result.candidates} JSON objects, using the first action`,
+          );
+          console.warn("[WARN] Full response:", current);
+        }
+        if (attempt > 1) {
+          console.warn(`[RETRY] Response action corrected on attempt ${attempt}/${maxAttempts}`);
+        }
+        return result.response;
+      }
+
+      console.warn(
+        `[WARN] Unusable response action (attempt ${attempt}/${maxAttempts}):`,
+        result.error,
+      );
+
+      if (attempt >= maxAttempts || !canRetry()) {
+        throw new Error(result.error);
+      }
+
+      current = await retry(buildActionCorrectionPrompt(current, result.error));
+    }
+  }
+
+  /**
+   * Validate the arguments of tool calls against the tools' parameter schemas
+   *
+   * Safe cases are coerced. A call that is still invalid is sent back to
+   * the model with the validation errors, up to TOOL_ARGUMENT_RETRIES times;
+   * if it cannot be fixed, it is passed on as it is.
+   */
+  private async repairToolCalls(
+    response: UnifiedResponse,
+    systemContext: string,
+    conversationHistory: OllamaMessage[],
+    availableTools: OllamaTool[],
+    options: {
+      model: ModelRef;
+      onUsage: ((usage: TokenUsage) => void) | undefined;
+      signal: AbortSignal | undefined;
+    },
+  ): Promise<UnifiedResponse> {
+    if (response.action !== "tool_call" && response.action !== "tool_calls") {
+      return response;
+    }
+
+    const calls: ToolInvocation[] = response.action === "tool_call"
+      ? [{ tool_name: response.tool_name, arguments: response.arguments }]
+      : response.calls;
+
+    const contextPrompt = `${systemContext}
+${ConversationHelper.buildToolSelectionContext(conversationHistory, 10)}
+
+User request: "${ConversationHelper.getLastUserMessage(conversationHistory)}"`.trim();
+
+    const repaired: ToolInvocation[] = [];
+    for (const call of calls) {
+      repaired.push(await this.repairToolCall(call, availableTools, contextPrompt, options));
+    }
+
+    if (response.action === "tool_call") {
+      const [call] = repaired;
+      return { action: "tool_call", tool_name: call!.tool_name, arguments: call!.arguments };
+    }
+    return { action: "tool_calls", calls: repaired };
+  }
+
+  private async repairToolCall(
+    call: ToolInvocation,
+    availableTools: OllamaTool[],
+    contextPrompt: string,
+    options: {
+      model: ModelRef;
+      onUsage: ((usage: TokenUsage) => void) | undefined;
+      signal: AbortSignal | undefined;
+    },
+  ): Promise<ToolInvocation> {
+    const maxAttempts = config.toolArgumentRetries + 1;
+    const toolDescription = formatToolsForLLM(
+      availableTools.filter((tool) => tool.function.name === call.tool_name),
+    );
+    let check = checkToolCall(call, availableTools);
+
+    for (let attempt = 1; check.errors.length > 0; attempt++) {
+      console.warn(
+        `[WARN] Invalid arguments for ${call.tool_name} (attempt ${attempt}/${maxAttempts}):`,
+        check.errors.join("; "),
+      );
+      if (attempt >= maxAttempts) {
+        break;
+      }
+
+      try {
+        const corrected = await this.sendPrompt(
+          "You are an intelligent assistant. Respond with valid JSON only.",
+          `${contextPrompt}
+
+${buildToolCallCorrectionPrompt(check.call, check.errors, toolDescription)}`,
+          {
+            sessionTitle: "tool-argument-correction",
+            model: options.model,
+            maxWaitMs: 30000,
+            onUsage: options.onUsage,
+            signal: options.signal,
+          },
+        );
+
+        // Accept the full action as asked, or just the arguments object
+        const parsed = parseJsonOutput(corrected.content);
+        const action: any = parsed.ok ? parsed.value : null;
+        const args = action?.action === "tool_call" ? action.arguments : action;
+        if (!args || typeof args !== "object" || Array.isArray(args)) {
+          throw new Error("correction contains no arguments object");
+        }
+
+        check = checkToolCall({ tool_name: call.tool_name, arguments: args }, availableTools);
+      } catch (err) {
+        throwIfCancelled(options.signal);
+        console.warn(
+          `[WARN] Tool argument correction for ${call.tool_name} failed:`,
+          err instanceof Error ? err.message : err,
+        );
+        break;
+      }
+    }
+
+    return check.call;
+  }
+
+  /**
+   * Generate a plain-text completion for a prompt
+   * Used by /api/generate - no tool calling and no JSON action protocol
+   *
+   * @param systemPrompt - System prompt (may be empty, e.g. in raw mode)
+   * @param prompt - Prompt text
+   * @param options - Model, images, output format and streaming callback
+   * @returns The completion text
+   */
+  async generateCompletion(
+    systemPrompt: string,
+    prompt: string,
+    options: GenerateCompletionOptions = {},
+  ): Promise<string> {
+    const {
+      model = getDefaultModel(),
+      images,
+      format,
+      onTextDelta,
+      onThinkingDelta,
+      onUsage,
+      signal,
+    } = options;
+
+    const system = format
+      ? `${systemPrompt}\n\n${describeOutputFormat(format)}`.trim()
+      : systemPrompt;
+
+    // Formatted output is validated before it is returned, so it is not streamed
+    const response = await this.sendPrompt(system, prompt, {
+      sessionTitle: "generate-completion",
+      model,
+      maxWaitMs: 50000,
+      onUsage,
+      signal,
+      onThinkingProgress: onThinkingDelta && toDeltaCallback(onThinkingDelta),
+      ...(images && { images }),
+      ...(onTextDelta && !format && { onProgress: toDeltaCallback(onTextDelta) }),
+    });
+
+    if (format) {
+      return this.enforceOutputFormat(response.content, format, async (correction) => {
+        const corrected = await this.sendPrompt(system, `${prompt}\n\n${correction}`, {
+          sessionTitle: "generate-completion",
+          model,
+          maxWaitMs: 50000,
+          onUsage,
+          signal,
+          ...(images && { images }),
+        });
+        return corrected.content;
+      });
+    }
+
+    return response.content;
+  }
+
+  /**
+   * Turn a formatted unified response into a validated answer
+   * Models often drop the action wrapper and answer with the formatted JSON
+   * directly, so anything that is not an action object is used as content.
+   */
+  private async resolveFormattedResponse(
+    output: string,
+    format: OllamaFormat,
+    options: {
+      model: ModelRef;
+      contextPrompt: string;
+      onUsage: ((usage: TokenUsage) => void) | undefined;
+      signal: AbortSignal | undefined;
+    },
+  ): Promise<UnifiedResponse> {
+    const parsed = parseJsonOutput(output);
+    const action: any = parsed.ok ? parsed.value : null;
+
+    if (action?.action === "tool_call" && typeof action.tool_name === "string") {
+      return {
+        action: "tool_call",
+        tool_name: action.tool_name,
+        arguments: action.arguments || {},
+      };
+    }
+    if (action?.action === "tool_calls") {
+      return normalizeToolCalls(action.calls);
+    }
+
+    const isAnswer =
+      (action?.action === "answer" || action?.action === "chat") && "content" in action;
+    const candidate = !isAnswer
+      ? output
+      : typeof action.content === "string"
+        ? action.content
+        : JSON.stringify(action.content);
+
+    const content = await this.enforceOutputFormat(candidate, format, async (correction) => {
+      const corrected = await this.sendPrompt(
+        describeOutputFormat(format),
+        `${options.contextPrompt}\n\n${correction}`,
+        {
+          sessionTitle: "format-correction",
+          model: options.model,
+          maxWaitMs: 50000,
+          onUsage: options.onUsage,
+          signal: options.signal,
+        },
+      );
+      return corrected.content;
+    });
+
+    return { action: isAnswer ? action.action : "answer", content };
+  }
+
+  /**
+   * Validate output against a structured output format
+   * Invalid output is sent back through `retry` with the validation errors,
+   * up to STRUCTURED_OUTPUT_RETRIES times.
+   *
+   * @returns Compact JSON text that satisfies the format
+   * @throws StructuredOutputError once all retries are used up
+   */
+  private async enforceOutputFormat(
+    output: string,
+    format: OllamaFormat,
+    retry: (correctionPrompt: string) => Promise<string>,
+  ): Promise<string> {
+    const maxAttempts = config.structuredOutputRetries + 1;
+    let current = output;
+
+    for (let attempt = 1; ; attempt++) {
+      const check = checkStructuredOutput(current, format);
+      if (check.ok) {
+        return check.json;
+      }
+
+      console.warn(
+        `[WARN] Structured output rejected (attempt ${attempt}/${maxAttempts}):`,
+        check.errors.join("; "),
+      );
+
+      if (attempt >= maxAttempts) {
+        throw new StructuredOutputError(check.errors, attempt);
+      }
+
+      current = await retry(buildCorrectionPrompt(current, check.errors));
+    }
+  }
+
   /**
    * Generate answer from tool result in conversation history
    * Used as fallback when unified response generation fails
+   *
+   * @throws RequestCancelledError if the signal aborts
    */
   private async generateAnswerFromToolResult(
     conversationHistory: OllamaMessage[],
     systemContext: string,
+    model: ModelRef,
+    onUsage?: (usage: TokenUsage) => void,
+    images: string[] = [],
+    signal?: AbortSignal,
   ): Promise<string> {
-    // Get the last tool result
-    const lastMessage = conversationHistory[conversationHistory.length - 1];
-    if (lastMessage?.role !== "tool") {
+    // Get the last tool results (several after a multi-call turn)
+    const toolResults = ConversationHelper.getLastToolResults(conversationHistory);
+    if (toolResults.length === 0) {
       throw new Error("No tool result available");
     }
 
     const userMessage =
       ConversationHelper.getLastUserMessage(conversationHistory);
-    const toolResult =
-      typeof lastMessage.content === "string"
-        ? lastMessage.content
-        : JSON.stringify(lastMessage.content);
+    const toolResult = toolResults
+      .map((message) =>
+        typeof message.content === "string"
+          ? message.content
+          : JSON.stringify(message.content),
+      )
+      .join("\n");
 
     const prompt = `${systemContext}
 
@@ -378,14 +1379,22 @@ Generate a natural language answer (1-2 sentences) that:
 
 Generate ONLY the answer, nothing else:`.trim();
 
+    throwIfCancelled(signal);
     try {
       const response = await this.sendPrompt(prompt, userMessage, {
         sessionTitle: "generate-answer",
+        model,
         maxWaitMs: 10000,
+        images,
+        onUsage,
+        signal,
       });
 
       return response.content.trim();
     } catch (err) {
+      if (err instanceof RequestCancelledError) {
+        throw err;
+      }
       console.error(
         "[ERROR] generateAnswerFromToolResult failed:",
         err instanceof Error ? err.message : err,
@@ -401,11 +1410,18 @@ Generate ONLY the answer, nothing else:`.trim();
    *
    * @param error - The original error that occurred
    * @param userMessage - The user's original message (for language detection)
+   * @param model - Model the original request was sent to
+   * @param onUsage - Receives the token usage of the formatting prompt
+   * @param signal - Aborts the formatting prompt
    * @returns Formatted error message in user's language
+   * @throws RequestCancelledError if the signal aborts
    */
   private async formatErrorWithLLM(
     error: Error,
     userMessage: string,
+    model: ModelRef,
+    onUsage?: (usage: TokenUsage) => void,
+    signal?: AbortSignal,
   ): Promise<string> {
     const prompt = `An error occurred while processing a user request.
 
@@ -420,17 +1436,24 @@ Generate a brief, friendly error message that:
 
 Output ONLY the error message, nothing else:`;
 
+    throwIfCancelled(signal);
     try {
       const response = await this.sendPrompt(
         "You are a helpful assistant explaining errors to users.",
         prompt,
         {
           sessionTitle: "error-format",
+          model,
           maxWaitMs: config.errorFormatTimeout,
+          onUsage,
+          signal,
         },
       );
       return response.content.trim();
     } catch (formatErr) {
+      if (formatErr instanceof RequestCancelledError) {
+        throw formatErr;
+      }
       // LLM also failed - likely connection or provider issue
       console.error(
         "[FALLBACK] formatErrorWithLLM failed:",
@@ -476,6 +1499,193 @@ Output ONLY the error message, nothing else:`;
   }
 }
 
+/**
+ * Wait until the event stream reports the reply as complete
+ *
+ * @returns The reply, or null if the stream cannot deliver it: it
+ *   disconnected, or the prompt finished without a completion event
+ * @throws Error on a session error, a failed prompt or after maxWaitMs
+ */
+async function waitForReply(
+  watch: ReplyWatch,
+  prompt: Promise<unknown>,
+  maxWaitMs: number,
+): Promise<AssistantReply | null> {
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    return await Promise.race([
+      watch.result,
+      prompt.then(
+        () =>
+          new Promise<null>((resolve) =>
+            setTimeout(() => resolve(null), EVENT_GRACE_MS).unref(),
+          ),
+      ),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error(`OpenCode response timeout after ${maxWaitMs}ms`)),
+          maxWaitMs,
+        );
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Wait for the response to a native tool prompt on the event stream
+ *
+ * Every update of the reply goes through `read`, which returns the
+ * response once it is final. Tool calls are final once no update arrived
+ * for `quietMs`.
+ *
+ * @param follow - Registers the listener for reply updates
+ * @returns The response, or null if the stream disconnects or the prompt
+ *   finishes without a completion event (the caller polls then)
+ * @throws Error if the prompt fails or maxWaitMs passes
+ */
+async function waitForNativeResponse(
+  watch: ReplyWatch,
+  follow: (onUpdate: (parts: any[], info: any) => void) => void,
+  prompt: Promise<unknown>,
+  read: (message: any, parts: any[], completed: boolean, quiet: boolean) => UnifiedResponse | null,
+  quietMs: number,
+  maxWaitMs: number,
+): Promise<UnifiedResponse | null> {
+  let settled = false;
+  let quietTimer: NodeJS.Timeout | undefined;
+  let timeoutTimer: NodeJS.Timeout | undefined;
+
+  try {
+    return await new Promise<UnifiedResponse | null>((resolve, reject) => {
+      const settle = (attempt: () => UnifiedResponse | null) => {
+        if (settled) {
+          return;
+        }
+        try {
+          const response = attempt();
+          if (response) {
+            settled = true;
+            resolve(response);
+          }
+        } catch (err) {
+          settled = true;
+          reject(err);
+        }
+      };
+      const fail = (err: unknown) => settle(() => {
+        throw err;
+      });
+      const fallBack = () => settle(() => {
+        settled = true;
+        resolve(null);
+        return null;
+      });
+
+      follow((parts, info) => {
+        clearTimeout(quietTimer);
+        settle(() => read(info, parts, false, false));
+        quietTimer = setTimeout(() => settle(() => read(info, parts, false, true)), quietMs);
+      });
+      watch.result.then(
+        (reply) => (reply ? settle(() => read(reply.info, reply.parts, true, true)) : fallBack()),
+        fail,
+      );
+      // The completion event may lag behind the prompt; poll if it does not come
+      prompt.then(() => setTimeout(fallBack, EVENT_GRACE_MS).unref(), fail);
+      timeoutTimer = setTimeout(
+        () => fail(new Error(`OpenCode response timeout after ${maxWaitMs}ms`)),
+        maxWaitMs,
+      );
+    });
+  } finally {
+    settled = true;
+    clearTimeout(quietTimer);
+    clearTimeout(timeoutTimer);
+  }
+}
+
+/**
+ * Title of a session created by an adapter instance
+ *
+ * @example
+ * tagSessionTitle("unified-response", "ha-1"); // "[ollama-adapter:ha-1] unified-response"
+ */
+export function tagSessionTitle(title: string, instanceId: string): string {
+  return `[${SESSION_TITLE_PREFIX}:${instanceId}] ${title}`;
+}
+
+/**
+ * Whether a session title was tagged by the given adapter instance
+ */
+export function isInstanceSession(title: string | undefined, instanceId: string): boolean {
+  return Boolean(title?.startsWith(`[${SESSION_TITLE_PREFIX}:${instanceId}] `));
+}
+
+/**
+ * The configured MODEL_PROVIDER/MODEL_ID
+ */
+function getDefaultModel(): ModelRef {
+  return {
+    providerID: config.modelProvider,
+    modelID: config.modelId,
+  };
+}
+
+/**
+ * Turn a callback for new pieces of text into one for the full text so far
+ * Text that no longer extends what was already reported is skipped.
+ */
+function toDeltaCallback(onDelta: (delta: string) => void): (text: string) => void {
+  let reported = "";
+  return (text) => {
+    if (!text.startsWith(reported)) {
+      return;
+    }
+    const delta = text.slice(reported.length);
+    reported = text;
+    if (delta) {
+      onDelta(delta);
+    }
+  };
+}
+
+/**
+ * Format the results of the last tool calls for the prompt
+ * JSON results with a "result" field (Home Assistant) are reduced to it.
+ */
+function formatToolResults(toolResults: OllamaMessage[]): string {
+  const texts = toolResults.map((message) => {
+    const content =
+      typeof message.content === "string"
+        ? message.content
+        : JSON.stringify(message.content);
+
+    // Parse tool result if it's JSON
+    let text = content;
+    try {
+      const toolResultObj = JSON.parse(content);
+      if (toolResultObj.result) {
+        text = toolResultObj.result;
+      }
+    } catch {
+      // Not JSON - use as is
+    }
+
+    const note = ConversationHelper.formatImageNote(message);
+    return message.tool_name ? `[${message.tool_name}] ${text}${note}` : `${text}${note}`;
+  });
+
+  if (texts.length === 0) {
+    return "";
+  }
+  if (texts.length === 1) {
+    return `\nTool Result:\n${texts[0]}`;
+  }
+  return `\nTool Results:\n${texts.map((text, i) => `${i + 1}. ${text}`).join("\n")}`;
+}
+
 /**
  * Format tools into LLM-friendly text description
  */
@@ -507,6 +1717,33 @@ ${paramsText || "   (no parameters)"}
     .join("\n\n");
 }
 
+/**
+ * Convert a base64 image (as sent by Ollama clients) to an OpenCode file part
+ * Data URLs are passed through; raw base64 is sniffed for its MIME type
+ */
+function toImageFilePart(image: string, index: number) {
+  const dataUrlMime = image.match(/^data:([^;,]+)[;,]/)?.[1];
+  const mime = dataUrlMime || detectImageMimeType(image);
+
+  return {
+    type: "file" as const,
+    mime,
+    filename: `image-${index + 1}.${mime.split("/")[1] || "bin"}`,
+    url: dataUrlMime ? image : `data:${mime};base64,${image}`,
+  };
+}
+
+/**
+ * Detect image MIME type from the magic bytes of base64-encoded data
+ * Unknown formats are sent as JPEG, the most common camera snapshot format
+ */
+function detectImageMimeType(base64: string): string {
+  if (base64.startsWith("iVBORw0KGgo")) return "image/png";
+  if (base64.startsWith("R0lGOD")) return "image/gif";
+  if (base64.startsWith("UklGR")) return "image/webp";
+  return "image/jpeg";
+}
+
 // Singleton instance
 let instance: OpencodeService | null = null;
 
@@ -0,0 +1,73 @@
+/**
+ * Reasoning (thinking) output
+ *
+ * Reasoning models report their thinking to OpenCode as separate
+ * `reasoning` parts next to the `text` part. Some providers instead inline
+ * it in the text as a leading <think>...</think> block. Both are split off
+ * here so thinking never reaches the JSON action parsing or the answer text.
+ *
+ * @example
+ * readAssistantOutput([
+ *   { type: "reasoning", text: "The user wants the weather." },
+ *   { type: "text", text: '{"action": "tool_call", ...}' },
+ * ]);
+ * // Returns: { content: '{"action": "tool_call", ...}', thinking: "The user wants the weather." }
+ */
+
+/**
+ * Answer and thinking of an assistant message
+ */
+export interface AssistantOutput {
+  /** Text of the first text part, without inline thinking */
+  content: string;
+
+  /** Reasoning parts and inline thinking, empty if there is none */
+  thinking: string;
+}
+
+const THINK_OPEN = "<think>";
+const THINK_CLOSE = "</think>";
+
+/**
+ * Read the answer and thinking from the parts of an assistant message
+ */
+export function readAssistantOutput(parts: any[]): AssistantOutput {
+  const reasoning = parts
+    .filter((part) => part?.type === "reasoning" && typeof part.text === "string")
+    .map((part) => part.text.trim())
+    .filter(Boolean);
+
+  const textPart = parts.find((part) => part?.type === "text");
+  const { thinking, content } = splitThinkTags(textPart?.text || "");
+
+  return {
+    content,
+    thinking: [...reasoning, thinking].filter(Boolean).join("\n"),
+  };
+}
+
+/**
+ * Split a leading <think>...</think> block off a text
+ *
+ * While the text is still being generated the block may be unterminated,
+ * or the opening tag itself may be incomplete; the content is empty until
+ * the block is closed, so a streamed answer never has to be taken back.
+ */
+export function splitThinkTags(text: string): AssistantOutput {
+  const trimmed = text.trimStart();
+
+  if (!trimmed.startsWith(THINK_OPEN)) {
+    const partialTag = trimmed.length > 0 && THINK_OPEN.startsWith(trimmed);
+    return { content: partialTag ? "" : text, thinking: "" };
+  }
+
+  const end = trimmed.indexOf(THINK_CLOSE);
+  if (end === -1) {
+    return { content: "", thinking: trimmed.slice(THINK_OPEN.length).trim() };
+  }
+
+  return {
+    content: trimmed.slice(end + THINK_CLOSE.length).trimStart(),
+    thinking: trimmed.slice(THINK_OPEN.length, end).trim(),
+  };
+}
@@ -0,0 +1,288 @@
+/**
+ * RequestQueue
+ *
+ * Limits how many generation requests run against OpenCode at the same
+ * time. Requests beyond MAX_CONCURRENT_REQUESTS wait for a slot; when one
+ * frees up, the waiting request with the highest priority goes next. Among
+ * equal priorities, clients take turns: the client with the fewest running
+ * requests, then the one served least recently, then the longest wait. A
+ * client firing many requests at once therefore cannot hold up the others.
+ *
+ * Requests are turned away with QueueRejectedError when the queue or the
+ * client's share of it is full, or when they wait longer than
+ * MAX_QUEUE_WAIT.
+ *
+ * @example
+ * const release = await queue.acquire(request.ip, { signal });
+ * try {
+ *   await service.generateResponse(...);
+ * } finally {
+ *   release();
+ * }
+ */
+
+import { config } from "../config.js";
+import { throwIfCancelled, toCancellation } from "./cancellation.js";
+
+/** Assumed duration of a request until one has finished */
+const DEFAULT_RUN_MS = 10000;
+
+/**
+ * Thrown when a request may not wait for a slot (anymore)
+ */
+export class QueueRejectedError extends Error {
+  /**
+   * @param statusCode - 503 when the adapter is busy, 429 when the client
+   *   has too many requests waiting
+   * @param retryAfterSeconds - When a retry may get a slot
+   */
+  constructor(
+    message: string,
+    readonly statusCode: 429 | 503,
+    readonly retryAfterSeconds: number,
+  ) {
+    super(message);
+    this.name = "QueueRejectedError";
+  }
+}
+
+export interface RequestQueueOptions {
+  /** Requests that run at the same time; 0 for no limit */
+  maxConcurrent: number;
+
+  /** Requests that may wait for a slot */
+  maxQueued: number;
+
+  /** Requests one client may have waiting */
+  maxQueuedPerClient: number;
+
+  /** Longest wait for a slot in ms */
+  maxWaitMs: number;
+}
+
+export interface AcquireOptions {
+  /** Higher priorities get a slot first (default: 0) */
+  priority?: number;
+
+  /** Cancels the wait with RequestCancelledError */
+  signal?: AbortSignal;
+}
+
+interface Waiter {
+  clientId: string;
+  priority: number;
+  seq: number;
+  grant: (release: () => void) => void;
+  /** Clears the wait timer and abort listener */
+  cleanup: () => void;
+}
+
+export class RequestQueue {
+  private waiting: Waiter[] = [];
+  private runningByClient = new Map<string, number>();
+  /** When each client with running or waiting requests last got a slot */
+  private lastGrant = new Map<string, number>();
+  private grants = 0;
+  private runningCount = 0;
+  private seq = 0;
+  private averageRunMs = DEFAULT_RUN_MS;
+
+  constructor(private readonly options: RequestQueueOptions) {}
+
+  /**
+   * Wait for a slot
+   *
+   * @param clientId - Requests of the same client share their fair turn
+   * @returns Frees the slot; must be called once the request is done
+   * @throws QueueRejectedError if the request is turned away
+   * @throws RequestCancelledError if the signal aborts while it waits
+   */
+  acquire(clientId: string, options: AcquireOptions = {}): Promise<() => void> {
+    const { priority = 0, signal } = options;
+    throwIfCancelled(signal);
+
+    if (this.hasFreeSlot() && this.waiting.length === 0) {
+      return Promise.resolve(this.start(clientId));
+    }
+
+    if (this.waiting.length >= this.options.maxQueued) {
+      return Promise.reject(
+        new QueueRejectedError(
+          "server busy, please try again. maximum pending requests exceeded",
+          503,
+          this.estimateRetryAfter(),
+        ),
+      );
+    }
+    const clientWaiting = this.waiting.filter((waiter) => waiter.clientId === clientId).length;
+    if (clientWaiting >= this.options.maxQueuedPerClient) {
+      return Promise.reject(
+        new QueueRejectedError(
+          "too many pending requests from this client, please try again",
+          429,
+          this.estimateRetryAfter(),
+        ),
+      );
+    }
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.remove(waiter);
+        reject(
+          new QueueRejectedError(
+            `server busy, please try again. no slot became free within ${this.options.maxWaitMs}ms`,
+            503,
+            this.estimateRetryAfter(),
+          ),
+        );
+      }, this.options.maxWaitMs);
+
+      const onAbort = () => {
+        this.remove(waiter);
+        reject(toCancellation(signal!));
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      const waiter: Waiter = {
+        clientId,
+        priority,
+        seq: this.seq++,
+        grant: resolve,
+        cleanup: () => {
+          clearTimeout(timer);
+          signal?.removeEventListener("abort", onAbort);
+        },
+      };
+      this.waiting.push(waiter);
+    });
+  }
+
+  /** Requests holding a slot */
+  get running(): number {
+    return this.runningCount;
+  }
+
+  /** Requests waiting for a slot */
+  get queued(): number {
+    return this.waiting.length;
+  }
+
+  private hasFreeSlot(): boolean {
+    return this.options.maxConcurrent <= 0 || this.runningCount < this.options.maxConcurrent;
+  }
+
+  private start(clientId: string): () => void {
+    const startedAt = Date.now();
+    this.runningCount++;
+    this.runningByClient.set(clientId, (this.runningByClient.get(clientId) || 0) + 1);
+    this.lastGrant.set(clientId, this.grants++);
+
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+
+      this.runningCount--;
+      const clientRunning = (this.runningByClient.get(clientId) || 1) - 1;
+      if (clientRunning > 0) {
+        this.runningByClient.set(clientId, clientRunning);
+      } else {
+        this.runningByClient.delete(clientId);
+      }
+      this.averageRunMs = this.averageRunMs * 0.8 + (Date.now() - startedAt) * 0.2;
+
+      this.dispatch();
+      this.forget(clientId);
+    };
+  }
+
+  /**
+   * Hand free slots to the next waiting requests
+   */
+  private dispatch(): void {
+    while (this.hasFreeSlot()) {
+      const next = this.pickNext();
+      if (!next) {
+        return;
+      }
+      this.remove(next);
+      next.grant(this.start(next.clientId));
+    }
+  }
+
+  /**
+   * Highest priority first, then the client with the fewest running
+   * requests, then the client served least recently, then the longest wait
+   */
+  private pickNext(): Waiter | undefined {
+    let best: Waiter | undefined;
+    for (const waiter of this.waiting) {
+      if (!best || this.compare(waiter, best) < 0) {
+        best = waiter;
+      }
+    }
+    return best;
+  }
+
+  private compare(a: Waiter, b: Waiter): number {
+    if (a.priority !== b.priority) {
+      return b.priority - a.priority;
+    }
+    const running = (waiter: Waiter) => this.runningByClient.get(waiter.clientId) || 0;
+    if (running(a) !== running(b)) {
+      return running(a) - running(b);
+    }
+    const lastGrant = (waiter: Waiter) => this.lastGrant.get(waiter.clientId) ?? -1;
+    if (lastGrant(a) !== lastGrant(b)) {
+      return lastGrant(a) - lastGrant(b);
+    }
+    return a.seq - b.seq;
+  }
+
+  private remove(waiter: Waiter): void {
+    waiter.cleanup();
+    const index = this.waiting.indexOf(waiter);
+    if (index >= 0) {
+      this.waiting.splice(index, 1);
+    }
+    this.forget(waiter.clientId);
+  }
+
+  /**
+   * Drop the turn of a client that has nothing running or waiting anymore
+   */
+  private forget(clientId: string): void {
+    if (
+      !this.runningByClient.has(clientId) &&
+      !this.waiting.some((waiter) => waiter.clientId === clientId)
+    ) {
+      this.lastGrant.delete(clientId);
+    }
+  }
+
+  /**
+   * Seconds until the requests waiting now are likely to be through
+   */
+  private estimateRetryAfter(): number {
+    const slots = Math.max(this.options.maxConcurrent, 1);
+    const rounds = Math.ceil((this.waiting.length + 1) / slots);
+    return Math.max(1, Math.ceil((rounds * this.averageRunMs) / 1000));
+  }
+}
+
+// Singleton instance
+let instance: RequestQueue | null = null;
+
+export function getRequestQueue(): RequestQueue {
+  if (!instance) {
+    instance = new RequestQueue({
+      maxConcurrent: config.maxConcurrentRequests,
+      maxQueued: config.maxQueuedRequests,
+      maxQueuedPerClient: config.maxQueuedPerClient,
+      maxWaitMs: config.maxQueueWait,
+    });
+  }
+  return instance;
+}
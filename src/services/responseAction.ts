@@ -0,0 +1,126 @@
+/**
+ * Response actions
+ *
+ * With the JSON action prompt, the model answers with one object saying
+ * what to do: call a tool, call several tools, answer or chat. The object
+ * is extracted from the output and checked here; when that fails, the
+ * error is precise enough to send back to the model for a corrected object.
+ *
+ * @example
+ * parseResponseAction('{"action": "tool_call", "arguments": {"name": "Kitchen"}}');
+ * // Returns: { ok: false, error: 'tool_call response has no "tool_name"' }
+ */
+
+import type {
+  UnifiedResponse,
+  MultiToolCallResponse,
+  ToolInvocation,
+} from "../types/tool-selection.js";
+import { extractJson } from "./jsonExtractor.js";
+
+export type ResponseActionResult =
+  | {
+      ok: true;
+      response: UnifiedResponse;
+
+      /** Number of JSON values in the output, more than 1 is worth a warning */
+      candidates: number;
+    }
+  | { ok: false; error: string };
+
+const RESPONSE_ACTIONS = ["tool_call", "tool_calls", "answer", "chat"];
+
+/**
+ * Extract and validate the response action in model output
+ * The first object with a known action wins; others (e.g. examples echoed
+ * from the prompt) are skipped.
+ */
+export function parseResponseAction(output: string): ResponseActionResult {
+  const extracted = extractJson(output, isResponseAction);
+  if (!extracted.ok) {
+    return { ok: false, error: `No valid JSON object found in LLM response (${extracted.error})` };
+  }
+
+  const parsed: any = extracted.value;
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    return { ok: false, error: "No valid JSON object found in LLM response" };
+  }
+
+  if (!isResponseAction(parsed)) {
+    return { ok: false, error: `Invalid response action: ${parsed.action}` };
+  }
+
+  const candidates = extracted.candidates;
+  switch (parsed.action) {
+    case "tool_call":
+      if (typeof parsed.tool_name !== "string" || !parsed.tool_name) {
+        return { ok: false, error: 'tool_call response has no "tool_name"' };
+      }
+      return {
+        ok: true,
+        response: {
+          action: "tool_call",
+          tool_name: parsed.tool_name,
+          arguments: isArguments(parsed.arguments) ? parsed.arguments : {},
+        },
+        candidates,
+      };
+
+    case "tool_calls":
+      try {
+        return { ok: true, response: normalizeToolCalls(parsed.calls), candidates };
+      } catch (err) {
+        return { ok: false, error: err instanceof Error ? err.message : String(err) };
+      }
+
+    default:
+      if (typeof parsed.content !== "string") {
+        return { ok: false, error: `${parsed.action} response has no "content" string` };
+      }
+      return { ok: true, response: { action: parsed.action, content: parsed.content }, candidates };
+  }
+}
+
+/**
+ * Validate the calls of a tool_calls response
+ *
+ * @throws Error if there is no call with a tool name
+ */
+export function normalizeToolCalls(calls: unknown): MultiToolCallResponse {
+  const valid: ToolInvocation[] = (Array.isArray(calls) ? calls : [])
+    .filter((call: any) => typeof call?.tool_name === "string" && call.tool_name)
+    .map((call: any) => ({
+      tool_name: call.tool_name,
+      arguments: isArguments(call.arguments) ? call.arguments : {},
+    }));
+
+  if (valid.length === 0) {
+    throw new Error("tool_calls response contains no valid calls");
+  }
+
+  return { action: "tool_calls", calls: valid };
+}
+
+/**
+ * Prompt asking the model to fix a response action that could not be used
+ * It is sent in the same session, after the original prompt.
+ */
+export function buildActionCorrectionPrompt(output: string, error: string): string {
+  return `Your previous response could not be used.
+
+=== YOUR RESPONSE ===
+${output}
+
+=== ERROR ===
+${error}
+
+Respond again with EXACTLY ONE JSON object in one of the formats described before (tool_call, tool_calls, answer or chat) and nothing else.`;
+}
+
+function isResponseAction(value: unknown): boolean {
+  return RESPONSE_ACTIONS.includes((value as any)?.action);
+}
+
+function isArguments(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
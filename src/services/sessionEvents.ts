@@ -0,0 +1,338 @@
+/**
+ * OpenCode session events
+ *
+ * OpenCode publishes what happens in its sessions as a server-sent event
+ * stream (GET /event): messages and their parts as they are generated,
+ * session status and errors. One subscription is shared by all prompts;
+ * events are dispatched by session id.
+ *
+ * watchReply() follows the assistant reply to a prompt: it reports the
+ * parts as they grow and resolves once the reply is complete. If the stream
+ * disconnects, it resolves with null and the caller falls back to polling.
+ *
+ * @example
+ * const watch = events.watchReply(sessionId, (parts) => render(parts));
+ * await client.session.prompt({ path: { id: sessionId }, body });
+ * const reply = await watch.result; // { info, parts } or null
+ * watch.stop();
+ */
+
+/**
+ * Event of the OpenCode event stream
+ */
+export interface SessionEvent {
+  type: string;
+  properties: any;
+}
+
+/**
+ * A completed assistant reply
+ */
+export interface AssistantReply {
+  /** Assistant message info (tokens, time, finish reason) */
+  info: any;
+
+  parts: any[];
+}
+
+export interface ReplyWatch {
+  /**
+   * Resolves with the reply once it is complete, or with null if the event
+   * stream disconnects first
+   * @throws Error if OpenCode reports a session error
+   */
+  result: Promise<AssistantReply | null>;
+
+  stop(): void;
+}
+
+/**
+ * Opens the event stream, e.g. `(options) => client.event.subscribe(options)`
+ */
+export type SubscribeFn = (options: {
+  signal: AbortSignal;
+  onSseError: (error: unknown) => void;
+}) => Promise<{ stream: AsyncIterable<any> }> | { stream: AsyncIterable<any> };
+
+/** null means the stream disconnected */
+type SessionListener = (event: SessionEvent | null) => void;
+
+export class SessionEventStream {
+  private listeners = new Map<string, Set<SessionListener>>();
+  private connected = false;
+  private running: Promise<void> | null = null;
+  private opening: Promise<void> | null = null;
+  private abortController: AbortController | null = null;
+  private connectWaiters = new Set<() => void>();
+
+  constructor(private readonly subscribe: SubscribeFn) {}
+
+  /**
+   * Open the stream if needed and wait until OpenCode confirms it
+   * Only the call that opens the stream waits (and calls made meanwhile);
+   * while it reconnects, later calls return false right away.
+   *
+   * @returns false if the stream is not connected within timeoutMs
+   */
+  async connect(timeoutMs: number): Promise<boolean> {
+    if (this.connected) {
+      return true;
+    }
+    if (!this.running) {
+      this.running = this.run().finally(() => {
+        this.running = null;
+        this.opening = null;
+      });
+      this.opening = this.waitForConnection(timeoutMs);
+    }
+    if (this.opening) {
+      await this.opening;
+    }
+    return this.connected;
+  }
+
+  /**
+   * Follow the assistant reply to the next prompt of a session
+   * Must be called before the prompt is sent.
+   *
+   * @param onUpdate - Called with the parts and info of the latest assistant
+   *   message whenever one of them changes
+   */
+  watchReply(sessionId: string, onUpdate?: (parts: any[], info: any) => void): ReplyWatch {
+    const reply = new ReplyCollector();
+    let settle: (reply: AssistantReply | null) => void = () => {};
+    let fail: (error: Error) => void = () => {};
+
+    const result = new Promise<AssistantReply | null>((resolve, reject) => {
+      settle = resolve;
+      fail = reject;
+    });
+    result.catch(() => {}); // The caller may stop before awaiting it
+
+    const stop = this.listen(sessionId, (event) => {
+      if (!event) {
+        settle(null);
+        return;
+      }
+
+      const changed = reply.apply(event);
+      if (reply.error) {
+        fail(new Error(`OpenCode session error: ${reply.error}`));
+      } else if (reply.completed) {
+        settle(reply.latest());
+      } else if (changed) {
+        const latest = reply.latest();
+        onUpdate?.(latest?.parts || [], latest?.info);
+      }
+    });
+
+    if (!this.connected) {
+      settle(null);
+    }
+
+    return { result, stop };
+  }
+
+  /**
+   * Close the stream; watched replies resolve with null
+   */
+  close(): void {
+    this.abortController?.abort();
+    this.abortController = null;
+    this.setDisconnected();
+  }
+
+  private async waitForConnection(timeoutMs: number): Promise<void> {
+    let timer: NodeJS.Timeout | undefined;
+    let waiter = () => {};
+    try {
+      await new Promise<void>((resolve) => {
+        waiter = resolve;
+        this.connectWaiters.add(waiter);
+        timer = setTimeout(resolve, timeoutMs);
+      });
+    } finally {
+      clearTimeout(timer);
+      this.connectWaiters.delete(waiter);
+    }
+  }
+
+  private listen(sessionId: string, listener: SessionListener): () => void {
+    let listeners = this.listeners.get(sessionId);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(sessionId, listeners);
+    }
+    listeners.add(listener);
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        this.listeners.delete(sessionId);
+      }
+    };
+  }
+
+  private async run(): Promise<void> {
+    const abortController = new AbortController();
+    this.abortController = abortController;
+
+    try {
+      const { stream } = await this.subscribe({
+        signal: abortController.signal,
+        // The SDK reconnects by itself; replies in flight are polled meanwhile
+        onSseError: () => this.setDisconnected(),
+      });
+
+      for await (const event of stream) {
+        if (abortController.signal.aborted) {
+          break;
+        }
+        if (event?.type === "server.connected") {
+          this.setConnected();
+        }
+        this.dispatch(event);
+      }
+    } catch (err) {
+      if (!abortController.signal.aborted) {
+        console.warn(
+          "[WARN] OpenCode event stream failed:",
+          err instanceof Error ? err.message : err,
+        );
+      }
+    } finally {
+      if (this.abortController === abortController) {
+        this.abortController = null;
+      }
+      this.setDisconnected();
+
+      // Nothing to wait for anymore
+      for (const waiter of this.connectWaiters) {
+        waiter();
+      }
+    }
+  }
+
+  private dispatch(event: SessionEvent): void {
+    const sessionId = getEventSessionId(event);
+    if (!sessionId) {
+      return;
+    }
+    for (const listener of this.listeners.get(sessionId) || []) {
+      listener(event);
+    }
+  }
+
+  private setConnected(): void {
+    this.connected = true;
+    for (const waiter of this.connectWaiters) {
+      waiter();
+    }
+  }
+
+  private setDisconnected(): void {
+    if (!this.connected) {
+      return;
+    }
+    this.connected = false;
+    for (const listeners of this.listeners.values()) {
+      for (const listener of listeners) {
+        listener(null);
+      }
+    }
+  }
+}
+
+/**
+ * Assembles the assistant messages of one prompt from session events
+ */
+export class ReplyCollector {
+  /** Assistant message infos by id, in order of appearance */
+  private messages = new Map<string, any>();
+
+  /** Parts by message id, then part id */
+  private parts = new Map<string, Map<string, any>>();
+
+  completed = false;
+  error: string | null = null;
+
+  /**
+   * Apply an event of the prompt's session
+   *
+   * @returns Whether the latest assistant message changed
+   */
+  apply(event: SessionEvent): boolean {
+    const props = event.properties || {};
+
+    switch (event.type) {
+      case "message.updated": {
+        const info = props.info;
+        if (info?.role !== "assistant") {
+          return false;
+        }
+        this.messages.set(info.id, info);
+        if (info.error) {
+          this.error = formatSessionError(info.error);
+        } else if (info.time?.completed && info.finish !== "tool-calls") {
+          // A reply that called tools continues in a new message
+          this.completed = true;
+        }
+        return this.isLatest(info.id);
+      }
+
+      case "message.part.updated": {
+        const part = props.part;
+        if (!part?.messageID || !part.id) {
+          return false;
+        }
+        let parts = this.parts.get(part.messageID);
+        if (!parts) {
+          parts = new Map();
+          this.parts.set(part.messageID, parts);
+        }
+        parts.set(part.id, part);
+        return this.isLatest(part.messageID);
+      }
+
+      case "session.error":
+        this.error = formatSessionError(props.error);
+        return false;
+
+      case "session.idle":
+        this.completed = this.messages.size > 0;
+        return false;
+
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * The latest assistant message and its parts
+   */
+  latest(): AssistantReply | null {
+    const ids = [...this.messages.keys()];
+    const id = ids[ids.length - 1];
+    if (!id) {
+      return null;
+    }
+    return {
+      info: this.messages.get(id),
+      parts: [...(this.parts.get(id)?.values() || [])],
+    };
+  }
+
+  private isLatest(messageId: string): boolean {
+    const ids = [...this.messages.keys()];
+    return ids[ids.length - 1] === messageId;
+  }
+}
+
+function getEventSessionId(event: SessionEvent): string | undefined {
+  const props = event?.properties;
+  return props?.sessionID || props?.info?.sessionID || props?.part?.sessionID;
+}
+
+function formatSessionError(error: any): string {
+  return error?.data?.message || error?.name || "unknown error";
+}
@@ -0,0 +1,148 @@
+/**
+ * SessionJanitor
+ *
+ * Every OpenCode session is deleted once its request is done, but deletion
+ * is best-effort: after a crash or while OpenCode is unreachable, sessions
+ * are left behind. The janitor lists OpenCode's sessions at startup and on
+ * an interval, and deletes the ones this adapter created that have been
+ * idle for longer than SESSION_GC_MAX_AGE.
+ *
+ * Sessions are recognized by their title, which OpencodeService tags with
+ * the adapter's instance id (see tagSessionTitle()), so several adapters
+ * can share one OpenCode server without deleting each other's sessions.
+ */
+
+import type { Session } from "@opencode-ai/sdk";
+import { config } from "../config.js";
+import { getOpencodeService, isInstanceSession, type OpencodeService } from "./opencode.js";
+
+export interface SessionJanitorStats {
+  /** Completed sweeps */
+  runs: number;
+
+  /** Sessions deleted since startup */
+  reclaimed: number;
+
+  /** Sessions that could not be deleted since startup */
+  failed: number;
+
+  /** When the last sweep finished (ms since epoch), null before the first */
+  lastRunAt: number | null;
+}
+
+export class SessionJanitor {
+  private timer: NodeJS.Timeout | null = null;
+  private pendingSweep: Promise<number> | null = null;
+  private stats: SessionJanitorStats = { runs: 0, reclaimed: 0, failed: 0, lastRunAt: null };
+
+  /**
+   * @param maxAgeMs - Idle time after which an adapter session is orphaned
+   * @param now - Clock, replaceable in tests
+   */
+  constructor(
+    private readonly opencodeService: OpencodeService,
+    private readonly instanceId: string,
+    private readonly maxAgeMs: number,
+    private readonly intervalMs: number,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  /**
+   * Delete orphaned sessions of this instance
+   * Concurrent calls share one sweep. A failed listing is logged and
+   * retried by the next sweep.
+   *
+   * @returns Number of deleted sessions
+   */
+  async sweep(): Promise<number> {
+    if (this.pendingSweep) {
+      return this.pendingSweep;
+    }
+
+    this.pendingSweep = (async () => {
+      let sessions: Session[];
+      try {
+        sessions = await this.opencodeService.listSessions();
+      } catch (err) {
+        console.error(
+          "[SessionJanitor] Failed to list OpenCode sessions:",
+          err instanceof Error ? err.message : err,
+        );
+        return 0;
+      }
+
+      const cutoff = this.now() - this.maxAgeMs;
+      const orphaned = sessions.filter(
+        (session) =>
+          isInstanceSession(session.title, this.instanceId) &&
+          (session.time?.updated ?? session.time?.created ?? 0) <= cutoff,
+      );
+
+      let reclaimed = 0;
+      for (const session of orphaned) {
+        if (await this.opencodeService.deleteSession(session.id)) {
+          reclaimed++;
+        }
+      }
+
+      const failed = orphaned.length - reclaimed;
+      this.stats = {
+        runs: this.stats.runs + 1,
+        reclaimed: this.stats.reclaimed + reclaimed,
+        failed: this.stats.failed + failed,
+        lastRunAt: this.now(),
+      };
+
+      if (orphaned.length > 0) {
+        console.warn(
+          `[SessionJanitor] Deleted ${reclaimed} orphaned OpenCode session(s)` +
+            (failed > 0 ? `, ${failed} could not be deleted` : ""),
+        );
+      }
+      return reclaimed;
+    })().finally(() => {
+      this.pendingSweep = null;
+    });
+
+    return this.pendingSweep;
+  }
+
+  getStats(): SessionJanitorStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Sweep now and then on the configured interval
+   */
+  start(): void {
+    if (this.timer || this.intervalMs <= 0) {
+      return;
+    }
+    void this.sweep();
+    this.timer = setInterval(() => void this.sweep(), this.intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+// Singleton instance
+let instance: SessionJanitor | null = null;
+
+export function getSessionJanitor(): SessionJanitor {
+  if (!instance) {
+    instance = new SessionJanitor(
+      getOpencodeService(),
+      config.sessionInstanceId,
+      // Sessions kept for the next conversation turn are never idle longer than their TTL
+      Math.max(config.sessionGcMaxAge, config.conversationSessionTtl),
+      config.sessionGcInterval,
+    );
+  }
+  return instance;
+}
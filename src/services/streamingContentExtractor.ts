@@ -0,0 +1,127 @@
+/**
+ * StreamingContentExtractor
+ *
+ * Incrementally extracts the user-visible `content` string from a unified
+ * response JSON object while the LLM is still producing it.
+ *
+ * The LLM answers with `{"action": "answer", "content": "..."}` (or "chat").
+ * Streaming clients should see the content as it is generated, not the raw
+ * JSON. Tool calls are never streamed - they are emitted as one chunk once
+ * the full response has been parsed.
+ *
+ * @example
+ * const extractor = new StreamingContentExtractor();
+ * extractor.push('{"action": "chat", "content": "Hel');   // Returns: "Hel"
+ * extractor.push('{"action": "chat", "content": "Hello"}'); // Returns: "lo"
+ */
+
+const STREAMABLE_ACTIONS = ["answer", "chat"];
+
+export class StreamingContentExtractor {
+  private emitted = "";
+
+  /**
+   * Feed the full text generated so far
+   *
+   * @param fullText - Cumulative LLM output (not a delta)
+   * @returns Newly decoded content since the previous call, or empty string
+   */
+  push(fullText: string): string {
+    const action = fullText.match(/"action"\s*:\s*"([a-z_]+)"/)?.[1];
+    if (!action || !STREAMABLE_ACTIONS.includes(action)) {
+      return "";
+    }
+
+    const contentMatch = fullText.match(/"content"\s*:\s*"/);
+    if (!contentMatch || contentMatch.index === undefined) {
+      return "";
+    }
+
+    const decoded = decodePartialJsonString(
+      fullText.slice(contentMatch.index + contentMatch[0].length),
+    );
+
+    // Content can only grow; anything else means the text was rewritten
+    if (!decoded.startsWith(this.emitted)) {
+      return "";
+    }
+
+    const delta = decoded.slice(this.emitted.length);
+    this.emitted = decoded;
+    return delta;
+  }
+
+  /**
+   * All content emitted so far
+   */
+  getEmitted(): string {
+    return this.emitted;
+  }
+}
+
+/**
+ * Part of a final response that was not streamed yet
+ *
+ * @param content - Final response content
+ * @param streamed - Content already sent to the client
+ * @returns The rest of the content, or null if it does not continue the
+ *   streamed content (e.g. an error answer after a partial stream)
+ */
+export function getUnstreamedContent(content: string, streamed: string): string | null {
+  return content.startsWith(streamed) ? content.slice(streamed.length) : null;
+}
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+  '"': '"',
+  "\\": "\\",
+  "/": "/",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+};
+
+/**
+ * Decode the body of a JSON string literal that may still be incomplete
+ * Stops at the closing quote, or before a trailing escape sequence that
+ * has not fully arrived yet.
+ */
+function decodePartialJsonString(raw: string): string {
+  let result = "";
+  let i = 0;
+
+  while (i < raw.length) {
+    const char = raw[i]!;
+
+    if (char === '"') {
+      break;
+    }
+
+    if (char !== "\\") {
+      result += char;
+      i++;
+      continue;
+    }
+
+    const next = raw[i + 1];
+    if (next === undefined) {
+      break; // Escape sequence not complete yet
+    }
+
+    if (next === "u") {
+      const hex = raw.slice(i + 2, i + 6);
+      if (hex.length < 4) {
+        break;
+      }
+      result += String.fromCharCode(parseInt(hex, 16));
+      i += 6;
+      continue;
+    }
+
+    result += SIMPLE_ESCAPES[next] ?? next;
+    i += 2;
+  }
+
+  return result;
+}
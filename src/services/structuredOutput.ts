@@ -0,0 +1,134 @@
+/**
+ * Structured outputs
+ *
+ * Ollama's `format` field constrains a response to JSON: either any JSON
+ * value (`format: "json"`) or a value matching a JSON Schema. Cloud models
+ * reached through OpenCode cannot be grammar-constrained, so the format is
+ * described in the prompt and the output is checked afterwards. Outputs
+ * that fail the check are sent back to the model together with the errors.
+ *
+ * @example
+ * checkStructuredOutput('```json\n{"city": "Tokyo"}\n```', {
+ *   type: "object",
+ *   properties: { city: { type: "string" } },
+ *   required: ["city", "temperature"],
+ * });
+ * // Returns: { ok: false, errors: ["$: missing required property 'temperature'"] }
+ */
+
+import type { OllamaFormat } from "../types/ollama.js";
+import { validateJsonSchema } from "./jsonSchema.js";
+import { extractJson } from "./jsonExtractor.js";
+
+export type StructuredOutputCheck =
+  | { ok: true; json: string }
+  | { ok: false; errors: string[] };
+
+/**
+ * Thrown when the model keeps producing output that violates the format
+ */
+export class StructuredOutputError extends Error {
+  constructor(
+    readonly errors: string[],
+    readonly attempts: number,
+  ) {
+    super(
+      `model output did not match the requested format after ${attempts} attempt${attempts === 1 ? "" : "s"}: ${errors.join("; ")}`,
+    );
+    this.name = "StructuredOutputError";
+  }
+}
+
+/**
+ * Check whether a request's `format` value is one the adapter supports
+ */
+export function isOutputFormat(format: unknown): format is OllamaFormat {
+  return (
+    format === "json" ||
+    (typeof format === "object" && format !== null && !Array.isArray(format))
+  );
+}
+
+/**
+ * Prompt instruction describing the expected output
+ */
+export function describeOutputFormat(format: OllamaFormat): string {
+  const instruction =
+    "Respond with valid JSON only. No markdown, no text before or after the JSON.";
+
+  if (format === "json") {
+    return instruction;
+  }
+
+  return `${instruction}
+The JSON must match this JSON Schema:
+${JSON.stringify(format, null, 2)}`;
+}
+
+/**
+ * Parse model output as JSON and validate it against the format
+ *
+ * @returns Compact JSON text on success, otherwise the problems found
+ */
+export function checkStructuredOutput(
+  output: string,
+  format: OllamaFormat,
+): StructuredOutputCheck {
+  const parsed = parseJsonOutput(output);
+  if (!parsed.ok) {
+    return { ok: false, errors: [parsed.error] };
+  }
+
+  const errors = format === "json" ? [] : validateJsonSchema(parsed.value, format);
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return { ok: true, json: JSON.stringify(parsed.value) };
+}
+
+/**
+ * Prompt asking the model to fix output that failed the check
+ */
+export function buildCorrectionPrompt(output: string, errors: string[]): string {
+  return `Your previous response was:
+${output}
+
+It was rejected because:
+${errors.map((error) => `- ${error}`).join("\n")}
+
+Respond again with corrected JSON only.`;
+}
+
+/**
+ * Parse JSON from model output
+ * Tolerates markdown code fences, prose around the JSON value and common
+ * syntax slips (see jsonExtractor).
+ */
+export function parseJsonOutput(
+  output: string,
+): { ok: true; value: unknown } | { ok: false; error: string } {
+  const cleaned = output
+    .trim()
+    .replace(/^```(?:json)?\s*\n?/i, "")
+    .replace(/\n?```\s*$/, "")
+    .trim();
+
+  if (!cleaned) {
+    return { ok: false, error: "response is empty, expected JSON" };
+  }
+
+  try {
+    return { ok: true, value: JSON.parse(cleaned) };
+  } catch (err) {
+    const extracted = extractJson(cleaned);
+    if (extracted.ok) {
+      return { ok: true, value: extracted.value };
+    }
+
+    return {
+      ok: false,
+      error: `response is not valid JSON (${err instanceof Error ? err.message : String(err)})`,
+    };
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Token usage
+ *
+ * Collects token counts and timings for the OpenCode prompts behind one
+ * API request. A single chat request can run several prompts (the main
+ * response plus fallbacks or format corrections); all of them are summed
+ * so the reported numbers match what the provider actually billed.
+ */
+
+import { estimateTokens } from "./tokenizer.js";
+
+export interface TokenUsage {
+  /** Prompt tokens, including cached ones */
+  promptTokens: number;
+
+  /** Generated tokens, including reasoning */
+  completionTokens: number;
+
+  /** Time spent preparing (creating the OpenCode session), in ms */
+  loadMs: number;
+
+  /** Time until the model started producing output, in ms */
+  promptEvalMs: number;
+
+  /** Time spent producing output, in ms */
+  evalMs: number;
+
+  /** Number of OpenCode prompts included */
+  promptCount: number;
+
+  /** True if any count was estimated because OpenCode reported none */
+  estimated: boolean;
+}
+
+/**
+ * Data available about one completed OpenCode prompt
+ */
+export interface PromptUsageInput {
+  /** Assistant message info (AssistantMessage in the OpenCode SDK) */
+  message?: {
+    time?: { created?: number; completed?: number };
+    tokens?: {
+      input?: number;
+      output?: number;
+      reasoning?: number;
+      cache?: { read?: number; write?: number };
+    };
+  };
+
+  /** Timing of the text part that holds the response */
+  textTime?: { start?: number; end?: number };
+
+  /** Text that was sent (system prompt and user message) */
+  promptText: string;
+
+  /** Text that was received */
+  completionText: string;
+
+  /** When session creation started, in epoch ms */
+  requestStart: number;
+
+  /** When the prompt was sent, in epoch ms */
+  promptSentAt: number;
+
+  /** When the response was complete, in epoch ms */
+  completedAt: number;
+}
+
+/**
+ * Build the usage of one prompt
+ * Token counts come from the assistant message when OpenCode reports
+ * them; otherwise they are estimated from the prompt and response text.
+ */
+export function getPromptUsage(input: PromptUsageInput): TokenUsage {
+  const tokens = input.message?.tokens;
+  const promptTokens =
+    (tokens?.input || 0) + (tokens?.cache?.read || 0) + (tokens?.cache?.write || 0);
+  const completionTokens = (tokens?.output || 0) + (tokens?.reasoning || 0);
+  const reported = promptTokens > 0 || completionTokens > 0;
+
+  const elapsed = Math.max(0, input.completedAt - input.promptSentAt);
+  const start = input.textTime?.start;
+  const end = input.textTime?.end ?? input.message?.time?.completed ?? input.completedAt;
+
+  // Without part timing the whole wait counts as generation
+  const promptEvalMs = start ? clamp(start - input.promptSentAt, 0, elapsed) : 0;
+  const evalMs = start ? clamp(end - start, 0, elapsed - promptEvalMs) : elapsed;
+
+  return {
+    promptTokens: reported ? promptTokens : estimateTokens(input.promptText),
+    completionTokens: reported ? completionTokens : estimateTokens(input.completionText),
+    loadMs: Math.max(0, input.promptSentAt - input.requestStart),
+    promptEvalMs,
+    evalMs,
+    promptCount: 1,
+    estimated: !reported,
+  };
+}
+
+/**
+ * Add the usage of another prompt to a running total
+ */
+export function addTokenUsage(total: TokenUsage | undefined, usage: TokenUsage): TokenUsage {
+  if (!total) {
+    return usage;
+  }
+
+  return {
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+    loadMs: total.loadMs + usage.loadMs,
+    promptEvalMs: total.promptEvalMs + usage.promptEvalMs,
+    evalMs: total.evalMs + usage.evalMs,
+    promptCount: total.promptCount + usage.promptCount,
+    estimated: total.estimated || usage.estimated,
+  };
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), Math.max(min, max));
+}
@@ -0,0 +1,81 @@
+/**
+ * Tool call argument validation
+ *
+ * Models get tool arguments wrong in predictable ways: numbers as strings,
+ * a single area where a list is expected, a missing required field. Safe
+ * cases are coerced to the tool's parameter schema; the rest are reported
+ * so the model can be asked to fix the call.
+ *
+ * @example
+ * checkToolCall(
+ *   { tool_name: "HassLightSet", arguments: { name: "Kitchen", brightness: "80" } },
+ *   tools,
+ * );
+ * // Returns: { call: { tool_name: "HassLightSet", arguments: { name: "Kitchen", brightness: 80 } }, errors: [] }
+ */
+
+import type { OllamaTool } from "../types/ollama.js";
+import type { ToolInvocation } from "../types/tool-selection.js";
+import { coerceToSchema, validateJsonSchema } from "./jsonSchema.js";
+
+/**
+ * Result of checking one tool call
+ */
+export interface ToolCallCheck {
+  /** The call with coerced arguments */
+  call: ToolInvocation;
+
+  /** Validation errors left after coercion, empty if the call is valid */
+  errors: string[];
+}
+
+/**
+ * Coerce and validate the arguments of a tool call
+ * Calls to unknown tools are returned unchanged and without errors;
+ * unknown tool names are handled separately.
+ */
+export function checkToolCall(call: ToolInvocation, tools: OllamaTool[]): ToolCallCheck {
+  const tool = tools.find((t) => t.function.name === call.tool_name);
+  const schema = tool?.function.parameters;
+  if (!schema) {
+    return { call, errors: [] };
+  }
+
+  const coerced = coerceToSchema(call.arguments ?? {}, schema);
+  const args = coerced !== null && typeof coerced === "object" && !Array.isArray(coerced)
+    ? (coerced as Record<string, any>)
+    : {};
+
+  return {
+    call: { tool_name: call.tool_name, arguments: args },
+    errors: validateJsonSchema(args, schema),
+  };
+}
+
+/**
+ * Build the prompt asking the model to fix an invalid tool call
+ *
+ * @param call - The call as the model made it (after coercion)
+ * @param errors - Validation errors of the call
+ * @param toolDescription - Description of the tool and its parameters
+ */
+export function buildToolCallCorrectionPrompt(
+  call: ToolInvocation,
+  errors: string[],
+  toolDescription: string,
+): string {
+  return `Your call to the tool "${call.tool_name}" has invalid arguments.
+
+=== TOOL ===
+${toolDescription}
+
+=== YOUR ARGUMENTS ===
+${JSON.stringify(call.arguments)}
+
+=== ERRORS ===
+${errors.map((error) => `- ${error}`).join("\n")}
+
+Fix the arguments so they match the tool's parameters ("$" is the arguments object).
+Respond with EXACTLY ONE JSON object and nothing else:
+{"action": "tool_call", "tool_name": "${call.tool_name}", "arguments": {...}}`;
+}
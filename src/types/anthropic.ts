@@ -0,0 +1,157 @@
+/**
+ * Anthropic Messages API Types
+ * Based on: https://docs.anthropic.com/en/api/messages
+ *
+ * Only the fields the adapter reads or writes are modeled.
+ */
+
+export interface AnthropicTextBlock {
+  type: 'text';
+  text: string;
+}
+
+/**
+ * Tool call made by the assistant
+ * Like Ollama (and unlike OpenAI), input is an object
+ */
+export interface AnthropicToolUseBlock {
+  type: 'tool_use';
+  id: string;
+  name: string;
+  input: Record<string, any>;
+}
+
+/**
+ * Result of a tool call, sent back in a user message
+ */
+export interface AnthropicToolResultBlock {
+  type: 'tool_result';
+  tool_use_id: string;
+  content?: string | AnthropicContentBlock[];
+  is_error?: boolean;
+}
+
+/**
+ * Image in a user message or tool result
+ * Only base64 sources are supported; url sources are ignored.
+ */
+export interface AnthropicImageBlock {
+  type: 'image';
+  source:
+    | { type: 'base64'; media_type: string; data: string }
+    | { type: 'url'; url: string };
+}
+
+/**
+ * Content block of a request message
+ * Block types other than these (e.g. document) are ignored.
+ */
+export type AnthropicContentBlock =
+  | AnthropicTextBlock
+  | AnthropicImageBlock
+  | AnthropicToolUseBlock
+  | AnthropicToolResultBlock
+  | { type: string; [key: string]: unknown };
+
+/**
+ * Message in a conversation; system prompts go in the request's `system`
+ */
+export interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: string | AnthropicContentBlock[];
+}
+
+/**
+ * Tool definition in Anthropic format
+ */
+export interface AnthropicTool {
+  name: string;
+  description?: string;
+  input_schema: Record<string, any>;
+}
+
+/**
+ * Which tools the model may call
+ * - auto: the model decides (default)
+ * - any: at least one tool call
+ * - tool: exactly the named tool
+ * - none: no tool calls
+ */
+export type AnthropicToolChoice =
+  | { type: 'auto' | 'any' | 'none' }
+  | { type: 'tool'; name: string };
+
+/**
+ * Request to /v1/messages
+ */
+export interface AnthropicMessagesRequest {
+  model: string;
+  messages: AnthropicMessage[];
+  max_tokens: number;
+  system?: string | AnthropicTextBlock[];
+  tools?: AnthropicTool[];
+  tool_choice?: AnthropicToolChoice;
+  stop_sequences?: string[];
+  stream?: boolean;
+  temperature?: number;
+  top_p?: number;
+  top_k?: number;
+}
+
+export type AnthropicStopReason = 'end_turn' | 'max_tokens' | 'stop_sequence' | 'tool_use';
+
+export interface AnthropicUsage {
+  input_tokens: number;
+  output_tokens: number;
+}
+
+/**
+ * Content block of a response
+ */
+export type AnthropicResponseBlock = AnthropicTextBlock | AnthropicToolUseBlock;
+
+/**
+ * Response from /v1/messages
+ */
+export interface AnthropicMessagesResponse {
+  id: string;
+  type: 'message';
+  role: 'assistant';
+  model: string;
+  content: AnthropicResponseBlock[];
+  stop_reason: AnthropicStopReason | null;
+  stop_sequence: string | null;
+  usage: AnthropicUsage;
+}
+
+/**
+ * Server-sent event of a streamed /v1/messages response
+ * The SSE event name is the same as `type`.
+ */
+export type AnthropicStreamEvent =
+  | { type: 'message_start'; message: AnthropicMessagesResponse }
+  | { type: 'content_block_start'; index: number; content_block: AnthropicResponseBlock }
+  | {
+      type: 'content_block_delta';
+      index: number;
+      delta: { type: 'text_delta'; text: string } | { type: 'input_json_delta'; partial_json: string };
+    }
+  | { type: 'content_block_stop'; index: number }
+  | {
+      type: 'message_delta';
+      delta: { stop_reason: AnthropicStopReason; stop_sequence: string | null };
+      usage: { output_tokens: number };
+    }
+  | { type: 'message_stop' }
+  | { type: 'ping' };
+
+/**
+ * Error body returned by /v1/messages, also sent as an `error` event mid-stream
+ */
+export interface AnthropicErrorResponse {
+  type: 'error';
+  error: {
+    type: string;
+    message: string;
+  };
+}
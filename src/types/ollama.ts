@@ -10,6 +10,9 @@ export interface OllamaMessage {
   role: 'system' | 'user' | 'assistant' | 'tool';
   content: string;
   tool_calls?: OllamaToolCall[];
+  tool_name?: string; // Tool that produced a role: 'tool' message
+  images?: string[]; // base64-encoded; user messages and tool results (e.g. camera snapshots)
+  thinking?: string; // Reasoning of an assistant message, when `think` is enabled
 }
 
 /**
@@ -39,6 +42,61 @@ export interface OllamaTool {
   };
 }
 
+/**
+ * Structured output format: "json" for any JSON value, or a JSON Schema
+ */
+export type OllamaFormat = "json" | Record<string, any>;
+
+/**
+ * Generation options shared by /api/chat and /api/generate
+ *
+ * OpenCode's prompt API has no per-request sampling settings, so most of
+ * these cannot reach the provider. `stop` and `num_predict` are enforced by
+ * the adapter on the generated text; the rest are accepted for compatibility.
+ *
+ * Based on: https://github.com/ollama/ollama/blob/main/docs/modelfile.md#valid-parameters-and-values
+ */
+export interface OllamaOptions {
+  // Sampling
+  temperature?: number;
+  top_p?: number;
+  top_k?: number;
+  min_p?: number;
+  typical_p?: number;
+  tfs_z?: number;
+  seed?: number;
+  repeat_last_n?: number;
+  repeat_penalty?: number;
+  presence_penalty?: number;
+  frequency_penalty?: number;
+  penalize_newline?: boolean;
+  mirostat?: number;
+  mirostat_eta?: number;
+  mirostat_tau?: number;
+
+  // Output limits
+  stop?: string[];
+  num_predict?: number; // Maximum tokens to generate; -1 = unlimited
+
+  // Runtime (meaningless for cloud models)
+  num_ctx?: number;
+  num_keep?: number;
+  num_batch?: number;
+  num_gpu?: number;
+  main_gpu?: number;
+  num_thread?: number;
+  use_mmap?: boolean;
+  use_mlock?: boolean;
+  low_vram?: boolean;
+  numa?: boolean;
+}
+
+/**
+ * Whether to return the model's reasoning ("thinking") separately
+ * Reasoning effort levels are accepted like `true`.
+ */
+export type OllamaThink = boolean | 'low' | 'medium' | 'high';
+
 /**
  * Chat request to /api/chat
  */
@@ -47,12 +105,9 @@ export interface OllamaChatRequest {
   messages: OllamaMessage[];
   stream?: boolean;
   tools?: OllamaTool[];
-  format?: string;
-  options?: {
-    temperature?: number;
-    top_p?: number;
-    seed?: number;
-  };
+  format?: OllamaFormat;
+  options?: OllamaOptions;
+  think?: OllamaThink;
 }
 
 /**
@@ -72,6 +127,92 @@ export interface OllamaChatResponse {
   eval_duration?: number; // nanoseconds
 }
 
+/**
+ * Completion request to /api/generate
+ */
+export interface OllamaGenerateRequest {
+  model: string;
+  prompt?: string;
+  suffix?: string;
+  images?: string[]; // base64-encoded
+  format?: OllamaFormat;
+  options?: OllamaOptions;
+  system?: string;
+  template?: string;
+  context?: number[]; // Returned by a previous /api/generate response
+  stream?: boolean;
+  raw?: boolean;
+  think?: OllamaThink;
+}
+
+/**
+ * Completion response from /api/generate
+ */
+export interface OllamaGenerateResponse {
+  model: string;
+  created_at: string; // ISO 8601 format
+  response: string;
+  thinking?: string; // Only when `think` is enabled
+  done: boolean;
+  done_reason?: string;
+  context?: number[];
+  total_duration?: number; // nanoseconds
+  load_duration?: number; // nanoseconds
+  prompt_eval_count?: number;
+  prompt_eval_duration?: number; // nanoseconds
+  eval_count?: number;
+  eval_duration?: number; // nanoseconds
+}
+
+/**
+ * Embedding request to /api/embed
+ */
+export interface OllamaEmbedRequest {
+  model: string;
+  input: string | string[];
+  truncate?: boolean; // Cut inputs longer than the context instead of failing (default: true)
+  dimensions?: number;
+  options?: OllamaOptions;
+  keep_alive?: string | number;
+}
+
+/**
+ * Embedding response from /api/embed
+ * Embeddings are normalized to unit length
+ */
+export interface OllamaEmbedResponse {
+  model: string;
+  embeddings: number[][];
+  total_duration?: number; // nanoseconds
+  load_duration?: number; // nanoseconds
+  prompt_eval_count?: number;
+}
+
+/**
+ * Legacy embedding request to /api/embeddings
+ */
+export interface OllamaEmbeddingsRequest {
+  model: string;
+  prompt: string;
+  options?: OllamaOptions;
+  keep_alive?: string | number;
+}
+
+/**
+ * Legacy embedding response from /api/embeddings (not normalized)
+ */
+export interface OllamaEmbeddingsResponse {
+  embedding: number[];
+}
+
+/**
+ * Error body returned by Ollama endpoints
+ * Also written as a line of a streamed response when generation fails mid-stream
+ */
+export interface OllamaErrorResponse {
+  error: string;
+}
+
 /**
  * Model information for /api/tags
  */
@@ -88,6 +229,7 @@ export interface OllamaModel {
     families?: string[];
     parameter_size: string;
     quantization_level: string;
+    context_length?: number; // Adapter extension: context window in tokens
   };
 }
 
@@ -105,6 +247,7 @@ export interface OllamaShowResponse {
   modelfile: string;
   parameters: string;
   template: string;
+  system?: string;
   details: {
     parent_model?: string;
     format: string;
@@ -114,6 +257,54 @@ export interface OllamaShowResponse {
     quantization_level: string;
   };
   model_info?: Record<string, any>;
+  capabilities?: string[]; // e.g. ["completion", "tools", "vision", "thinking"]
+  modified_at?: string; // ISO 8601 format
+}
+
+/**
+ * Request to /api/show
+ */
+export interface OllamaShowRequest {
+  model?: string;
+  name?: string; // Deprecated alias of model
+}
+
+/**
+ * Request to /api/create
+ * Fields set explicitly override the same command in `modelfile`
+ */
+export interface OllamaCreateRequest {
+  model?: string;
+  name?: string; // Deprecated alias of model
+  from?: string;
+  modelfile?: string; // Deprecated: FROM/SYSTEM/TEMPLATE/PARAMETER commands
+  system?: string;
+  template?: string;
+  parameters?: Record<string, number | boolean | string[]>;
+  stream?: boolean;
+}
+
+/**
+ * Request to /api/copy
+ */
+export interface OllamaCopyRequest {
+  source: string;
+  destination: string;
+}
+
+/**
+ * Request to /api/delete
+ */
+export interface OllamaDeleteRequest {
+  model?: string;
+  name?: string; // Deprecated alias of model
+}
+
+/**
+ * Progress status from /api/create
+ */
+export interface OllamaStatusResponse {
+  status: string;
 }
 
 /**
@@ -0,0 +1,224 @@
+/**
+ * OpenAI Chat Completions API Types
+ * Based on: https://platform.openai.com/docs/api-reference/chat
+ *
+ * Only the fields the adapter reads or writes are modeled.
+ */
+
+/**
+ * Content part of a user message
+ * Text parts and image_url parts with base64 data URLs are used; other
+ * part types are ignored.
+ */
+export interface OpenAIContentPart {
+  type: string;
+  text?: string;
+  image_url?: { url: string; detail?: string };
+}
+
+/**
+ * Tool call in OpenAI format
+ * Key difference from Ollama: arguments is a JSON string and every call has an id
+ */
+export interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string; // JSON string, not an object!
+  };
+}
+
+/**
+ * Message in a chat conversation
+ */
+export interface OpenAIMessage {
+  role: 'system' | 'developer' | 'user' | 'assistant' | 'tool';
+  content?: string | OpenAIContentPart[] | null;
+  name?: string;
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string; // Call that a role: 'tool' message answers
+}
+
+/**
+ * Tool definition in OpenAI format (same shape as Ollama's)
+ */
+export interface OpenAITool {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters?: Record<string, any>;
+  };
+}
+
+/**
+ * Which tools the model may call
+ * - "auto": the model decides (default)
+ * - "none": no tool calls
+ * - "required": at least one tool call
+ * - named function: exactly that tool
+ */
+export type OpenAIToolChoice =
+  | 'auto'
+  | 'none'
+  | 'required'
+  | { type: 'function'; function: { name: string } };
+
+/**
+ * Requested response format
+ */
+export type OpenAIResponseFormat =
+  | { type: 'text' }
+  | { type: 'json_object' }
+  | {
+      type: 'json_schema';
+      json_schema: { name?: string; schema?: Record<string, any>; strict?: boolean };
+    };
+
+/**
+ * Generation parameters shared by /v1/chat/completions and /v1/completions
+ */
+export interface OpenAIGenerationParams {
+  stop?: string | string[];
+  max_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+  seed?: number;
+  presence_penalty?: number;
+  frequency_penalty?: number;
+}
+
+/**
+ * Request to /v1/chat/completions
+ */
+export interface OpenAIChatRequest extends OpenAIGenerationParams {
+  model: string;
+  messages: OpenAIMessage[];
+  stream?: boolean;
+  stream_options?: { include_usage?: boolean };
+  tools?: OpenAITool[];
+  tool_choice?: OpenAIToolChoice;
+  response_format?: OpenAIResponseFormat;
+  max_completion_tokens?: number; // Replaces max_tokens in newer clients
+}
+
+export type OpenAIFinishReason = 'stop' | 'length' | 'tool_calls';
+
+/**
+ * Token usage of a completion
+ */
+export interface OpenAIUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+/**
+ * Response from /v1/chat/completions
+ */
+export interface OpenAIChatResponse {
+  id: string;
+  object: 'chat.completion';
+  created: number; // Unix timestamp in seconds
+  model: string;
+  system_fingerprint: string;
+  choices: Array<{
+    index: number;
+    message: {
+      role: 'assistant';
+      content: string | null;
+      tool_calls?: OpenAIToolCall[];
+    };
+    finish_reason: OpenAIFinishReason;
+  }>;
+  usage: OpenAIUsage;
+}
+
+/**
+ * Tool call fragment in a streamed chunk
+ * Every call is sent whole, in a single fragment.
+ */
+export interface OpenAIToolCallDelta extends OpenAIToolCall {
+  index: number;
+}
+
+/**
+ * Chunk of a streamed /v1/chat/completions response (one SSE event)
+ */
+export interface OpenAIChatChunk {
+  id: string;
+  object: 'chat.completion.chunk';
+  created: number; // Unix timestamp in seconds
+  model: string;
+  system_fingerprint: string;
+  choices: Array<{
+    index: number;
+    delta: {
+      role?: 'assistant';
+      content?: string;
+      tool_calls?: OpenAIToolCallDelta[];
+    };
+    finish_reason: OpenAIFinishReason | null;
+  }>;
+  usage?: OpenAIUsage | null; // Only with stream_options.include_usage
+}
+
+/**
+ * Request to /v1/completions (legacy text completions)
+ */
+export interface OpenAICompletionRequest extends OpenAIGenerationParams {
+  model: string;
+  prompt?: string | string[]; // Only a single prompt is supported
+  suffix?: string;
+  stream?: boolean;
+  stream_options?: { include_usage?: boolean };
+}
+
+/**
+ * Response from /v1/completions, also the shape of each streamed chunk
+ */
+export interface OpenAICompletionResponse {
+  id: string;
+  object: 'text_completion';
+  created: number; // Unix timestamp in seconds
+  model: string;
+  system_fingerprint: string;
+  choices: Array<{
+    index: number;
+    text: string;
+    logprobs: null;
+    finish_reason: OpenAIFinishReason | null;
+  }>;
+  usage?: OpenAIUsage | null; // Streamed chunks only carry it with stream_options.include_usage
+}
+
+/**
+ * Model entry of /v1/models
+ */
+export interface OpenAIModel {
+  id: string;
+  object: 'model';
+  created: number; // Unix timestamp in seconds
+  owned_by: string;
+}
+
+/**
+ * Response from /v1/models
+ */
+export interface OpenAIModelList {
+  object: 'list';
+  data: OpenAIModel[];
+}
+
+/**
+ * Error body returned by OpenAI-compatible endpoints
+ */
+export interface OpenAIErrorResponse {
+  error: {
+    message: string;
+    type: string;
+    param: string | null;
+    code: string | null;
+  };
+}
@@ -12,13 +12,15 @@ import type { OllamaTool, OllamaMessage } from './ollama.js';
 /**
  * Unified response from LLM
  * 
- * The LLM can return one of three action types:
+ * The LLM can return one of four action types:
  * - tool_call: Call a specific tool with arguments
+ * - tool_calls: Call several tools in the same turn
  * - answer: Generate a natural language answer (e.g., based on tool results)
  * - chat: Respond conversationally (e.g., greetings, small talk)
  */
 export type UnifiedResponse = 
   | ToolCallResponse
+  | MultiToolCallResponse
   | AnswerResponse
   | ChatResponse;
 
@@ -36,6 +38,29 @@ export interface ToolCallResponse {
   arguments: Record<string, any>;
 }
 
+/**
+ * One tool invocation of a multi-call response
+ */
+export interface ToolInvocation {
+  /** Name of the tool to call */
+  tool_name: string;
+
+  /** Arguments for the tool as key-value pairs */
+  arguments: Record<string, any>;
+}
+
+/**
+ * Multi-call response - LLM wants to call several tools at once
+ * (e.g., "turn off the kitchen light and lock the front door")
+ */
+export interface MultiToolCallResponse {
+  /** Action type identifier */
+  action: "tool_calls";
+
+  /** Tool invocations in the order they should run */
+  calls: ToolInvocation[];
+}
+
 /**
  * Answer response - LLM generates an answer based on context (e.g., tool results)
  */
@@ -0,0 +1,113 @@
+/**
+ * Integration tests for cancelling requests on disconnect or deadline
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.hoisted(() => {
+  process.env.REQUEST_TIMEOUT = '1000';
+});
+
+import { fakeOpencode, hang, useTestServer, waitFor } from './testServer.js';
+
+const TOOL_RESULT_MESSAGES = [
+  { role: 'user', content: 'What is the temperature?' },
+  {
+    role: 'assistant',
+    content: '',
+    tool_calls: [{ function: { name: 'GetLiveContext', arguments: {} } }],
+  },
+  { role: 'tool', content: '21 °C' },
+];
+
+/** The main prompt fails, and the fallback prompt after it keeps running */
+function hangInFallback() {
+  fakeOpencode.reply = () => {
+    if (fakeOpencode.prompts.length === 1) {
+      throw new Error('provider unavailable');
+    }
+    return hang();
+  };
+}
+
+describe('Request cancellation', () => {
+  const server = useTestServer({ listen: true });
+
+  /**
+   * Send a chat request and disconnect once the given number of prompts reached OpenCode
+   */
+  async function chatAndDisconnect(messages: unknown[], prompts: number, stream = false) {
+    const req = server.openChat({ stream, messages });
+
+    await waitFor(() => fakeOpencode.prompts.length >= prompts);
+    req.destroy();
+    await waitFor(() => fakeOpencode.aborted.length > 0);
+  }
+
+  function chat(messages: unknown[]) {
+    return server.chat({ messages });
+  }
+
+  describe('when the client disconnects', () => {
+    it('should abort the running prompt', async () => {
+      fakeOpencode.reply = () => hang();
+
+      await chatAndDisconnect([{ role: 'user', content: 'Hello' }], 1);
+
+      expect(fakeOpencode.aborted).toEqual([fakeOpencode.prompts[0]!.sessionId]);
+    });
+
+    it('should abort a streamed response and send no fallback prompt', async () => {
+      fakeOpencode.reply = () => hang();
+
+      await chatAndDisconnect([{ role: 'user', content: 'Hello' }], 1, true);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(fakeOpencode.aborted).toEqual([fakeOpencode.prompts[0]!.sessionId]);
+      expect(fakeOpencode.prompts).toHaveLength(1);
+    });
+
+    it('should abort the error-format prompt', async () => {
+      hangInFallback();
+
+      await chatAndDisconnect([{ role: 'user', content: 'Hello' }], 2);
+
+      const [, errorPrompt] = fakeOpencode.prompts;
+      expect(errorPrompt!.system).toContain('explaining errors');
+      expect(fakeOpencode.aborted).toEqual([errorPrompt!.sessionId]);
+    });
+
+    it('should abort the tool-result answer and send no error-format prompt', async () => {
+      hangInFallback();
+
+      await chatAndDisconnect(TOOL_RESULT_MESSAGES, 2);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const [, answerPrompt] = fakeOpencode.prompts;
+      expect(fakeOpencode.aborted).toEqual([answerPrompt!.sessionId]);
+      expect(fakeOpencode.prompts).toHaveLength(2);
+    });
+  });
+
+  describe('when the deadline passes', () => {
+    it('should abort the running prompt and answer with 504', async () => {
+      fakeOpencode.reply = () => hang();
+
+      const response = await chat([{ role: 'user', content: 'Hello' }]);
+
+      expect(response.statusCode).toBe(504);
+      expect(fakeOpencode.aborted).toEqual([fakeOpencode.prompts[0]!.sessionId]);
+    });
+
+    it('should not turn a cancelled tool-result answer into the raw tool result', async () => {
+      hangInFallback();
+
+      const response = await chat(TOOL_RESULT_MESSAGES);
+
+      expect(response.statusCode).toBe(504);
+      expect(response.json().message?.content).not.toBe('21 °C');
+      expect(fakeOpencode.aborted).toEqual([fakeOpencode.prompts[1]!.sessionId]);
+      expect(fakeOpencode.prompts).toHaveLength(2);
+    });
+  });
+});
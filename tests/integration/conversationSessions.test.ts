@@ -0,0 +1,91 @@
+/**
+ * Integration tests for reusing OpenCode sessions across conversation turns
+ */
+
+import { describe, it, expect } from 'vitest';
+import { fakeOpencode, useTestServer } from './testServer.js';
+
+const SYSTEM = 'You are a smart home assistant.';
+
+describe('Conversation sessions', () => {
+  const server = useTestServer();
+
+  function chat(messages: { role: string; content: string }[], stream = false) {
+    return server.chat({ stream, messages });
+  }
+
+  it('should continue the session of the previous turn with the new messages only', async () => {
+    fakeOpencode.reply = () => '{"action": "chat", "content": "Hi, how can I help?"}';
+    const first = await chat([
+      { role: 'system', content: SYSTEM },
+      { role: 'user', content: 'Hello there' },
+    ]);
+    expect(first.json().message.content).toBe('Hi, how can I help?');
+
+    fakeOpencode.reply = () => '{"action": "chat", "content": "It is sunny."}';
+    const second = await chat([
+      { role: 'system', content: SYSTEM },
+      { role: 'user', content: 'Hello there' },
+      { role: 'assistant', content: 'Hi, how can I help?' },
+      { role: 'user', content: 'How is the weather?' },
+    ]);
+    expect(second.json().message.content).toBe('It is sunny.');
+
+    const [firstPrompt, secondPrompt] = fakeOpencode.prompts;
+    expect(fakeOpencode.created).toHaveLength(1);
+    expect(secondPrompt!.sessionId).toBe(firstPrompt!.sessionId);
+    expect(secondPrompt!.text).toContain('How is the weather?');
+    expect(secondPrompt!.text).not.toContain('Hello there');
+    expect(fakeOpencode.deleted).not.toContain(firstPrompt!.sessionId);
+  });
+
+  it('should start a new session when the history was edited', async () => {
+    await chat([
+      { role: 'system', content: SYSTEM },
+      { role: 'user', content: 'Turn on the light' },
+    ]);
+    await chat([
+      { role: 'system', content: SYSTEM },
+      { role: 'user', content: 'Turn on the light' },
+      { role: 'assistant', content: 'Something the adapter never said' },
+      { role: 'user', content: 'Thanks' },
+    ]);
+
+    const [firstPrompt, secondPrompt] = fakeOpencode.prompts;
+    expect(fakeOpencode.created).toHaveLength(2);
+    expect(secondPrompt!.sessionId).not.toBe(firstPrompt!.sessionId);
+    expect(secondPrompt!.text).toContain('Turn on the light');
+  });
+
+  it('should not take the previous reply for the new one when the event stream drops', async () => {
+    fakeOpencode.reply = () => '{"action": "chat", "content": "Hi, how can I help?"}';
+    await chat([
+      { role: 'system', content: SYSTEM },
+      { role: 'user', content: 'Hello there' },
+    ]);
+
+    // The stream is lost before the model starts answering, so the reply is polled
+    fakeOpencode.reply = async () => {
+      fakeOpencode.dropEvents();
+      await new Promise((resolve) => setTimeout(resolve, 500));
+      return '{"action": "chat", "content": "It is sunny."}';
+    };
+    const second = await chat(
+      [
+        { role: 'system', content: SYSTEM },
+        { role: 'user', content: 'Hello there' },
+        { role: 'assistant', content: 'Hi, how can I help?' },
+        { role: 'user', content: 'How is the weather?' },
+      ],
+      true,
+    );
+
+    const chunks = second.body
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+    const [firstPrompt, secondPrompt] = fakeOpencode.prompts;
+    expect(secondPrompt!.sessionId).toBe(firstPrompt!.sessionId);
+    expect(chunks.map((chunk) => chunk.message?.content || '').join('')).toBe('It is sunny.');
+  });
+});
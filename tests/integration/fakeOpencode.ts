@@ -0,0 +1,336 @@
+/**
+ * In-memory stand-in for the OpenCode SDK client
+ *
+ * Route-level tests get it through testServer.ts, which replaces
+ * createOpencodeClient() with this fake:
+ *
+ * @example
+ * import { fakeOpencode, useTestServer } from './testServer.js';
+ *
+ * fakeOpencode.reply = (prompt) => '{"action": "chat", "content": "Hi"}';
+ *
+ * Sessions, messages and the event stream are kept in memory; every call
+ * the adapter makes is recorded so tests can check what reached OpenCode.
+ */
+
+export interface FakePrompt {
+  sessionId: string;
+  system: string | undefined;
+  text: string;
+
+  /** Tool switches of native tool prompts */
+  tools: Record<string, boolean> | undefined;
+}
+
+/**
+ * A tool call the fake model makes
+ * `tool` is the client's tool name; the OpenCode tool id is looked up
+ * among the tools enabled for the prompt.
+ */
+export interface FakeToolCall {
+  tool: string;
+  input: Record<string, unknown>;
+}
+
+/**
+ * Text the fake model streams in chunks
+ * With `error`, the prompt fails after the last chunk.
+ */
+export interface FakeStreamedReply {
+  chunks: string[];
+  error?: string;
+}
+
+/**
+ * How the fake model replies to a prompt: text, streamed text, tool calls,
+ * or a promise of one (a promise that never settles keeps the prompt running)
+ */
+export type FakeReply = string | FakeStreamedReply | FakeToolCall[];
+
+/** Settles never; the prompt runs until it is aborted */
+export function hang(): Promise<never> {
+  return new Promise(() => {});
+}
+
+/**
+ * Wait until a condition holds, e.g. until a prompt has reached the fake
+ */
+export async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) {
+      throw new Error('Condition not met in time');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+const DEFAULT_REPLY = '{"action": "chat", "content": "Hello"}';
+
+interface FakeSession {
+  id: string;
+  title: string;
+  messages: any[];
+  abortPrompt: (() => void) | null;
+}
+
+export class FakeOpencode {
+  /** Answers every prompt; replace it per test */
+  reply: (prompt: FakePrompt) => FakeReply | Promise<FakeReply> = () => DEFAULT_REPLY;
+
+  /** Whether the event stream can be opened */
+  events = true;
+
+  readonly sessions = new Map<string, FakeSession>();
+  readonly created: string[] = [];
+  readonly deleted: string[] = [];
+  readonly aborted: string[] = [];
+  readonly prompts: FakePrompt[] = [];
+
+  /** session.messages() calls, i.e. polls */
+  messageRequests = 0;
+
+  private nextId = 1;
+  private subscribers = new Set<(event: any) => void>();
+  private streamDrops = new Set<() => void>();
+
+  readonly client = {
+    config: {
+      providers: async () => ({
+        data: {
+          providers: [
+            {
+              id: 'github-copilot',
+              models: {
+                'gpt-4o': {
+                  name: 'GPT-4o',
+                  capabilities: { toolcall: true, reasoning: false, input: { image: false } },
+                },
+              },
+            },
+          ],
+        },
+      }),
+    },
+
+    session: {
+      create: async ({ body }: any) => {
+        const id = this.id('ses');
+        this.sessions.set(id, { id, title: body?.title || '', messages: [], abortPrompt: null });
+        this.created.push(id);
+        return { data: { id } };
+      },
+
+      delete: async ({ path }: any) => {
+        this.sessions.delete(path.id);
+        this.deleted.push(path.id);
+        return { data: true };
+      },
+
+      abort: async ({ path }: any) => {
+        this.aborted.push(path.id);
+        this.sessions.get(path.id)?.abortPrompt?.();
+        return { data: true };
+      },
+
+      list: async () => ({
+        data: [...this.sessions.values()].map(({ id, title }) => ({ id, title })),
+      }),
+
+      messages: async ({ path }: any) => {
+        this.messageRequests++;
+        return { data: this.sessions.get(path.id)?.messages || [] };
+      },
+
+      prompt: ({ path, body }: any) => this.prompt(path.id, body),
+    },
+
+    tool: {
+      ids: async () => ({ data: ['bash', 'read'] }),
+    },
+
+    mcp: {
+      add: async ({ body }: any) => ({ data: { [body.name]: { status: 'connected' } } }),
+    },
+
+    event: {
+      subscribe: async ({ signal }: { signal: AbortSignal }) => {
+        if (!this.events) {
+          throw new Error('event stream unavailable');
+        }
+        return { stream: this.stream(signal) };
+      },
+    },
+  };
+
+  /**
+   * Forget recorded calls and restore the default reply
+   * Sessions are kept, like in a real OpenCode server.
+   */
+  reset(): void {
+    this.reply = () => DEFAULT_REPLY;
+    this.events = true;
+    this.created.length = 0;
+    this.deleted.length = 0;
+    this.aborted.length = 0;
+    this.prompts.length = 0;
+    this.messageRequests = 0;
+  }
+
+  /**
+   * End the open event streams, as if the connection to OpenCode was lost
+   */
+  dropEvents(): void {
+    for (const drop of this.streamDrops) {
+      drop();
+    }
+  }
+
+  private async prompt(sessionId: string, body: any): Promise<any> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+
+    const prompt: FakePrompt = {
+      sessionId,
+      system: body.system,
+      text: body.parts?.find((part: any) => part.type === 'text')?.text || '',
+      tools: body.tools,
+    };
+    this.prompts.push(prompt);
+    session.messages.push({
+      info: { id: this.id('msg'), sessionID: sessionId, role: 'user' },
+      parts: body.parts,
+    });
+
+    const aborted = new Promise<never>((_, reject) => {
+      session.abortPrompt = () => reject(new Error('The operation was aborted'));
+    });
+    let reply: FakeReply;
+    try {
+      reply = await Promise.race([this.reply(prompt), aborted]);
+    } finally {
+      session.abortPrompt = null;
+    }
+
+    // The assistant message appears once the model starts answering
+    const info: any = {
+      id: this.id('msg'),
+      sessionID: sessionId,
+      role: 'assistant',
+      time: { created: Date.now() },
+    };
+    const message = { info, parts: [] as any[] };
+    session.messages.push(message);
+    this.emit({ type: 'message.updated', properties: { info } });
+
+    if (!Array.isArray(reply)) {
+      const { chunks, error } = typeof reply === 'string' ? { chunks: [reply], error: undefined } : reply;
+      const part = this.addPart(message, { type: 'text', text: '', time: { start: Date.now() } });
+      for (const chunk of chunks) {
+        part.text += chunk;
+        this.emit({ type: 'message.part.updated', properties: { part } });
+      }
+      if (error) {
+        // Let the streamed chunks arrive first
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        throw new Error(error);
+      }
+
+      part.time.end = Date.now();
+      info.finish = 'stop';
+      info.time.completed = Date.now();
+      this.emit({ type: 'message.updated', properties: { info } });
+      this.emit({ type: 'session.idle', properties: { sessionID: sessionId } });
+      return { data: message };
+    }
+
+    // Tool calls stay running: the adapter aborts the session once it has them
+    for (const call of reply) {
+      const toolId = Object.keys(prompt.tools || {}).find(
+        (id) => prompt.tools![id] && id.endsWith(`__${call.tool}`),
+      );
+      this.addPart(message, {
+        type: 'tool',
+        tool: toolId || call.tool,
+        state: { status: 'running', input: call.input },
+      });
+    }
+    return new Promise((_, reject) => {
+      session.abortPrompt = () => reject(new Error('The operation was aborted'));
+    });
+  }
+
+  private addPart(message: any, part: any): any {
+    const full = {
+      id: this.id('prt'),
+      sessionID: message.info.sessionID,
+      messageID: message.info.id,
+      ...part,
+    };
+    message.parts.push(full);
+    this.emit({ type: 'message.part.updated', properties: { part: full } });
+    return full;
+  }
+
+  private emit(event: any): void {
+    // Events are delivered later; they must not see later changes
+    for (const subscriber of this.subscribers) {
+      subscriber(structuredClone(event));
+    }
+  }
+
+  private async *stream(signal: AbortSignal): AsyncGenerator<any> {
+    const queue: any[] = [{ type: 'server.connected', properties: {} }];
+    let wake = () => {};
+    const subscriber = (event: any) => {
+      queue.push(event);
+      wake();
+    };
+    const onAbort = () => wake();
+    let dropped = false;
+    const drop = () => {
+      dropped = true;
+      wake();
+    };
+
+    this.subscribers.add(subscriber);
+    this.streamDrops.add(drop);
+    signal.addEventListener('abort', onAbort);
+    try {
+      while (!signal.aborted) {
+        if (dropped) {
+          throw new Error('event stream lost');
+        }
+        const event = queue.shift();
+        if (event) {
+          yield event;
+          continue;
+        }
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+        });
+      }
+    } finally {
+      this.subscribers.delete(subscriber);
+      this.streamDrops.delete(drop);
+      signal.removeEventListener('abort', onAbort);
+    }
+  }
+
+  private id(prefix: string): string {
+    return `${prefix}_${this.nextId++}`;
+  }
+}
+
+export const fakeOpencode = new FakeOpencode();
+
+/**
+ * Module factory for vi.mock('@opencode-ai/sdk')
+ */
+export function mockSdk() {
+  return {
+    createOpencodeClient: () => fakeOpencode.client,
+  };
+}
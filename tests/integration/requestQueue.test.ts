@@ -0,0 +1,53 @@
+/**
+ * Integration tests for the request queue in front of the generation endpoints
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.hoisted(() => {
+  process.env.MAX_CONCURRENT_REQUESTS = '1';
+  process.env.MAX_QUEUED_REQUESTS = '1';
+});
+
+import { fakeOpencode, hang, useTestServer, waitFor } from './testServer.js';
+import { getRequestQueue } from '../../src/services/requestQueue.js';
+
+const MESSAGES = [{ role: 'user', content: 'Hello' }];
+
+describe('Request queue', () => {
+  const server = useTestServer({ listen: true });
+
+  function chat(stream = false) {
+    return server.chat({ stream, messages: MESSAGES });
+  }
+
+  it('should release the slot once a response is sent', async () => {
+    expect((await chat()).statusCode).toBe(200);
+    expect((await chat(true)).statusCode).toBe(200);
+
+    expect(getRequestQueue().running).toBe(0);
+    expect((await server.app.inject({ url: '/health' })).json().queue).toEqual({ running: 0, queued: 0 });
+  });
+
+  it('should turn requests away while the slot and the queue are taken', async () => {
+    fakeOpencode.reply = (prompt) =>
+      fakeOpencode.prompts.indexOf(prompt) === 0 ? hang() : '{"action": "chat", "content": "Hi"}';
+
+    const req = server.openChat({ messages: MESSAGES });
+    await waitFor(() => fakeOpencode.prompts.length === 1);
+
+    const queued = chat();
+    await waitFor(() => getRequestQueue().queued === 1);
+
+    const rejected = await chat();
+    expect(rejected.statusCode).toBe(503);
+    expect(rejected.headers['retry-after']).toBeDefined();
+
+    // The disconnected client's slot goes to the queued request
+    req.destroy();
+    const response = await queued;
+    expect(response.statusCode).toBe(200);
+    expect(response.json().message.content).toBe('Hi');
+    await waitFor(() => getRequestQueue().running === 0);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Integration tests for following replies on the OpenCode event stream
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.hoisted(() => {
+  process.env.NATIVE_TOOL_MODELS = 'github-copilot/gpt-4o';
+});
+
+import { fakeOpencode, useTestServer } from './testServer.js';
+import { getOpencodeService } from '../../src/services/opencode.js';
+
+const LIGHT_TOOL = {
+  type: 'function',
+  function: {
+    name: 'HassTurnOn',
+    description: 'Turns on a device',
+    parameters: { type: 'object', properties: { name: { type: 'string' } } },
+  },
+};
+
+describe('Session events', () => {
+  const server = useTestServer();
+
+  beforeEach(async () => {
+    // Reconnect so every test opens the event stream anew
+    await getOpencodeService().close();
+    await getOpencodeService().connect();
+  });
+
+  function chat(content: string, tools: unknown[] = []) {
+    return server.chat({ messages: [{ role: 'user', content }], tools });
+  }
+
+  describe('JSON action prompts', () => {
+    it('should take the reply from the event stream without polling', async () => {
+      fakeOpencode.reply = () => '{"action": "chat", "content": "Hi there"}';
+
+      const response = await chat('Hello');
+
+      expect(response.json().message.content).toBe('Hi there');
+      // Only the earlier replies of the conversation session are counted
+      expect(fakeOpencode.messageRequests).toBe(1);
+    });
+
+    it('should poll when the event stream is unavailable', async () => {
+      fakeOpencode.events = false;
+      await getOpencodeService().close();
+      await getOpencodeService().connect();
+      fakeOpencode.reply = () => '{"action": "chat", "content": "Hi there"}';
+
+      const response = await chat('Hello');
+
+      expect(response.json().message.content).toBe('Hi there');
+      expect(fakeOpencode.messageRequests).toBeGreaterThan(0);
+    });
+  });
+
+  describe('native tool calling', () => {
+    it('should capture tool calls from the event stream without polling', async () => {
+      fakeOpencode.reply = () => [{ tool: 'HassTurnOn', input: { name: 'Kitchen light' } }];
+
+      const response = await chat('Turn on the kitchen light', [LIGHT_TOOL]);
+
+      expect(response.json().message.tool_calls).toEqual([
+        { function: { name: 'HassTurnOn', arguments: { name: 'Kitchen light' } } },
+      ]);
+      expect(fakeOpencode.messageRequests).toBe(0);
+      expect(fakeOpencode.aborted).toEqual([fakeOpencode.prompts[0]!.sessionId]);
+    });
+
+    it('should take a text answer from the event stream without polling', async () => {
+      fakeOpencode.reply = () => 'The kitchen light is already on.';
+
+      const response = await chat('Is the kitchen light on?', [LIGHT_TOOL]);
+
+      expect(response.json().message.content).toBe('The kitchen light is already on.');
+      expect(fakeOpencode.messageRequests).toBe(0);
+    });
+
+    it('should poll for tool calls when the event stream is unavailable', async () => {
+      fakeOpencode.events = false;
+      await getOpencodeService().close();
+      await getOpencodeService().connect();
+      fakeOpencode.reply = () => [{ tool: 'HassTurnOn', input: { name: 'Kitchen light' } }];
+
+      const response = await chat('Turn on the kitchen light', [LIGHT_TOOL]);
+
+      expect(response.json().message.tool_calls).toEqual([
+        { function: { name: 'HassTurnOn', arguments: { name: 'Kitchen light' } } },
+      ]);
+      expect(fakeOpencode.messageRequests).toBeGreaterThan(0);
+    });
+  });
+});
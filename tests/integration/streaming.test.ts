@@ -0,0 +1,49 @@
+/**
+ * Integration tests for streamed responses
+ */
+
+import { describe, it, expect } from 'vitest';
+import { fakeOpencode, useTestServer } from './testServer.js';
+
+describe('Streaming', () => {
+  const server = useTestServer();
+
+  async function streamChat() {
+    const response = await server.chat({
+      stream: true,
+      messages: [{ role: 'user', content: 'Tell me a joke' }],
+    });
+    return response.body
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+  }
+
+  it('should stream the content once', async () => {
+    fakeOpencode.reply = () => ({
+      chunks: ['{"action": "chat", "content": "Why did', ' the chicken cross the road?"}'],
+    });
+
+    const chunks = await streamChat();
+    const content = chunks.map((chunk) => chunk.message?.content || '').join('');
+
+    expect(content).toBe('Why did the chicken cross the road?');
+    expect(chunks[chunks.length - 1].done).toBe(true);
+  });
+
+  it('should end the stream with an error when it breaks off', async () => {
+    fakeOpencode.reply = () => ({
+      chunks: ['{"action": "chat", "content": "Why did'],
+      error: 'connection reset',
+    });
+
+    const chunks = await streamChat();
+    const content = chunks.map((chunk) => chunk.message?.content || '').join('');
+
+    // Streamed content cannot be replaced, so no fallback prompt is sent
+    expect(fakeOpencode.prompts).toHaveLength(1);
+    expect(content).toBe('Why did');
+    expect(chunks[chunks.length - 1]).toEqual({ error: 'connection reset' });
+    expect(chunks.some((chunk) => chunk.done)).toBe(false);
+  });
+});
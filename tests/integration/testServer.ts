@@ -0,0 +1,111 @@
+/**
+ * Adapter server for route-level tests, backed by the fake OpenCode client
+ *
+ * Importing this module replaces the OpenCode SDK with fakeOpencode. A test
+ * file that needs more environment sets it in its own vi.hoisted() block,
+ * which runs before this module is imported.
+ *
+ * @example
+ * vi.hoisted(() => {
+ *   process.env.REQUEST_TIMEOUT = '1000';
+ * });
+ *
+ * import { fakeOpencode, useTestServer } from './testServer.js';
+ *
+ * const server = useTestServer();
+ * const response = await server.chat({ messages: [{ role: 'user', content: 'Hi' }] });
+ */
+
+import { vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { request as httpRequest, type ClientRequest } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { LightMyRequestResponse } from 'fastify';
+
+vi.hoisted(() => {
+  process.env.LOG_LEVEL = 'silent';
+  process.env.MODEL_ALIAS_FILE = '/nonexistent/model-aliases.json';
+});
+vi.mock('@opencode-ai/sdk', async () => (await import('./fakeOpencode.js')).mockSdk());
+
+import { fakeOpencode } from './fakeOpencode.js';
+import { createServer } from '../../src/server.js';
+import { getOpencodeService } from '../../src/services/opencode.js';
+
+export { fakeOpencode, hang, waitFor } from './fakeOpencode.js';
+
+/** The one model the fake OpenCode client offers */
+export const TEST_MODEL = 'github-copilot/gpt-4o';
+
+type App = Awaited<ReturnType<typeof createServer>>;
+
+export interface TestServer {
+  app: App;
+
+  /** Port of the real connection, with `listen` */
+  port: number;
+
+  /**
+   * POST /api/chat with the test model; stream defaults to false
+   */
+  chat(body: Record<string, unknown>): Promise<LightMyRequestResponse>;
+
+  /**
+   * POST /api/chat over a real connection, for disconnect tests
+   * Needs `listen`; `destroy()` the request to disconnect.
+   */
+  openChat(body: Record<string, unknown>): ClientRequest;
+}
+
+/**
+ * Start the server and connect to the fake OpenCode client for the tests
+ * of the calling file; recorded calls are reset before every test
+ *
+ * @param listen - Also listen on a local port, for tests that need a real connection
+ */
+export function useTestServer({ listen = false } = {}): TestServer {
+  const server: TestServer = {
+    app: undefined as unknown as App,
+    port: 0,
+
+    chat(body) {
+      return server.app.inject({
+        method: 'POST',
+        url: '/api/chat',
+        payload: { model: TEST_MODEL, stream: false, ...body },
+      });
+    },
+
+    openChat(body) {
+      const req = httpRequest({
+        host: '127.0.0.1',
+        port: server.port,
+        method: 'POST',
+        path: '/api/chat',
+        headers: { 'Content-Type': 'application/json' },
+      });
+      req.on('error', () => {});
+      req.end(JSON.stringify({ model: TEST_MODEL, stream: false, ...body }));
+      return req;
+    },
+  };
+
+  beforeAll(async () => {
+    await getOpencodeService().connect();
+    server.app = await createServer();
+    if (listen) {
+      await server.app.listen({ host: '127.0.0.1', port: 0 });
+      server.port = (server.app.server.address() as AddressInfo).port;
+    }
+  });
+
+  afterAll(async () => {
+    await server.app.close();
+    await getOpencodeService().close();
+  });
+
+  beforeEach(() => {
+    fakeOpencode.reset();
+  });
+
+  return server;
+}
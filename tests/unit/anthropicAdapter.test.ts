@@ -0,0 +1,294 @@
+/**
+ * Unit tests for Anthropic adapter
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  convertAnthropicRequestToOllama,
+  convertAnthropicMessagesToOllama,
+  convertUnifiedResponseToAnthropic,
+  createAnthropicMessageStart,
+  convertErrorToAnthropic,
+  createMessageId,
+  getAnthropicStopReason,
+} from '../../src/adapters/anthropicAdapter.js';
+import type { AnthropicMessagesRequest, AnthropicTool } from '../../src/types/anthropic.js';
+import type { TokenUsage } from '../../src/services/tokenUsage.js';
+
+const weatherTool: AnthropicTool = {
+  name: 'get_weather',
+  description: 'Get the weather',
+  input_schema: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] },
+};
+
+const timeTool: AnthropicTool = {
+  name: 'get_time',
+  input_schema: { type: 'object', properties: {} },
+};
+
+const usage: TokenUsage = {
+  promptTokens: 200,
+  completionTokens: 25,
+  loadMs: 0,
+  promptEvalMs: 100,
+  evalMs: 400,
+  promptCount: 1,
+  estimated: false,
+};
+
+describe('Anthropic Adapter', () => {
+  describe('convertAnthropicMessagesToOllama', () => {
+    it('should convert string and text block content', () => {
+      expect(
+        convertAnthropicMessagesToOllama([
+          { role: 'user', content: 'Hi' },
+          { role: 'assistant', content: [{ type: 'text', text: 'Hello!' }] },
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: 'What is' },
+              { type: 'image', source: { type: 'url', url: 'https://example.com/a.png' } },
+              { type: 'text', text: 'this?' },
+            ],
+          },
+        ]),
+      ).toEqual([
+        { role: 'user', content: 'Hi' },
+        { role: 'assistant', content: 'Hello!' },
+        { role: 'user', content: 'What is\nthis?' },
+      ]);
+    });
+
+    it('should convert tool_use and tool_result blocks', () => {
+      const messages = convertAnthropicMessagesToOllama([
+        { role: 'user', content: 'Weather in Tokyo and the time?' },
+        {
+          role: 'assistant',
+          content: [
+            { type: 'text', text: 'Let me check.' },
+            { type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: { city: 'Tokyo' } },
+            { type: 'tool_use', id: 'toolu_2', name: 'get_time', input: {} },
+          ],
+        },
+        {
+          role: 'user',
+          content: [
+            { type: 'tool_result', tool_use_id: 'toolu_1', content: 'Sunny' },
+            { type: 'tool_result', tool_use_id: 'toolu_2', content: [{ type: 'text', text: '10:00' }] },
+          ],
+        },
+      ]);
+
+      expect(messages).toEqual([
+        { role: 'user', content: 'Weather in Tokyo and the time?' },
+        {
+          role: 'assistant',
+          content: 'Let me check.',
+          tool_calls: [
+            { function: { name: 'get_weather', arguments: { city: 'Tokyo' } } },
+            { function: { name: 'get_time', arguments: {} } },
+          ],
+        },
+        { role: 'tool', content: 'Sunny', tool_name: 'get_weather' },
+        { role: 'tool', content: '10:00', tool_name: 'get_time' },
+      ]);
+    });
+
+    it('should mark failed tool results and keep text next to them', () => {
+      const messages = convertAnthropicMessagesToOllama([
+        {
+          role: 'user',
+          content: [
+            { type: 'tool_result', tool_use_id: 'toolu_9', content: 'timeout', is_error: true },
+            { type: 'text', text: 'Try again' },
+          ],
+        },
+      ]);
+
+      expect(messages).toEqual([
+        { role: 'tool', content: 'Error: timeout' },
+        { role: 'user', content: 'Try again' },
+      ]);
+    });
+  });
+
+  describe('images', () => {
+    it('should attach base64 images to user messages and tool results', () => {
+      const image = { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0KGgo' } };
+      const messages = convertAnthropicMessagesToOllama([
+        { role: 'user', content: [{ type: 'text', text: 'What is this?' }, image] },
+        {
+          role: 'assistant',
+          content: [{ type: 'tool_use', id: 'toolu_1', name: 'camera_snapshot', input: {} }],
+        },
+        {
+          role: 'user',
+          content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: [{ type: 'text', text: 'Snapshot' }, image] }],
+        },
+      ]);
+
+      expect(messages[0]).toEqual({
+        role: 'user',
+        content: 'What is this?',
+        images: ['data:image/png;base64,iVBORw0KGgo'],
+      });
+      expect(messages[2]).toEqual({
+        role: 'tool',
+        content: 'Snapshot',
+        tool_name: 'camera_snapshot',
+        images: ['data:image/png;base64,iVBORw0KGgo'],
+      });
+    });
+  });
+
+  describe('convertAnthropicRequestToOllama', () => {
+    const baseRequest: AnthropicMessagesRequest = {
+      model: 'anthropic/claude-sonnet-4',
+      max_tokens: 256,
+      messages: [{ role: 'user', content: 'Hi' }],
+      tools: [weatherTool, timeTool],
+    };
+
+    it('should add the system prompt and convert tools', () => {
+      const { request, requireToolCall } = convertAnthropicRequestToOllama({
+        ...baseRequest,
+        system: [{ type: 'text', text: 'Be brief' }],
+      });
+
+      expect(request.messages[0]).toEqual({ role: 'system', content: 'Be brief' });
+      expect(request.tools?.[0]?.function).toEqual({
+        name: 'get_weather',
+        description: 'Get the weather',
+        parameters: weatherTool.input_schema,
+      });
+      expect(requireToolCall).toBe(false);
+    });
+
+    it('should map tool_choice', () => {
+      expect(
+        convertAnthropicRequestToOllama({ ...baseRequest, tool_choice: { type: 'none' } }).request.tools,
+      ).toBeUndefined();
+      expect(
+        convertAnthropicRequestToOllama({ ...baseRequest, tool_choice: { type: 'any' } }).requireToolCall,
+      ).toBe(true);
+
+      const named = convertAnthropicRequestToOllama({
+        ...baseRequest,
+        tool_choice: { type: 'tool', name: 'get_time' },
+      });
+      expect(named.request.tools?.map((t) => t.function.name)).toEqual(['get_time']);
+      expect(named.requireToolCall).toBe(true);
+    });
+
+    it('should map stop_sequences, max_tokens and sampling options', () => {
+      const { request } = convertAnthropicRequestToOllama({
+        ...baseRequest,
+        stop_sequences: ['\n\nHuman:'],
+        temperature: 0.5,
+        top_k: 40,
+      });
+
+      expect(request.options).toEqual({
+        stop: ['\n\nHuman:'],
+        num_predict: 256,
+        temperature: 0.5,
+        top_k: 40,
+      });
+    });
+  });
+
+  describe('convertUnifiedResponseToAnthropic', () => {
+    it('should convert tool calls to tool_use blocks', () => {
+      const response = convertUnifiedResponseToAnthropic(
+        {
+          action: 'tool_calls',
+          calls: [
+            { tool_name: 'get_weather', arguments: { city: 'Tokyo' } },
+            { tool_name: 'get_time', arguments: {} },
+          ],
+        },
+        'claude-sonnet-4',
+        'msg_1',
+      );
+
+      expect(response.type).toBe('message');
+      expect(response.stop_reason).toBe('tool_use');
+      expect(response.content).toHaveLength(2);
+      expect(response.content[0]).toMatchObject({
+        type: 'tool_use',
+        name: 'get_weather',
+        input: { city: 'Tokyo' },
+      });
+      expect(response.content[0]?.type === 'tool_use' && response.content[0].id).toMatch(/^toolu_/);
+    });
+
+    it('should convert text responses with usage', () => {
+      const response = convertUnifiedResponseToAnthropic(
+        { action: 'chat', content: 'Hello!' },
+        'claude-sonnet-4',
+        'msg_2',
+        { doneReason: 'stop', stopSequence: null },
+        usage,
+      );
+
+      expect(response).toEqual({
+        id: 'msg_2',
+        type: 'message',
+        role: 'assistant',
+        model: 'claude-sonnet-4',
+        content: [{ type: 'text', text: 'Hello!' }],
+        stop_reason: 'end_turn',
+        stop_sequence: null,
+        usage: { input_tokens: 200, output_tokens: 25 },
+      });
+    });
+
+    it('should report the stop sequence that ended the text', () => {
+      const response = convertUnifiedResponseToAnthropic(
+        { action: 'answer', content: 'Sunny' },
+        'claude-sonnet-4',
+        'msg_3',
+        { doneReason: 'stop', stopSequence: '.' },
+      );
+
+      expect(response.stop_reason).toBe('stop_sequence');
+      expect(response.stop_sequence).toBe('.');
+    });
+  });
+
+  describe('getAnthropicStopReason', () => {
+    it('should report max_tokens when the output was cut', () => {
+      expect(
+        getAnthropicStopReason({ action: 'chat', content: 'x' }, { doneReason: 'length', stopSequence: null }),
+      ).toBe('max_tokens');
+    });
+  });
+
+  describe('createAnthropicMessageStart', () => {
+    it('should create an empty message', () => {
+      expect(createAnthropicMessageStart('msg_4', 'claude-sonnet-4')).toMatchObject({
+        id: 'msg_4',
+        content: [],
+        stop_reason: null,
+        usage: { input_tokens: 0, output_tokens: 0 },
+      });
+    });
+  });
+
+  describe('convertErrorToAnthropic', () => {
+    it('should create the Anthropic error envelope', () => {
+      expect(convertErrorToAnthropic('bad', 'invalid_request_error')).toEqual({
+        type: 'error',
+        error: { type: 'invalid_request_error', message: 'bad' },
+      });
+    });
+  });
+
+  describe('createMessageId', () => {
+    it('should create unique msg_ ids', () => {
+      const id = createMessageId();
+      expect(id).toMatch(/^msg_[0-9a-f]+$/);
+      expect(createMessageId()).not.toBe(id);
+    });
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Unit tests for request cancellation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  RequestCancellation,
+  RequestCancelledError,
+  raceCancellation,
+  throwIfCancelled,
+  toCancellation,
+} from '../../src/services/cancellation.js';
+
+describe('RequestCancellation', () => {
+  it('should abort with the first reason', () => {
+    const cancellation = new RequestCancellation(0);
+    cancellation.cancel('client_disconnected');
+    cancellation.cancel('deadline_exceeded');
+
+    expect(cancellation.signal.aborted).toBe(true);
+    expect(toCancellation(cancellation.signal).reason).toBe('client_disconnected');
+    expect(toCancellation(cancellation.signal).message).toBe('Request cancelled: client disconnected');
+  });
+
+  it('should abort when the deadline passes', async () => {
+    const cancellation = new RequestCancellation(10);
+    await new Promise((resolve) => setTimeout(resolve, 30));
+
+    expect(toCancellation(cancellation.signal).reason).toBe('deadline_exceeded');
+  });
+
+  it('should not abort after it is disposed', async () => {
+    const cancellation = new RequestCancellation(10);
+    cancellation.dispose();
+    await new Promise((resolve) => setTimeout(resolve, 30));
+
+    expect(cancellation.signal.aborted).toBe(false);
+  });
+});
+
+describe('throwIfCancelled', () => {
+  it('should only throw for an aborted signal', () => {
+    expect(() => throwIfCancelled(undefined)).not.toThrow();
+    expect(() => throwIfCancelled(new AbortController().signal)).not.toThrow();
+
+    // Signals aborted by others are cancellations too
+    const controller = new AbortController();
+    controller.abort();
+    expect(() => throwIfCancelled(controller.signal)).toThrow(RequestCancelledError);
+    expect(toCancellation(controller.signal).reason).toBe('aborted');
+  });
+});
+
+describe('raceCancellation', () => {
+  it('should settle like the promise while not cancelled', async () => {
+    const cancellation = new RequestCancellation(0);
+
+    await expect(raceCancellation(Promise.resolve('done'), cancellation.signal)).resolves.toBe('done');
+    await expect(raceCancellation(Promise.reject(new Error('boom')), cancellation.signal))
+      .rejects.toThrow('boom');
+    await expect(raceCancellation(Promise.resolve('done'), undefined)).resolves.toBe('done');
+  });
+
+  it('should reject as soon as the request is cancelled', async () => {
+    const cancellation = new RequestCancellation(0);
+    const pending = raceCancellation(new Promise(() => {}), cancellation.signal);
+
+    cancellation.cancel('client_disconnected');
+
+    await expect(pending).rejects.toThrow('Request cancelled: client disconnected');
+  });
+});
@@ -74,6 +74,20 @@ describe('ConversationHelper', () => {
     { role: 'assistant', content: 'Light is off.' }
   ];
 
+  const conversationWithParallelToolCalls: OllamaMessage[] = [
+    { role: 'user', content: 'Turn off the kitchen light and lock the front door' },
+    {
+      role: 'assistant',
+      content: '',
+      tool_calls: [
+        { function: { name: 'HassTurnOff', arguments: { name: 'Kitchen Light' } } },
+        { function: { name: 'HassLock', arguments: { name: 'Front Door' } } },
+      ]
+    },
+    { role: 'tool', tool_name: 'HassTurnOff', content: 'Kitchen light turned off' },
+    { role: 'tool', tool_name: 'HassLock', content: 'Front door locked' },
+  ];
+
   describe('getLastUserMessage', () => {
     it('should return empty string for empty history', () => {
       expect(ConversationHelper.getLastUserMessage(emptyHistory)).toBe('');
@@ -134,6 +148,11 @@ describe('ConversationHelper', () => {
       expect(result).not.toContain('Tool Result');
     });
 
+    it('should show every tool call of a turn', () => {
+      const result = ConversationHelper.formatConversationHistory(conversationWithParallelToolCalls);
+      expect(result).toContain('Assistant: [Called HassTurnOff, HassLock]');
+    });
+
     it('should hide tool calls when includeToolCalls is false', () => {
       const result = ConversationHelper.formatConversationHistory(
         conversationWithToolCall,
@@ -258,6 +277,13 @@ describe('ConversationHelper', () => {
       expect(result).toContain('"area":"Living Room"');
     });
 
+    it('should include every tool call of a turn', () => {
+      const result = ConversationHelper.buildToolSelectionContext(conversationWithParallelToolCalls);
+      expect(result).toContain(
+        'Assistant: [Executed HassTurnOff({"name":"Kitchen Light"}), HassLock({"name":"Front Door"})]'
+      );
+    });
+
     it('should respect maxMessages parameter', () => {
       const result = ConversationHelper.buildToolSelectionContext(
         conversationWithMultipleToolCalls,
@@ -279,6 +305,65 @@ describe('ConversationHelper', () => {
     });
   });
 
+  describe('getLastToolResults', () => {
+    it('should return empty when the last message is not a tool result', () => {
+      expect(ConversationHelper.getLastToolResults(conversationWithToolCall)).toEqual([]);
+      expect(ConversationHelper.getLastToolResults(emptyHistory)).toEqual([]);
+    });
+
+    it('should return a single tool result', () => {
+      const history = conversationWithToolCall.slice(0, 3);
+      expect(ConversationHelper.getLastToolResults(history)).toEqual([
+        { role: 'tool', content: 'Light turned on successfully' }
+      ]);
+    });
+
+    it('should return all results of a multi-call turn in order', () => {
+      const results = ConversationHelper.getLastToolResults(conversationWithParallelToolCalls);
+      expect(results.map(msg => msg.content)).toEqual([
+        'Kitchen light turned off',
+        'Front door locked'
+      ]);
+    });
+  });
+
+  describe('getCurrentImages', () => {
+    it('should return images of the last user message and the tool results after it', () => {
+      const history: OllamaMessage[] = [
+        { role: 'user', content: 'Old photo', images: ['old'] },
+        { role: 'assistant', content: 'Nice' },
+        { role: 'user', content: 'Is the garage open?', images: ['question'] },
+        { role: 'assistant', content: '', tool_calls: [{ function: { name: 'camera_snapshot', arguments: {} } }] },
+        { role: 'tool', content: 'Snapshot taken', images: ['snapshot'] },
+      ];
+
+      expect(ConversationHelper.getCurrentImages(history)).toEqual(['question', 'snapshot']);
+    });
+
+    it('should return empty without images', () => {
+      expect(ConversationHelper.getCurrentImages(conversationWithToolCall)).toEqual([]);
+      expect(ConversationHelper.getCurrentImages(emptyHistory)).toEqual([]);
+    });
+  });
+
+  describe('formatImageNote', () => {
+    it('should count attached images', () => {
+      expect(ConversationHelper.formatImageNote({ role: 'user', content: 'Hi' })).toBe('');
+      expect(ConversationHelper.formatImageNote({ role: 'user', content: 'Hi', images: ['a'] }))
+        .toBe(' [1 image attached]');
+      expect(ConversationHelper.formatImageNote({ role: 'tool', content: 'ok', images: ['a', 'b'] }))
+        .toBe(' [2 images attached]');
+    });
+
+    it('should mark images in the formatted history', () => {
+      const result = ConversationHelper.formatConversationHistory([
+        { role: 'user', content: 'What is this?', images: ['a'] },
+        { role: 'assistant', content: 'A cat' },
+      ]);
+      expect(result).toContain('User: What is this? [1 image attached]');
+    });
+  });
+
   describe('getOriginalUserRequest', () => {
     it('should return empty for empty history', () => {
       expect(ConversationHelper.getOriginalUserRequest(emptyHistory)).toBe('');
@@ -0,0 +1,130 @@
+/**
+ * Unit tests for conversation session reuse
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ConversationSessionStore,
+  fingerprintConversation,
+  splitConversation,
+  toAssistantMessage,
+  type ConversationPrefix,
+} from '../../src/services/conversationSessions.js';
+import type { OllamaMessage } from '../../src/types/ollama.js';
+
+const prefix: ConversationPrefix = {
+  model: 'github-copilot/gpt-4o',
+  systemContext: 'You control a smart home.',
+  tools: [
+    {
+      type: 'function',
+      function: {
+        name: 'HassTurnOn',
+        description: 'Turn on a device',
+        parameters: { type: 'object', properties: { name: { type: 'string' } } },
+      },
+    },
+  ],
+};
+
+const user: OllamaMessage = { role: 'user', content: 'Turn on the kitchen light' };
+
+function createStore(ttlMs = 1000) {
+  let time = 0;
+  const expired: string[] = [];
+  const store = new ConversationSessionStore(ttlMs, (id) => expired.push(id), () => time);
+  return {
+    store,
+    expired,
+    advance: (ms: number) => {
+      time += ms;
+    },
+  };
+}
+
+describe('splitConversation', () => {
+  it('should split after the last assistant message', () => {
+    const assistant = toAssistantMessage({ action: 'tool_call', tool_name: 'HassTurnOn', arguments: {} });
+    const tool: OllamaMessage = { role: 'tool', content: 'OK' };
+
+    expect(splitConversation([user, assistant, tool])).toEqual({
+      previous: [user, assistant],
+      added: [tool],
+    });
+  });
+
+  it('should treat a conversation without replies as new', () => {
+    expect(splitConversation([user])).toEqual({ previous: [], added: [user] });
+  });
+});
+
+describe('fingerprintConversation', () => {
+  it('should match the reply as the client sends it back', () => {
+    const response = { action: 'tool_call' as const, tool_name: 'HassTurnOn', arguments: { name: 'Kitchen' } };
+    const stored = fingerprintConversation(prefix, [user, toAssistantMessage(response)]);
+
+    // Arguments reformatted by the client do not matter
+    const echoed: OllamaMessage = {
+      role: 'assistant',
+      content: '',
+      tool_calls: [{ function: { name: 'HassTurnOn', arguments: { name: 'kitchen', area: null } } }],
+    };
+    expect(fingerprintConversation(prefix, [user, echoed])).toBe(stored);
+  });
+
+  it('should change when the history diverges', () => {
+    const reply = toAssistantMessage({ action: 'chat', content: 'Hi!' });
+    const fingerprint = fingerprintConversation(prefix, [user, reply]);
+
+    expect(fingerprintConversation(prefix, [{ role: 'user', content: 'Hello' }, reply])).not.toBe(fingerprint);
+    expect(fingerprintConversation(prefix, [user, { role: 'assistant', content: 'Hello!' }])).not.toBe(fingerprint);
+    expect(fingerprintConversation({ ...prefix, systemContext: 'Other' }, [user, reply])).not.toBe(fingerprint);
+    expect(fingerprintConversation({ ...prefix, tools: [] }, [user, reply])).not.toBe(fingerprint);
+    expect(fingerprintConversation({ ...prefix, model: 'anthropic/claude-sonnet-4' }, [user, reply]))
+      .not.toBe(fingerprint);
+  });
+});
+
+describe('ConversationSessionStore', () => {
+  it('should hand out a stored session once', () => {
+    const { store } = createStore();
+    store.put('abc', 'ses_1');
+
+    expect(store.take('abc')).toBe('ses_1');
+    expect(store.take('abc')).toBeUndefined();
+    expect(store.take('other')).toBeUndefined();
+  });
+
+  it('should expire idle sessions', () => {
+    const { store, expired, advance } = createStore(1000);
+    store.put('abc', 'ses_1');
+    store.put('def', 'ses_2');
+
+    advance(500);
+    store.put('def', 'ses_2'); // Used again
+    advance(600);
+
+    expect(store.take('abc')).toBeUndefined();
+    expect(expired).toEqual(['ses_1']);
+    expect(store.take('def')).toBe('ses_2');
+  });
+
+  it('should expire a session replaced under the same fingerprint', () => {
+    const { store, expired } = createStore();
+    store.put('abc', 'ses_1');
+    store.put('abc', 'ses_2');
+
+    expect(expired).toEqual(['ses_1']);
+    expect(store.take('abc')).toBe('ses_2');
+  });
+
+  it('should expire every session on clear', () => {
+    const { store, expired } = createStore();
+    store.put('abc', 'ses_1');
+    store.put('def', 'ses_2');
+    store.clear();
+
+    expect(expired).toEqual(['ses_1', 'ses_2']);
+    expect(store.size).toBe(0);
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Unit tests for embeddings
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  EmbeddingService,
+  EmbeddingInputTooLongError,
+  OpenAICompatibleEmbeddingProvider,
+  normalizeEmbedding,
+  type EmbeddingProvider,
+  type EmbeddingRequest,
+} from '../../src/services/embeddings.js';
+import { RequestCancellation, RequestCancelledError } from '../../src/services/cancellation.js';
+import { estimateTokens } from '../../src/services/tokenizer.js';
+
+/**
+ * Local stand-in embedder: a 4-dimensional vector derived from the text
+ */
+class StandInEmbedder implements EmbeddingProvider {
+  readonly requests: EmbeddingRequest[] = [];
+
+  constructor(private readonly promptTokens = 0) {}
+
+  async embed(request: EmbeddingRequest) {
+    this.requests.push(request);
+    return {
+      embeddings: request.inputs.map((input) => [input.length, 1, 2, 2]),
+      promptTokens: this.promptTokens,
+    };
+  }
+}
+
+describe('Embeddings', () => {
+  describe('EmbeddingService', () => {
+    it('should embed inputs in order with unit-length vectors', async () => {
+      const embedder = new StandInEmbedder(12);
+      const service = new EmbeddingService(embedder, { maxInputTokens: 100 });
+
+      const result = await service.embed('nomic-embed-text', ['abcd', 'ab']);
+
+      expect(result.model).toBe('nomic-embed-text');
+      expect(result.embeddings).toEqual([
+        [0.8, 0.2, 0.4, 0.4],
+        normalizeEmbedding([2, 1, 2, 2]),
+      ]);
+      expect(result.promptTokens).toBe(12);
+      expect(embedder.requests[0]?.inputs).toEqual(['abcd', 'ab']);
+    });
+
+    it('should keep raw vectors when normalization is off', async () => {
+      const service = new EmbeddingService(new StandInEmbedder(), { maxInputTokens: 100 });
+
+      const result = await service.embed('m', ['abc'], { normalize: false });
+
+      expect(result.embeddings).toEqual([[3, 1, 2, 2]]);
+    });
+
+    it('should use the configured model for every request', async () => {
+      const embedder = new StandInEmbedder();
+      const service = new EmbeddingService(embedder, {
+        maxInputTokens: 100,
+        model: 'text-embedding-3-small',
+      });
+
+      const result = await service.embed('nomic-embed-text', ['a']);
+
+      expect(embedder.requests[0]?.model).toBe('text-embedding-3-small');
+      expect(result.model).toBe('text-embedding-3-small');
+    });
+
+    it('should shorten vectors to the requested dimensions', async () => {
+      const embedder = new StandInEmbedder();
+      const service = new EmbeddingService(embedder, { maxInputTokens: 100 });
+
+      const result = await service.embed('m', ['abc'], { dimensions: 2 });
+
+      expect(embedder.requests[0]?.dimensions).toBe(2);
+      expect(result.embeddings[0]).toHaveLength(2);
+      expect(result.embeddings[0]?.[0]).toBeCloseTo(3 / Math.sqrt(10));
+    });
+
+    it('should truncate long inputs by default', async () => {
+      const embedder = new StandInEmbedder();
+      const service = new EmbeddingService(embedder, { maxInputTokens: 5 });
+
+      await service.embed('m', ['one two three four five six seven']);
+
+      expect(embedder.requests[0]?.inputs).toEqual(['one two three four five']);
+    });
+
+    it('should reject long inputs when truncation is off', async () => {
+      const service = new EmbeddingService(new StandInEmbedder(), { maxInputTokens: 5 });
+
+      await expect(
+        service.embed('m', ['short', 'one two three four five six seven'], { truncate: false }),
+      ).rejects.toThrow(EmbeddingInputTooLongError);
+      await expect(
+        service.embed('m', ['one two three four five six seven'], { truncate: false }),
+      ).rejects.toThrow('input 0 is 7 tokens long, which exceeds the maximum of 5');
+    });
+
+    it('should estimate tokens when the provider reports none', async () => {
+      const service = new EmbeddingService(new StandInEmbedder(), { maxInputTokens: 100 });
+
+      const result = await service.embed('m', ['Turn on the living room light', 'hi']);
+
+      expect(result.promptTokens).toBe(estimateTokens('Turn on the living room light') + 1);
+    });
+
+    it('should not call the provider for empty input', async () => {
+      const embedder = new StandInEmbedder();
+      const service = new EmbeddingService(embedder, { maxInputTokens: 100 });
+
+      expect(await service.embed('m', [])).toEqual({ model: 'm', embeddings: [], promptTokens: 0 });
+      expect(embedder.requests).toHaveLength(0);
+    });
+
+    it('should report whether a provider is configured', async () => {
+      const service = new EmbeddingService(null, { maxInputTokens: 100 });
+
+      expect(service.isAvailable()).toBe(false);
+      await expect(service.embed('m', ['a'])).rejects.toThrow('no embedding provider is configured');
+    });
+  });
+
+  describe('OpenAICompatibleEmbeddingProvider', () => {
+    it('should call /embeddings and return vectors in input order', async () => {
+      const fetchFn = vi.fn(async () =>
+        new Response(
+          JSON.stringify({
+            data: [
+              { index: 1, embedding: [0, 1] },
+              { index: 0, embedding: [1, 0] },
+            ],
+            usage: { prompt_tokens: 4 },
+          }),
+        ),
+      );
+      const provider = new OpenAICompatibleEmbeddingProvider('http://embedder/v1/', 'secret', fetchFn);
+
+      const result = await provider.embed({ model: 'text-embedding-3-small', inputs: ['a', 'b'], dimensions: 2 });
+
+      expect(result).toEqual({ embeddings: [[1, 0], [0, 1]], promptTokens: 4 });
+      const [url, init] = fetchFn.mock.calls[0] as unknown as [string, RequestInit];
+      expect(url).toBe('http://embedder/v1/embeddings');
+      expect(init.headers).toMatchObject({ Authorization: 'Bearer secret' });
+      expect(JSON.parse(init.body as string)).toEqual({
+        model: 'text-embedding-3-small',
+        input: ['a', 'b'],
+        encoding_format: 'float',
+        dimensions: 2,
+      });
+    });
+
+    it('should report failed requests', async () => {
+      const fetchFn = vi.fn(async () => new Response('model not found', { status: 404 }));
+      const provider = new OpenAICompatibleEmbeddingProvider('http://embedder/v1', '', fetchFn);
+
+      await expect(provider.embed({ model: 'x', inputs: ['a'] })).rejects.toThrow(
+        'embedding request failed with status 404: model not found',
+      );
+    });
+
+    it('should reject responses with a missing embedding', async () => {
+      const fetchFn = vi.fn(async () => new Response(JSON.stringify({ data: [] })));
+      const provider = new OpenAICompatibleEmbeddingProvider('http://embedder/v1', '', fetchFn);
+
+      await expect(provider.embed({ model: 'x', inputs: ['a'] })).rejects.toThrow(
+        'embedding response does not contain one embedding per input',
+      );
+    });
+
+    it('should give up on a stalled request once it is cancelled', async () => {
+      // Never answers, like an unreachable endpoint, until the signal aborts the fetch
+      const fetchFn = vi.fn(
+        (_url: string, init?: RequestInit) =>
+          new Promise<Response>((_resolve, reject) => {
+            init?.signal?.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+          }),
+      );
+      const provider = new OpenAICompatibleEmbeddingProvider('http://embedder/v1', '', fetchFn);
+      const cancellation = new RequestCancellation(20);
+
+      const error = await provider
+        .embed({ model: 'x', inputs: ['a'], signal: cancellation.signal })
+        .catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(RequestCancelledError);
+      expect((error as RequestCancelledError).reason).toBe('deadline_exceeded');
+    });
+  });
+
+  describe('normalizeEmbedding', () => {
+    it('should scale to unit length and keep zero vectors', () => {
+      expect(normalizeEmbedding([3, 4])).toEqual([0.6, 0.8]);
+      expect(normalizeEmbedding([0, 0])).toEqual([0, 0]);
+    });
+  });
+});
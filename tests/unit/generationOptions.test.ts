@@ -0,0 +1,142 @@
+/**
+ * Unit tests for generation options and output limits
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  CHARS_PER_TOKEN,
+  OutputLimiter,
+  applyOutputLimits,
+  getIgnoredOptions,
+  getOutputLimits,
+  warnIgnoredOptions,
+} from '../../src/services/generationOptions.js';
+
+describe('Generation Options', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('getOutputLimits', () => {
+    it('should convert num_predict to a character limit', () => {
+      expect(getOutputLimits({ num_predict: 10 })).toEqual({
+        stop: [],
+        maxChars: 10 * CHARS_PER_TOKEN,
+      });
+    });
+
+    it('should treat -1 and -2 as unlimited', () => {
+      expect(getOutputLimits({ num_predict: -1 }).maxChars).toBeNull();
+      expect(getOutputLimits({ num_predict: -2 }).maxChars).toBeNull();
+    });
+
+    it('should drop empty stop sequences', () => {
+      expect(getOutputLimits({ stop: ['', '\n\n'] }).stop).toEqual(['\n\n']);
+    });
+
+    it('should handle missing options', () => {
+      expect(getOutputLimits(undefined)).toEqual({ stop: [], maxChars: null });
+    });
+  });
+
+  describe('getIgnoredOptions', () => {
+    it('should list options that cannot be honored', () => {
+      expect(
+        getIgnoredOptions({ temperature: 0.2, seed: 42, stop: ['x'], num_predict: 5 }),
+      ).toEqual(['temperature', 'seed']);
+    });
+  });
+
+  describe('warnIgnoredOptions', () => {
+    it('should warn once per option', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      warnIgnoredOptions({ mirostat_tau: 5 });
+      warnIgnoredOptions({ mirostat_tau: 4 });
+
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn.mock.calls[0]?.[0]).toContain('mirostat_tau');
+    });
+  });
+
+  describe('applyOutputLimits', () => {
+    it('should leave text without limits unchanged', () => {
+      expect(applyOutputLimits('Hello', { stop: [], maxChars: null })).toEqual({
+        text: 'Hello',
+        doneReason: 'stop',
+      });
+    });
+
+    it('should cut before the first stop sequence', () => {
+      expect(
+        applyOutputLimits('Hi there.\nUser: next\n\nEnd', { stop: ['\n\n', '\nUser:'], maxChars: null }),
+      ).toEqual({ text: 'Hi there.', doneReason: 'stop' });
+    });
+
+    it('should cap the length and report "length"', () => {
+      expect(applyOutputLimits('abcdefghij', { stop: [], maxChars: 4 })).toEqual({
+        text: 'abcd',
+        doneReason: 'length',
+      });
+    });
+
+    it('should not split surrogate pairs', () => {
+      expect(applyOutputLimits('😀😀😀', { stop: [], maxChars: 2 }).text).toBe('😀😀');
+    });
+
+    it('should report "stop" when the stop sequence comes first', () => {
+      expect(applyOutputLimits('ab.cdef', { stop: ['.'], maxChars: 4 })).toEqual({
+        text: 'ab',
+        doneReason: 'stop',
+      });
+    });
+  });
+
+  describe('OutputLimiter', () => {
+    it('should hold back a possible stop sequence across pieces', () => {
+      const limiter = new OutputLimiter({ stop: ['###'], maxChars: null });
+
+      expect(limiter.push('Hello #')).toBe('Hello ');
+      expect(limiter.push('#')).toBe('');
+      expect(limiter.push('# ignored')).toBe('');
+      expect(limiter.isFinished()).toBe(true);
+      expect(limiter.push('more')).toBe('');
+      expect(limiter.flush()).toBe('');
+      expect(limiter.getDoneReason()).toBe('stop');
+    });
+
+    it('should release held text when the stop sequence does not complete', () => {
+      const limiter = new OutputLimiter({ stop: ['###'], maxChars: null });
+
+      expect(limiter.push('a #')).toBe('a ');
+      expect(limiter.push('#b')).toBe('##b');
+      expect(limiter.push(' #')).toBe(' ');
+      expect(limiter.flush()).toBe('#');
+    });
+
+    it('should report the stop sequence that ended the output', () => {
+      const limiter = new OutputLimiter({ stop: ['END', '\n\n'], maxChars: null });
+
+      expect(limiter.getStopSequence()).toBeNull();
+      expect(limiter.push('one\n\ntwo END')).toBe('one');
+      expect(limiter.getStopSequence()).toBe('\n\n');
+    });
+
+    it('should not report a stop sequence beyond the length limit', () => {
+      const limiter = new OutputLimiter({ stop: ['.'], maxChars: 2 });
+
+      expect(limiter.push('abc.')).toBe('ab');
+      expect(limiter.getDoneReason()).toBe('length');
+      expect(limiter.getStopSequence()).toBeNull();
+    });
+
+    it('should cap the total length across pieces', () => {
+      const limiter = new OutputLimiter({ stop: [], maxChars: 5 });
+
+      expect(limiter.push('abc')).toBe('abc');
+      expect(limiter.push('defg')).toBe('de');
+      expect(limiter.push('h')).toBe('');
+      expect(limiter.getDoneReason()).toBe('length');
+    });
+  });
+});
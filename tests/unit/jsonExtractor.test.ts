@@ -0,0 +1,157 @@
+/**
+ * Unit tests for JSON extraction from LLM output
+ */
+
+import { describe, it, expect } from 'vitest';
+import { extractJson, repairJson } from '../../src/services/jsonExtractor.js';
+
+const isAction = (value: unknown) => typeof (value as any)?.action === 'string';
+
+describe('extractJson', () => {
+  it('should parse plain JSON', () => {
+    expect(extractJson('{"action": "chat", "content": "Hi"}')).toEqual({
+      ok: true,
+      value: { action: 'chat', content: 'Hi' },
+      candidates: 1,
+    });
+  });
+
+  it('should extract JSON from prose and code fences', () => {
+    const output = 'Sure! Here is the call:\n```json\n{"action": "tool_call", "tool_name": "HassTurnOn", "arguments": {"name": "Kitchen"}}\n```\nLet me know if you need anything else.';
+
+    expect(extractJson(output)).toMatchObject({
+      ok: true,
+      value: { action: 'tool_call', tool_name: 'HassTurnOn', arguments: { name: 'Kitchen' } },
+    });
+  });
+
+  it('should extract deeply nested objects', () => {
+    const output = 'Calling: {"action": "tool_calls", "calls": [{"tool_name": "light.turn_on", "arguments": {"entity_id": "light.kitchen", "data": {"rgb_color": [255, 0, 0], "transition": {"seconds": 2}}}}]}';
+
+    const result = extractJson(output);
+    expect(result.ok && (result.value as any).calls[0].arguments.data.transition).toEqual({ seconds: 2 });
+  });
+
+  it('should ignore braces and quotes inside strings', () => {
+    const output = 'Answer: {"action": "chat", "content": "Use {curly} braces, \\"quotes\\" and a } alone"}';
+
+    expect(extractJson(output)).toMatchObject({
+      ok: true,
+      value: { action: 'chat', content: 'Use {curly} braces, "quotes" and a } alone' },
+    });
+  });
+
+  it('should ignore apostrophes in the prose around the JSON', () => {
+    const output = "Here's what I'll do: {\"action\": \"answer\", \"content\": \"It's 21°C\"} that's it";
+
+    expect(extractJson(output)).toMatchObject({
+      ok: true,
+      value: { action: 'answer', content: "It's 21°C" },
+    });
+  });
+
+  it('should pick the object the caller accepts', () => {
+    const output = 'The user asked about {city}. {"action": "tool_call", "tool_name": "get_weather", "arguments": {"city": "Tokyo"}}';
+
+    expect(extractJson(output, isAction)).toEqual({
+      ok: true,
+      value: { action: 'tool_call', tool_name: 'get_weather', arguments: { city: 'Tokyo' } },
+      candidates: 1,
+    });
+  });
+
+  it('should count multiple objects and return the first accepted one', () => {
+    const output = '{"action": "chat", "content": "First"}\n{"action": "chat", "content": "Second"}';
+
+    expect(extractJson(output, isAction)).toEqual({
+      ok: true,
+      value: { action: 'chat', content: 'First' },
+      candidates: 2,
+    });
+  });
+
+  it('should fall back to an accepted nested object', () => {
+    const output = '{"response": {"action": "chat", "content": "Hi"}}';
+
+    expect(extractJson(output, isAction)).toMatchObject({
+      ok: true,
+      value: { action: 'chat', content: 'Hi' },
+    });
+  });
+
+  it('should return the first value when none is accepted', () => {
+    expect(extractJson('{"a": 1} and {"b": 2}', isAction)).toEqual({
+      ok: true,
+      value: { a: 1 },
+      candidates: 2,
+    });
+  });
+
+  it('should repair almost-JSON objects', () => {
+    const output = `I'll turn on the light.
+{
+  // Kitchen light
+  'action': 'tool_call',
+  tool_name: "HassTurnOn",
+  "arguments": {"name": "Kitchen", "on": True,},
+}`;
+
+    expect(extractJson(output)).toMatchObject({
+      ok: true,
+      value: { action: 'tool_call', tool_name: 'HassTurnOn', arguments: { name: 'Kitchen', on: true } },
+    });
+  });
+
+  it('should repair smart quotes', () => {
+    expect(extractJson('{“action”: “chat”, “content”: “Hello”}')).toMatchObject({
+      ok: true,
+      value: { action: 'chat', content: 'Hello' },
+    });
+  });
+
+  it('should repair raw line breaks inside strings', () => {
+    expect(extractJson('{"action": "chat", "content": "Line one\nLine two"}')).toMatchObject({
+      ok: true,
+      value: { action: 'chat', content: 'Line one\nLine two' },
+    });
+  });
+
+  it('should skip objects that cannot be parsed or are never closed', () => {
+    expect(extractJson('{not json at all} {"action": "chat", "content": "Hi"}')).toMatchObject({
+      ok: true,
+      value: { action: 'chat', content: 'Hi' },
+    });
+    expect(extractJson('{"action": "chat", "content": "Hi"')).toEqual({
+      ok: false,
+      error: 'no JSON object or array found',
+    });
+  });
+
+  it('should fail without JSON', () => {
+    expect(extractJson('The weather is nice.')).toEqual({ ok: false, error: 'no JSON object or array found' });
+    expect(extractJson('  ')).toEqual({ ok: false, error: 'response is empty' });
+  });
+});
+
+describe('repairJson', () => {
+  it('should leave valid JSON unchanged', () => {
+    const json = '{"a": [1, 2.5, -3e2], "b": {"c": null, "d": false}, "e": "x, }"}';
+    expect(JSON.parse(repairJson(json))).toEqual(JSON.parse(json));
+  });
+
+  it('should drop trailing commas before comments', () => {
+    expect(repairJson('[1, 2, /* end */ ]')).toBe('[1, 2  ]');
+  });
+
+  it('should decode escapes in single-quoted strings', () => {
+    expect(JSON.parse(repairJson("{'text': 'It\\'s \\u00e9t\\u00e9'}"))).toEqual({ text: "It's été" });
+  });
+
+  it('should convert Python literals', () => {
+    expect(JSON.parse(repairJson("{'on': True, 'off': False, 'value': None}"))).toEqual({
+      on: true,
+      off: false,
+      value: null,
+    });
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Unit tests for JSON Schema validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { validateJsonSchema, getJsonType, coerceToSchema } from '../../src/services/jsonSchema.js';
+
+describe('validateJsonSchema', () => {
+  const weatherSchema = {
+    type: 'object',
+    properties: {
+      city: { type: 'string', minLength: 1 },
+      temperature: { type: 'number' },
+      unit: { type: 'string', enum: ['celsius', 'fahrenheit'] },
+      tags: { type: 'array', items: { type: 'string' } },
+    },
+    required: ['city', 'temperature'],
+    additionalProperties: false,
+  };
+
+  it('should accept a valid value', () => {
+    expect(
+      validateJsonSchema(
+        { city: 'Tokyo', temperature: 21.5, unit: 'celsius', tags: ['sunny'] },
+        weatherSchema,
+      ),
+    ).toEqual([]);
+  });
+
+  it('should report missing required properties', () => {
+    expect(validateJsonSchema({ city: 'Tokyo' }, weatherSchema)).toEqual([
+      "$: missing required property 'temperature'",
+    ]);
+  });
+
+  it('should report type mismatches with their path', () => {
+    expect(
+      validateJsonSchema({ city: 'Tokyo', temperature: '21', tags: ['a', 3] }, weatherSchema),
+    ).toEqual([
+      '$.temperature: expected number, got string',
+      '$.tags[1]: expected string, got integer',
+    ]);
+  });
+
+  it('should report enum violations and unexpected properties', () => {
+    expect(
+      validateJsonSchema({ city: 'Tokyo', temperature: 20, unit: 'kelvin', wind: 3 }, weatherSchema),
+    ).toEqual([
+      '$.unit: must be one of "celsius", "fahrenheit"',
+      "$: unexpected property 'wind'",
+    ]);
+  });
+
+  it('should treat integers as numbers but not the other way round', () => {
+    expect(validateJsonSchema(3, { type: 'number' })).toEqual([]);
+    expect(validateJsonSchema(3.5, { type: 'integer' })).toEqual([
+      '$: expected integer, got number',
+    ]);
+  });
+
+  it('should support type arrays and nullable', () => {
+    expect(validateJsonSchema(null, { type: ['string', 'null'] })).toEqual([]);
+    expect(validateJsonSchema(null, { type: 'string', nullable: true })).toEqual([]);
+    expect(validateJsonSchema(1, { type: ['string', 'null'] })).toEqual([
+      '$: expected string or null, got integer',
+    ]);
+  });
+
+  it('should check string, number and array bounds', () => {
+    expect(validateJsonSchema('', { type: 'string', minLength: 1 })).toEqual([
+      '$: must be at least 1 characters',
+    ]);
+    expect(validateJsonSchema('abc', { type: 'string', pattern: '^[0-9]+$' })).toEqual([
+      '$: must match pattern ^[0-9]+$',
+    ]);
+    expect(validateJsonSchema(101, { type: 'integer', maximum: 100 })).toEqual([
+      '$: must be <= 100',
+    ]);
+    expect(validateJsonSchema([1, 1], { type: 'array', maxItems: 1, uniqueItems: true })).toEqual([
+      '$: must have at most 1 items',
+      '$[1]: duplicate item',
+    ]);
+  });
+
+  it('should validate additionalProperties schemas', () => {
+    expect(
+      validateJsonSchema({ a: 1, b: 'x' }, { type: 'object', additionalProperties: { type: 'integer' } }),
+    ).toEqual(['$.b: expected integer, got string']);
+  });
+
+  it('should validate anyOf and report the closest alternative', () => {
+    const schema = {
+      anyOf: [
+        { type: 'object', properties: { kind: { const: 'light' } }, required: ['kind'] },
+        { type: 'string' },
+      ],
+    };
+
+    expect(validateJsonSchema('on', schema)).toEqual([]);
+    expect(validateJsonSchema({ kind: 'fan' }, schema)).toEqual([
+      '$: does not match any allowed schema',
+      '$.kind: must be "light"',
+    ]);
+  });
+
+  it('should reject values matching several oneOf schemas', () => {
+    expect(validateJsonSchema(1, { oneOf: [{ type: 'integer' }, { type: 'number' }] })).toEqual([
+      '$: matches more than one allowed schema',
+    ]);
+  });
+
+  it('should resolve local $defs references', () => {
+    const schema = {
+      type: 'object',
+      properties: { address: { $ref: '#/$defs/Address' } },
+      $defs: {
+        Address: {
+          type: 'object',
+          properties: { zip: { type: 'string' } },
+          required: ['zip'],
+        },
+      },
+    };
+
+    expect(validateJsonSchema({ address: { zip: '100-0001' } }, schema)).toEqual([]);
+    expect(validateJsonSchema({ address: {} }, schema)).toEqual([
+      "$.address: missing required property 'zip'",
+    ]);
+  });
+
+  it('should follow recursive references into nested values', () => {
+    const schema = {
+      type: 'object',
+      properties: { name: { type: 'string' }, children: { type: 'array', items: { $ref: '#' } } },
+    };
+
+    expect(validateJsonSchema({ name: 'a', children: [{ name: 'b', children: [] }] }, schema)).toEqual([]);
+    expect(validateJsonSchema({ children: [{ name: 1 }] }, schema)).toEqual([
+      '$.children[0].name: expected string, got integer',
+    ]);
+  });
+
+  it('should report circular references instead of overflowing', () => {
+    expect(validateJsonSchema({}, { $ref: '#' })).toEqual(['$: circular schema reference #']);
+    expect(
+      validateJsonSchema('x', {
+        $ref: '#/$defs/A',
+        $defs: { A: { anyOf: [{ $ref: '#/$defs/B' }] }, B: { allOf: [{ $ref: '#/$defs/A' }] } },
+      }),
+    ).toContain('$: circular schema reference #/$defs/A');
+  });
+
+  it('should only count own properties as present', () => {
+    const schema = { type: 'object', properties: {}, required: ['toString', 'constructor'] };
+
+    expect(validateJsonSchema({}, schema)).toEqual([
+      "$: missing required property 'toString'",
+      "$: missing required property 'constructor'",
+    ]);
+    expect(validateJsonSchema({ constructor: 'x' }, { type: 'object', properties: {} })).toEqual([]);
+  });
+
+  it('should ignore unknown keywords', () => {
+    expect(validateJsonSchema('x', { type: 'string', format: 'email', title: 'Email' })).toEqual([]);
+  });
+});
+
+describe('coerceToSchema', () => {
+  const lightSchema = {
+    type: 'object',
+    properties: {
+      name: { type: 'string' },
+      brightness: { type: 'integer', minimum: 0, maximum: 100 },
+      transition: { type: 'number' },
+      on: { type: 'boolean' },
+      area: { type: 'array', items: { type: 'string' } },
+      color: { type: 'string', enum: ['red', 'green', 'blue'] },
+    },
+  };
+
+  it('should convert numeric and boolean strings', () => {
+    expect(coerceToSchema({ brightness: '80', transition: ' 1.5 ', on: 'TRUE' }, lightSchema)).toEqual({
+      brightness: 80,
+      transition: 1.5,
+      on: true,
+    });
+  });
+
+  it('should wrap single values where an array is expected', () => {
+    expect(coerceToSchema({ area: 'Kitchen' }, lightSchema)).toEqual({ area: ['Kitchen'] });
+  });
+
+  it('should convert scalars to strings and match enum case', () => {
+    expect(coerceToSchema({ name: 42, color: 'Red' }, lightSchema)).toEqual({ name: '42', color: 'red' });
+  });
+
+  it('should leave ambiguous values alone', () => {
+    const value = { brightness: 'bright', transition: '1.5s', on: 'yes', color: 'purple' };
+    expect(coerceToSchema(value, lightSchema)).toEqual(value);
+    expect(coerceToSchema({ brightness: '80.5' }, lightSchema)).toEqual({ brightness: '80.5' });
+  });
+
+  it('should not modify the input', () => {
+    const value = { brightness: '80' };
+    coerceToSchema(value, lightSchema);
+    expect(value).toEqual({ brightness: '80' });
+  });
+
+  it('should follow references and pick a matching alternative', () => {
+    const schema = {
+      type: 'object',
+      properties: {
+        level: { $ref: '#/$defs/Level' },
+        target: { anyOf: [{ type: 'integer' }, { type: 'array', items: { type: 'integer' } }] },
+      },
+      $defs: { Level: { type: 'integer' } },
+    };
+
+    expect(coerceToSchema({ level: '3', target: '7' }, schema)).toEqual({ level: 3, target: 7 });
+  });
+
+  it('should stop at circular references', () => {
+    expect(coerceToSchema({ a: '1' }, { $ref: '#' })).toEqual({ a: '1' });
+    expect(
+      coerceToSchema('1', { anyOf: [{ $ref: '#' }, { type: 'integer' }] }),
+    ).toBe(1);
+  });
+});
+
+describe('getJsonType', () => {
+  it('should name JSON types', () => {
+    expect(getJsonType(null)).toBe('null');
+    expect(getJsonType([])).toBe('array');
+    expect(getJsonType(1)).toBe('integer');
+    expect(getJsonType(1.5)).toBe('number');
+    expect(getJsonType({})).toBe('object');
+    expect(getJsonType('a')).toBe('string');
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Unit tests for ModelAliasStore
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  ModelAliasStore,
+  normalizeAliasName,
+  isValidAliasName,
+  type ModelAlias,
+} from '../../src/services/modelAliasStore.js';
+
+const haAssistant: ModelAlias = {
+  name: 'ha-assistant',
+  from: 'anthropic/claude-sonnet-4',
+  system: 'You are the house assistant.',
+  parameters: { temperature: 0.3 },
+  modified_at: '2026-01-01T00:00:00.000Z',
+};
+
+describe('ModelAliasStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'model-aliases-'));
+    filePath = join(dir, 'nested', 'aliases.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should start empty when the file does not exist', async () => {
+    const store = new ModelAliasStore(filePath);
+
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('should save aliases with a normalized name', async () => {
+    const store = new ModelAliasStore(filePath);
+
+    const saved = await store.save(haAssistant);
+
+    expect(saved.name).toBe('ha-assistant:latest');
+    expect(await store.get('ha-assistant')).toEqual(saved);
+    expect(await store.get('ha-assistant:latest')).toEqual(saved);
+  });
+
+  it('should persist aliases across instances', async () => {
+    await new ModelAliasStore(filePath).save(haAssistant);
+
+    const reloaded = new ModelAliasStore(filePath);
+
+    expect((await reloaded.list()).map((a) => a.name)).toEqual(['ha-assistant:latest']);
+    expect(JSON.parse(await readFile(filePath, 'utf-8'))).toHaveLength(1);
+  });
+
+  it('should replace an alias with the same name', async () => {
+    const store = new ModelAliasStore(filePath);
+
+    await store.save(haAssistant);
+    await store.save({ ...haAssistant, system: 'Updated persona.' });
+
+    const aliases = await store.list();
+    expect(aliases).toHaveLength(1);
+    expect(aliases[0]?.system).toBe('Updated persona.');
+  });
+
+  it('should delete aliases', async () => {
+    const store = new ModelAliasStore(filePath);
+    await store.save(haAssistant);
+
+    expect(await store.delete('ha-assistant')).toBe(true);
+    expect(await store.delete('ha-assistant')).toBe(false);
+    expect(await new ModelAliasStore(filePath).list()).toEqual([]);
+  });
+
+  it('should list aliases sorted by name', async () => {
+    const store = new ModelAliasStore(filePath);
+
+    await Promise.all([
+      store.save({ ...haAssistant, name: 'zeta' }),
+      store.save({ ...haAssistant, name: 'alpha:v2' }),
+    ]);
+
+    expect((await store.list()).map((a) => a.name)).toEqual(['alpha:v2', 'zeta:latest']);
+    expect(await new ModelAliasStore(filePath).list()).toHaveLength(2);
+  });
+
+  describe('alias names', () => {
+    it('should add the :latest tag when missing', () => {
+      expect(normalizeAliasName('jarvis')).toBe('jarvis:latest');
+      expect(normalizeAliasName('jarvis:v2')).toBe('jarvis:v2');
+    });
+
+    it('should validate alias names', () => {
+      expect(isValidAliasName('ha-assistant')).toBe(true);
+      expect(isValidAliasName('ha_assistant.v2:latest')).toBe(true);
+      expect(isValidAliasName('')).toBe(false);
+      expect(isValidAliasName('anthropic/claude')).toBe(false);
+      expect(isValidAliasName('bad name')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,389 @@
+/**
+ * Unit tests for ModelCatalog
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { Provider } from '@opencode-ai/sdk';
+import {
+  ModelCatalog,
+  buildCatalogModels,
+  getModelFamily,
+  parseModelName,
+} from '../../src/services/modelCatalog.js';
+import type { OpencodeService } from '../../src/services/opencode.js';
+import type { ModelAlias, ModelAliasStore } from '../../src/services/modelAliasStore.js';
+import { convertCatalogModelToOllama } from '../../src/adapters/ollamaAdapter.js';
+
+/**
+ * Build a minimal OpenCode provider with the given models
+ */
+function makeProvider(
+  id: string,
+  models: Record<
+    string,
+    { name: string; context?: number; output?: number; vision?: boolean; reasoning?: boolean }
+  >,
+): Provider {
+  return {
+    id,
+    name: id,
+    source: 'api',
+    env: [],
+    options: {},
+    models: Object.fromEntries(
+      Object.entries(models).map(([modelID, m]) => [
+        modelID,
+        {
+          id: modelID,
+          providerID: id,
+          name: m.name,
+          limit: { context: m.context ?? 0, output: m.output ?? 0 },
+          capabilities: {
+            toolcall: true,
+            reasoning: m.reasoning ?? false,
+            input: { image: m.vision ?? false },
+          },
+        },
+      ]),
+    ),
+  } as unknown as Provider;
+}
+
+const sampleProviders: Provider[] = [
+  makeProvider('openai', {
+    'gpt-4o': { name: 'GPT-4o', context: 128000, output: 16384 },
+  }),
+  makeProvider('anthropic', {
+    'claude-sonnet-4': {
+      name: 'Claude Sonnet 4',
+      context: 200000,
+      output: 64000,
+      vision: true,
+      reasoning: true,
+    },
+  }),
+];
+
+function makeService(listProviders: () => Promise<Provider[]>): OpencodeService {
+  return { listProviders } as unknown as OpencodeService;
+}
+
+describe('ModelCatalog', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('buildCatalogModels', () => {
+    it('should create provider/model entries sorted by name', () => {
+      const models = buildCatalogModels(sampleProviders);
+
+      expect(models.map((m) => m.name)).toEqual([
+        'anthropic/claude-sonnet-4',
+        'openai/gpt-4o',
+      ]);
+    });
+
+    it('should carry family and limits from provider metadata', () => {
+      const [claude] = buildCatalogModels(sampleProviders);
+
+      expect(claude).toEqual({
+        name: 'anthropic/claude-sonnet-4',
+        providerID: 'anthropic',
+        modelID: 'claude-sonnet-4',
+        displayName: 'Claude Sonnet 4',
+        family: 'claude',
+        contextLength: 200000,
+        outputLimit: 64000,
+        capabilities: { toolCall: true, vision: true, reasoning: true },
+      });
+    });
+
+    it('should default capabilities when OpenCode has no metadata', () => {
+      const provider = {
+        id: 'custom',
+        models: { local: { id: 'local', name: 'Local' } },
+      } as unknown as Provider;
+
+      const [model] = buildCatalogModels([provider]);
+
+      expect(model?.capabilities).toEqual({ toolCall: false, vision: false, reasoning: false });
+      expect(model?.contextLength).toBe(0);
+    });
+
+    it('should return empty list for no providers', () => {
+      expect(buildCatalogModels([])).toEqual([]);
+    });
+  });
+
+  describe('getModelFamily', () => {
+    it('should derive family from the model ID', () => {
+      expect(getModelFamily('claude-sonnet-4')).toBe('claude');
+      expect(getModelFamily('gpt-4o')).toBe('gpt');
+      expect(getModelFamily('Gemini-2.5-pro')).toBe('gemini');
+    });
+
+    it('should use the last segment of nested model IDs', () => {
+      expect(getModelFamily('anthropic/claude-3.5-sonnet')).toBe('claude');
+    });
+  });
+
+  describe('listModels', () => {
+    it('should cache the model list until the refresh interval passes', async () => {
+      vi.useFakeTimers();
+      const listProviders = vi.fn(async () => sampleProviders);
+      const catalog = new ModelCatalog(makeService(listProviders), 60000);
+
+      await catalog.listModels();
+      await catalog.listModels();
+      expect(listProviders).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(60001);
+      await catalog.listModels();
+      expect(listProviders).toHaveBeenCalledTimes(2);
+    });
+
+    it('should always include the configured default model', async () => {
+      const catalog = new ModelCatalog(makeService(async () => []), 60000);
+
+      const models = await catalog.listModels();
+
+      expect(models).toHaveLength(1);
+      expect(models[0]?.name).toBe('github-copilot/gpt-4o');
+    });
+
+    it('should keep the previous list when a refresh fails', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const listProviders = vi
+        .fn<() => Promise<Provider[]>>()
+        .mockResolvedValueOnce(sampleProviders)
+        .mockRejectedValueOnce(new Error('connection refused'));
+      const catalog = new ModelCatalog(makeService(listProviders), 60000);
+
+      const first = await catalog.refresh();
+      const second = await catalog.refresh();
+
+      expect(second).toEqual(first);
+      expect(second.some((m) => m.name === 'openai/gpt-4o')).toBe(true);
+    });
+
+    it('should share one request between concurrent refreshes', async () => {
+      const listProviders = vi.fn(async () => sampleProviders);
+      const catalog = new ModelCatalog(makeService(listProviders), 60000);
+
+      await Promise.all([catalog.refresh(), catalog.refresh(), catalog.listModels()]);
+
+      expect(listProviders).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('convertCatalogModelToOllama', () => {
+    it('should convert to an Ollama tags entry', () => {
+      const [claude] = buildCatalogModels(sampleProviders);
+      const model = convertCatalogModelToOllama(claude!, '2026-01-01T00:00:00.000Z');
+
+      expect(model.name).toBe('anthropic/claude-sonnet-4');
+      expect(model.model).toBe('anthropic/claude-sonnet-4');
+      expect(model.modified_at).toBe('2026-01-01T00:00:00.000Z');
+      expect(model.digest).toMatch(/^[0-9a-f]{64}$/);
+      expect(model.details.family).toBe('claude');
+      expect(model.details.families).toEqual(['claude']);
+      expect(model.details.context_length).toBe(200000);
+    });
+
+    it('should omit unknown context length', () => {
+      const model = convertCatalogModelToOllama(
+        {
+          name: 'x/y',
+          providerID: 'x',
+          modelID: 'y',
+          displayName: 'y',
+          family: 'y',
+          contextLength: 0,
+          outputLimit: 0,
+          capabilities: { toolCall: false, vision: false, reasoning: false },
+        },
+        '2026-01-01T00:00:00.000Z',
+      );
+
+      expect(model.details.context_length).toBeUndefined();
+    });
+  });
+});
+
+describe('Model routing', () => {
+  const catalogProviders: Provider[] = [
+    ...sampleProviders,
+    makeProvider('github-copilot', {
+      'gpt-4o': { name: 'GPT-4o' },
+      'claude-sonnet-4': { name: 'Claude Sonnet 4' },
+    }),
+    makeProvider('openrouter', {
+      'anthropic/claude-3.5-sonnet': { name: 'Claude 3.5 Sonnet' },
+      'meta-llama/llama-3.1-8b': { name: 'Llama 3.1 8B' },
+      'openai/gpt-4o': { name: 'GPT-4o' },
+    }),
+    makeProvider('amazon-bedrock', {
+      'anthropic.claude-3-5-sonnet-20240620-v1:0': { name: 'Claude 3.5 Sonnet' },
+    }),
+  ];
+
+  function makeCatalog(): ModelCatalog {
+    return new ModelCatalog(makeService(async () => catalogProviders), 60000);
+  }
+
+  describe('parseModelName', () => {
+    it('should parse provider/model names', () => {
+      expect(parseModelName('anthropic/claude-sonnet-4')).toEqual({
+        providerID: 'anthropic',
+        modelID: 'claude-sonnet-4',
+      });
+    });
+
+    it('should parse provider:model names', () => {
+      expect(parseModelName('openai:gpt-4o')).toEqual({
+        providerID: 'openai',
+        modelID: 'gpt-4o',
+      });
+    });
+
+    it('should keep nested slashes in the model ID', () => {
+      expect(parseModelName('openrouter/anthropic/claude-3.5-sonnet')).toEqual({
+        providerID: 'openrouter',
+        modelID: 'anthropic/claude-3.5-sonnet',
+      });
+    });
+
+    it('should return null for bare model names', () => {
+      expect(parseModelName('gpt-4o')).toBeNull();
+    });
+  });
+
+  describe('resolveModel', () => {
+    it('should resolve provider/model and provider:model names', async () => {
+      const catalog = makeCatalog();
+
+      expect((await catalog.resolveModel('anthropic/claude-sonnet-4'))?.name).toBe(
+        'anthropic/claude-sonnet-4',
+      );
+      expect((await catalog.resolveModel('openai:gpt-4o'))?.name).toBe('openai/gpt-4o');
+    });
+
+    it('should ignore the :latest tag', async () => {
+      const catalog = makeCatalog();
+
+      expect((await catalog.resolveModel('anthropic/claude-sonnet-4:latest'))?.name).toBe(
+        'anthropic/claude-sonnet-4',
+      );
+    });
+
+    it('should fall back to the configured default for an empty name', async () => {
+      const catalog = makeCatalog();
+
+      expect((await catalog.resolveModel(''))?.name).toBe('github-copilot/gpt-4o');
+      expect((await catalog.resolveModel(undefined))?.name).toBe('github-copilot/gpt-4o');
+    });
+
+    it('should prefer the default provider for bare model IDs', async () => {
+      const catalog = makeCatalog();
+
+      expect((await catalog.resolveModel('gpt-4o'))?.name).toBe('github-copilot/gpt-4o');
+      expect((await catalog.resolveModel('claude-sonnet-4'))?.name).toBe(
+        'github-copilot/claude-sonnet-4',
+      );
+    });
+
+    it('should resolve nested model IDs', async () => {
+      const catalog = makeCatalog();
+
+      expect((await catalog.resolveModel('openrouter/anthropic/claude-3.5-sonnet'))?.modelID).toBe(
+        'anthropic/claude-3.5-sonnet',
+      );
+    });
+
+    it('should resolve bare model IDs that contain a slash', async () => {
+      const model = await makeCatalog().resolveModel('meta-llama/llama-3.1-8b');
+
+      expect(model?.name).toBe('openrouter/meta-llama/llama-3.1-8b');
+    });
+
+    it('should prefer a provider/model name over a model ID with a slash', async () => {
+      const catalog = makeCatalog();
+
+      expect((await catalog.resolveModel('openai/gpt-4o'))?.name).toBe('openai/gpt-4o');
+      expect((await catalog.resolveModel('openrouter/openai/gpt-4o'))?.name).toBe(
+        'openrouter/openai/gpt-4o',
+      );
+    });
+
+    it('should resolve bare model IDs that contain a colon', async () => {
+      const catalog = makeCatalog();
+
+      expect((await catalog.resolveModel('anthropic.claude-3-5-sonnet-20240620-v1:0'))?.name).toBe(
+        'amazon-bedrock/anthropic.claude-3-5-sonnet-20240620-v1:0',
+      );
+      expect(
+        (await catalog.resolveModel('amazon-bedrock/anthropic.claude-3-5-sonnet-20240620-v1:0'))
+          ?.providerID,
+      ).toBe('amazon-bedrock');
+    });
+
+    it('should return null for unknown models', async () => {
+      const catalog = makeCatalog();
+
+      expect(await catalog.resolveModel('llama3:8b')).toBeNull();
+      expect(await catalog.resolveModel('openai/gpt-9')).toBeNull();
+      expect(await catalog.resolveModel('mistral-large')).toBeNull();
+    });
+  });
+});
+
+describe('Custom model aliases', () => {
+  const haAssistant: ModelAlias = {
+    name: 'ha-assistant:latest',
+    from: 'anthropic/claude-sonnet-4',
+    system: 'You are the house assistant.',
+    parameters: { temperature: 0.3 },
+    modified_at: '2026-01-01T00:00:00.000Z',
+  };
+
+  function makeCatalog(aliases: ModelAlias[]): ModelCatalog {
+    const store = { list: async () => aliases } as unknown as ModelAliasStore;
+    return new ModelCatalog(makeService(async () => sampleProviders), 60000, store);
+  }
+
+  it('should list aliases before OpenCode models', async () => {
+    const models = await makeCatalog([haAssistant]).listModels();
+
+    expect(models[0]?.name).toBe('ha-assistant:latest');
+    expect(models.some((m) => m.name === 'anthropic/claude-sonnet-4')).toBe(true);
+  });
+
+  it('should route aliases to their base model', async () => {
+    const model = await makeCatalog([haAssistant]).resolveModel('ha-assistant');
+
+    expect(model).toMatchObject({
+      name: 'ha-assistant:latest',
+      providerID: 'anthropic',
+      modelID: 'claude-sonnet-4',
+      family: 'claude',
+      contextLength: 200000,
+    });
+    expect(model?.alias).toEqual(haAssistant);
+  });
+
+  it('should keep routing when the base model is not listed', async () => {
+    const model = await makeCatalog([{ ...haAssistant, from: 'mistral/mistral-large' }])
+      .resolveModel('ha-assistant:latest');
+
+    expect(model?.providerID).toBe('mistral');
+    expect(model?.modelID).toBe('mistral-large');
+    expect(model?.contextLength).toBe(0);
+  });
+
+  it('should not match aliases by their base model ID', async () => {
+    const model = await makeCatalog([haAssistant]).resolveModel('claude-sonnet-4');
+
+    expect(model?.name).toBe('anthropic/claude-sonnet-4');
+    expect(model?.alias).toBeUndefined();
+  });
+});
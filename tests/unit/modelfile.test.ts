@@ -0,0 +1,110 @@
+/**
+ * Unit tests for Modelfile parsing and formatting
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseModelfile,
+  formatModelfile,
+  formatParameters,
+} from '../../src/services/modelfile.js';
+
+describe('Modelfile', () => {
+  describe('parseModelfile', () => {
+    it('should parse FROM, SYSTEM and PARAMETER commands', () => {
+      const result = parseModelfile(`
+FROM anthropic/claude-sonnet-4
+SYSTEM You are a helpful home assistant.
+PARAMETER temperature 0.3
+PARAMETER num_predict 200
+`);
+
+      expect(result).toEqual({
+        from: 'anthropic/claude-sonnet-4',
+        system: 'You are a helpful home assistant.',
+        parameters: { temperature: 0.3, num_predict: 200 },
+      });
+    });
+
+    it('should parse triple-quoted multi-line values', () => {
+      const result = parseModelfile(`FROM gpt-4o
+SYSTEM """You are Jarvis.
+Answer briefly."""
+TEMPLATE """{{ .System }}
+{{ .Prompt }}"""`);
+
+      expect(result.system).toBe('You are Jarvis.\nAnswer briefly.');
+      expect(result.template).toBe('{{ .System }}\n{{ .Prompt }}');
+    });
+
+    it('should collect repeated stop parameters', () => {
+      const result = parseModelfile(`FROM gpt-4o
+PARAMETER stop "<|end|>"
+PARAMETER stop User:`);
+
+      expect(result.parameters.stop).toEqual(['<|end|>', 'User:']);
+    });
+
+    it('should parse boolean parameters', () => {
+      expect(parseModelfile('PARAMETER penalize_newline false').parameters).toEqual({
+        penalize_newline: false,
+      });
+    });
+
+    it('should ignore comments, blank lines and command case', () => {
+      const result = parseModelfile(`# House persona
+
+from gpt-4o
+# Sampling
+parameter temperature 1`);
+
+      expect(result).toEqual({ from: 'gpt-4o', parameters: { temperature: 1 } });
+    });
+
+    it('should reject unsupported commands', () => {
+      expect(() => parseModelfile('ADAPTER ./lora.gguf')).toThrow(/unsupported Modelfile command/);
+    });
+
+    it('should reject unknown parameters', () => {
+      expect(() => parseModelfile('PARAMETER creativity 11')).toThrow(/unknown parameter 'creativity'/);
+    });
+
+    it('should reject invalid parameter values', () => {
+      expect(() => parseModelfile('PARAMETER temperature hot')).toThrow(/invalid number value/);
+      expect(() => parseModelfile('PARAMETER num_ctx 1.5')).toThrow(/invalid integer value/);
+      expect(() => parseModelfile('PARAMETER use_mmap yes')).toThrow(/invalid bool value/);
+    });
+
+    it('should reject unterminated triple quotes', () => {
+      expect(() => parseModelfile('SYSTEM """never closed')).toThrow(/unterminated/);
+    });
+  });
+
+  describe('formatModelfile', () => {
+    it('should format a Modelfile that parses back to the same values', () => {
+      const modelfile = {
+        from: 'anthropic/claude-sonnet-4',
+        system: 'You are Jarvis.\nBe brief.',
+        template: '{{ .Prompt }}',
+        parameters: { temperature: 0.3, stop: ['<|end|>', 'User:'] },
+      };
+
+      const text = formatModelfile(modelfile, 'jarvis:latest');
+
+      expect(text).toContain('# FROM jarvis:latest');
+      expect(parseModelfile(text)).toEqual(modelfile);
+    });
+  });
+
+  describe('formatParameters', () => {
+    it('should format one parameter per line', () => {
+      expect(formatParameters({ temperature: 0.7, stop: ['a', 'b'] })).toBe(
+        'temperature 0.7\nstop "a"\nstop "b"',
+      );
+    });
+
+    it('should return empty string for no parameters', () => {
+      expect(formatParameters({})).toBe('');
+    });
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Unit tests for native tool calling
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  NativeToolRegistry,
+  readNativeToolCalls,
+  selectToolStrategy,
+} from '../../src/services/nativeTools.js';
+import type { OllamaTool } from '../../src/types/ollama.js';
+import type { CatalogModel } from '../../src/services/modelCatalog.js';
+
+const tools: OllamaTool[] = [
+  {
+    type: 'function',
+    function: {
+      name: 'HassTurnOn',
+      description: 'Turn on a device',
+      parameters: { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] },
+    },
+  },
+  {
+    type: 'function',
+    function: { name: 'get.time', description: 'Current time', parameters: { type: 'object', properties: {} } },
+  },
+];
+
+function createModel(overrides: Partial<CatalogModel> = {}): CatalogModel {
+  return {
+    name: 'anthropic/claude-sonnet-4',
+    providerID: 'anthropic',
+    modelID: 'claude-sonnet-4',
+    displayName: 'Claude Sonnet 4',
+    family: 'claude',
+    contextLength: 200000,
+    outputLimit: 64000,
+    capabilities: { toolCall: true, vision: true, reasoning: true },
+    ...overrides,
+  };
+}
+
+describe('NativeToolRegistry', () => {
+  it('should serve the tools of every set under a set prefix', () => {
+    const registry = new NativeToolRegistry();
+    const first = registry.register(tools);
+    const second = registry.register([tools[0]!]);
+
+    expect(registry.listTools().map((tool) => tool.name)).toEqual([
+      `${first.id}__HassTurnOn`,
+      `${first.id}__get.time`,
+      `${second.id}__HassTurnOn`,
+    ]);
+    expect(registry.listTools()[0]?.inputSchema).toEqual(tools[0]!.function.parameters);
+  });
+
+  it('should map OpenCode tool ids back to client tool names', () => {
+    const toolSet = new NativeToolRegistry().register(tools);
+
+    expect([...toolSet.toolNames]).toEqual([
+      [`ollama-adapter_${toolSet.id}__HassTurnOn`, 'HassTurnOn'],
+      [`ollama-adapter_${toolSet.id}__get_time`, 'get.time'],
+    ]);
+  });
+
+  it('should list the tools of other sets and drop released sets', () => {
+    const registry = new NativeToolRegistry();
+    const first = registry.register(tools);
+    const second = registry.register(tools);
+
+    expect(registry.getOtherToolIds(first)).toEqual([...second.toolNames.keys()]);
+
+    second.release();
+    expect(registry.getOtherToolIds(first)).toEqual([]);
+    expect(registry.listTools()).toHaveLength(2);
+  });
+
+  describe('handleMcpMessage', () => {
+    it('should answer initialize with the requested protocol version', async () => {
+      const response = await new NativeToolRegistry().handleMcpMessage({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: { protocolVersion: '2025-06-18' },
+      });
+
+      expect(response?.result).toMatchObject({
+        protocolVersion: '2025-06-18',
+        capabilities: { tools: {} },
+        serverInfo: { name: 'ollama-adapter' },
+      });
+    });
+
+    it('should not answer notifications', async () => {
+      const registry = new NativeToolRegistry();
+      expect(await registry.handleMcpMessage({ jsonrpc: '2.0', method: 'notifications/initialized' }))
+        .toBeNull();
+    });
+
+    it('should list tools', async () => {
+      const registry = new NativeToolRegistry();
+      const toolSet = registry.register(tools);
+      const response = await registry.handleMcpMessage({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+
+      expect(response?.result.tools.map((tool: any) => tool.name)).toEqual([
+        `${toolSet.id}__HassTurnOn`,
+        `${toolSet.id}__get.time`,
+      ]);
+    });
+
+    it('should hold tool calls until the set is released', async () => {
+      const registry = new NativeToolRegistry();
+      const toolSet = registry.register(tools);
+      let answered = false;
+
+      const pending = registry
+        .handleMcpMessage({
+          jsonrpc: '2.0',
+          id: 3,
+          method: 'tools/call',
+          params: { name: `${toolSet.id}__HassTurnOn`, arguments: { name: 'Kitchen' } },
+        })
+        .then((response) => {
+          answered = true;
+          return response;
+        });
+
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(answered).toBe(false);
+
+      toolSet.release();
+      const response = await pending;
+      expect(response?.result.isError).toBe(true);
+    });
+
+    it('should reject unknown tools and methods', async () => {
+      const registry = new NativeToolRegistry();
+
+      const unknownTool = await registry.handleMcpMessage({
+        jsonrpc: '2.0',
+        id: 4,
+        method: 'tools/call',
+        params: { name: 'tdeadbeef__HassTurnOn' },
+      });
+      const unknownMethod = await registry.handleMcpMessage({ jsonrpc: '2.0', id: 5, method: 'resources/list' });
+
+      expect(unknownTool?.error?.code).toBe(-32602);
+      expect(unknownMethod?.error?.code).toBe(-32601);
+    });
+  });
+});
+
+describe('readNativeToolCalls', () => {
+  it('should read calls of the set in order', () => {
+    const toolSet = new NativeToolRegistry().register(tools);
+    const [turnOnId, timeId] = [...toolSet.toolNames.keys()];
+
+    const calls = readNativeToolCalls(
+      [
+        { type: 'text', text: 'Sure.' },
+        { type: 'tool', tool: turnOnId, state: { status: 'running', input: { name: 'Kitchen' } } },
+        { type: 'tool', tool: 'bash', state: { status: 'completed', input: { command: 'ls' } } },
+        { type: 'tool', tool: timeId, state: { status: 'error', input: {} } },
+      ],
+      toolSet,
+    );
+
+    expect(calls).toEqual([
+      { tool_name: 'HassTurnOn', arguments: { name: 'Kitchen' } },
+      { tool_name: 'get.time', arguments: {} },
+    ]);
+  });
+
+  it('should wait while a call is pending', () => {
+    const toolSet = new NativeToolRegistry().register(tools);
+    const [turnOnId] = [...toolSet.toolNames.keys()];
+
+    expect(
+      readNativeToolCalls([{ type: 'tool', tool: turnOnId, state: { status: 'pending', input: {} } }], toolSet),
+    ).toBeNull();
+    expect(readNativeToolCalls([{ type: 'text', text: 'Hi' }], toolSet)).toEqual([]);
+  });
+});
+
+describe('selectToolStrategy', () => {
+  it('should match model names and provider wildcards', () => {
+    expect(selectToolStrategy(createModel(), ['anthropic/claude-sonnet-4'])).toBe('native');
+    expect(selectToolStrategy(createModel(), ['anthropic/*'])).toBe('native');
+    expect(selectToolStrategy(createModel(), ['*'])).toBe('native');
+    expect(selectToolStrategy(createModel(), ['openai/*'])).toBe('json');
+    expect(selectToolStrategy(createModel(), [])).toBe('json');
+  });
+
+  it('should match custom models by name or base model', () => {
+    const custom = createModel({ name: 'home-assistant' });
+
+    expect(selectToolStrategy(custom, ['home-assistant'])).toBe('native');
+    expect(selectToolStrategy(custom, ['anthropic/claude-sonnet-4'])).toBe('native');
+  });
+
+  it('should keep the JSON prompt for models without tool calling', () => {
+    const model = createModel({ capabilities: { toolCall: false, vision: false, reasoning: false } });
+    expect(selectToolStrategy(model, ['*'])).toBe('json');
+  });
+});
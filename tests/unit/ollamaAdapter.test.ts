@@ -7,11 +7,29 @@ import {
   extractMessagesAndTools,
   convertUnifiedResponseToOllama,
   convertErrorToOllama,
+  getToolInvocations,
+  createOllamaMetrics,
+  createOllamaChatChunk,
+  createOllamaChatDoneChunk,
+  buildGeneratePrompt,
+  renderPromptTemplate,
+  buildGenerateContext,
+  decodeGenerateContext,
+  convertCompletionToOllamaGenerate,
+  createOllamaGenerateChunk,
+  createOllamaGenerateDoneChunk,
+  applyModelAliasToChatRequest,
+  applyModelAliasToGenerateRequest,
+  convertCatalogModelToOllamaShow,
+  convertEmbeddingsToOllamaEmbed,
 } from '../../src/adapters/ollamaAdapter.js';
+import type { ModelAlias } from '../../src/services/modelAliasStore.js';
+import type { CatalogModel } from '../../src/services/modelCatalog.js';
 import type { OllamaChatRequest, OllamaTool } from '../../src/types/ollama.js';
 import type {
   UnifiedResponse,
   ToolCallResponse,
+  MultiToolCallResponse,
   AnswerResponse,
   ChatResponse,
 } from '../../src/types/tool-selection.js';
@@ -240,6 +258,27 @@ describe('Ollama Adapter - Unified Response', () => {
       });
     });
 
+    describe('MultiToolCallResponse', () => {
+      it('should emit every call in message.tool_calls', () => {
+        const unifiedResponse: MultiToolCallResponse = {
+          action: 'tool_calls',
+          calls: [
+            { tool_name: 'TurnOffLight', arguments: { entity: 'light.kitchen' } },
+            { tool_name: 'LockDoor', arguments: { entity: 'lock.front_door' } },
+          ],
+        };
+
+        const response = convertUnifiedResponseToOllama(unifiedResponse, 'gpt-4o', 100);
+
+        expect(response.done_reason).toBe('stop');
+        expect(response.message.content).toBe('');
+        expect(response.message.tool_calls).toEqual([
+          { function: { name: 'TurnOffLight', arguments: { entity: 'light.kitchen' } } },
+          { function: { name: 'LockDoor', arguments: { entity: 'lock.front_door' } } },
+        ]);
+      });
+    });
+
     describe('AnswerResponse', () => {
       it('should convert answer to Ollama response', () => {
         const unifiedResponse: AnswerResponse = {
@@ -262,6 +301,17 @@ describe('Ollama Adapter - Unified Response', () => {
         expect(response.eval_count).toBe(1);
       });
 
+      it('should pass through the done reason', () => {
+        const response = convertUnifiedResponseToOllama(
+          { action: 'answer', content: 'The living' },
+          'gpt-4o',
+          100,
+          'length',
+        );
+
+        expect(response.done_reason).toBe('length');
+      });
+
       it('should handle multi-language answers', () => {
         const testCases = [
           {
@@ -436,6 +486,86 @@ describe('Ollama Adapter - Unified Response', () => {
     });
   });
 
+  describe('createOllamaMetrics', () => {
+    const usage = {
+      promptTokens: 1500,
+      completionTokens: 42,
+      loadMs: 20,
+      promptEvalMs: 600,
+      evalMs: 900,
+      promptCount: 1,
+      estimated: false,
+    };
+
+    it('should report token counts and durations in nanoseconds', () => {
+      expect(createOllamaMetrics(1600, usage)).toEqual({
+        total_duration: 1_600_000_000,
+        load_duration: 20_000_000,
+        prompt_eval_count: 1500,
+        prompt_eval_duration: 600_000_000,
+        eval_count: 42,
+        eval_duration: 900_000_000,
+      });
+    });
+
+    it('should fall back to the total duration without usage', () => {
+      expect(createOllamaMetrics(100)).toEqual({
+        total_duration: 100_000_000,
+        eval_count: 1,
+        eval_duration: 100_000_000,
+      });
+    });
+
+    it('should be used by final responses and chunks', () => {
+      const chat = convertUnifiedResponseToOllama({ action: 'chat', content: 'Hi' }, 'gpt-4o', 1600, 'stop', usage);
+      const chunk = createOllamaChatDoneChunk('gpt-4o', 1600, 'stop', usage);
+      const generate = convertCompletionToOllamaGenerate('Hi', 'gpt-4o', 1600, [], 'stop', usage);
+
+      for (const response of [chat, chunk, generate]) {
+        expect(response.prompt_eval_count).toBe(1500);
+        expect(response.eval_count).toBe(42);
+      }
+    });
+  });
+
+  describe('convertEmbeddingsToOllamaEmbed', () => {
+    it('should report embeddings under the requested model name', () => {
+      const response = convertEmbeddingsToOllamaEmbed(
+        { model: 'text-embedding-3-small', embeddings: [[0.6, 0.8]], promptTokens: 3 },
+        'nomic-embed-text',
+        25,
+      );
+
+      expect(response).toEqual({
+        model: 'nomic-embed-text',
+        embeddings: [[0.6, 0.8]],
+        total_duration: 25_000_000,
+        load_duration: 0,
+        prompt_eval_count: 3,
+      });
+    });
+  });
+
+  describe('getToolInvocations', () => {
+    it('should list a single tool call', () => {
+      expect(
+        getToolInvocations({ action: 'tool_call', tool_name: 'TurnOnLight', arguments: { a: 1 } }),
+      ).toEqual([{ tool_name: 'TurnOnLight', arguments: { a: 1 } }]);
+    });
+
+    it('should list all calls of a multi-call response', () => {
+      const calls = [
+        { tool_name: 'A', arguments: {} },
+        { tool_name: 'B', arguments: { x: 'y' } },
+      ];
+      expect(getToolInvocations({ action: 'tool_calls', calls })).toEqual(calls);
+    });
+
+    it('should return nothing for text responses', () => {
+      expect(getToolInvocations({ action: 'chat', content: 'Hi' })).toEqual([]);
+    });
+  });
+
   describe('convertErrorToOllama', () => {
     it('should convert error to Ollama response format', () => {
       const error = new Error('Test error message');
@@ -456,4 +586,343 @@ describe('Ollama Adapter - Unified Response', () => {
       expect(response.message.content).toContain('Connection failed');
     });
   });
+
+  describe('Streaming chunks', () => {
+    it('should create an intermediate chunk with done: false', () => {
+      const chunk = createOllamaChatChunk(
+        { role: 'assistant', content: 'Hel' },
+        'gpt-4o',
+      );
+
+      expect(chunk.model).toBe('gpt-4o');
+      expect(chunk.done).toBe(false);
+      expect(chunk.message).toEqual({ role: 'assistant', content: 'Hel' });
+      expect(chunk.total_duration).toBeUndefined();
+      expect(chunk.done_reason).toBeUndefined();
+    });
+
+    it('should carry tool calls in an intermediate chunk', () => {
+      const { message } = convertUnifiedResponseToOllama(
+        { action: 'tool_call', tool_name: 'TurnOnLight', arguments: { entity: 'light.kitchen' } },
+        'gpt-4o',
+        0,
+      );
+      const chunk = createOllamaChatChunk(message, 'gpt-4o');
+
+      expect(chunk.done).toBe(false);
+      expect(chunk.message.tool_calls).toEqual([
+        { function: { name: 'TurnOnLight', arguments: { entity: 'light.kitchen' } } },
+      ]);
+    });
+
+    it('should create a final chunk with timing metadata', () => {
+      const chunk = createOllamaChatDoneChunk('gpt-4o', 1500);
+
+      expect(chunk.done).toBe(true);
+      expect(chunk.done_reason).toBe('stop');
+      expect(chunk.message).toEqual({ role: 'assistant', content: '' });
+      expect(chunk.total_duration).toBe(1_500_000_000);
+      expect(chunk.eval_duration).toBe(1_500_000_000);
+    });
+
+    it('should report a truncated response in the final chunk', () => {
+      expect(createOllamaChatDoneChunk('gpt-4o', 10, 'length').done_reason).toBe('length');
+    });
+  });
+
+  describe('buildGeneratePrompt', () => {
+    it('should send system and prompt separately by default', () => {
+      const result = buildGeneratePrompt({
+        model: 'gpt-4o',
+        prompt: 'Why is the sky blue?',
+        system: 'You are a physicist.',
+      });
+
+      expect(result).toEqual({
+        system: 'You are a physicist.',
+        prompt: 'Why is the sky blue?',
+      });
+    });
+
+    it('should send the prompt verbatim in raw mode', () => {
+      const result = buildGeneratePrompt({
+        model: 'gpt-4o',
+        prompt: '[INST] Hello [/INST]',
+        system: 'ignored',
+        template: '{{ .System }} {{ .Prompt }}',
+        raw: true,
+      });
+
+      expect(result).toEqual({ system: '', prompt: '[INST] Hello [/INST]' });
+    });
+
+    it('should render system and prompt into the template', () => {
+      const result = buildGeneratePrompt({
+        model: 'gpt-4o',
+        prompt: 'Hello',
+        system: 'Be brief.',
+        template: '<<SYS>>{{ .System }}<</SYS>>\n[INST] {{ .Prompt }} [/INST]',
+      });
+
+      expect(result.system).toBe('');
+      expect(result.prompt).toBe('<<SYS>>Be brief.<</SYS>>\n[INST] Hello [/INST]');
+    });
+
+    it('should include the previous conversation from context', () => {
+      const context = buildGenerateContext(undefined, 'My name is Eric', 'Nice to meet you, Eric!');
+      const result = buildGeneratePrompt({
+        model: 'gpt-4o',
+        prompt: 'What is my name?',
+        context,
+      });
+
+      expect(result.prompt).toContain('User: My name is Eric');
+      expect(result.prompt).toContain('Assistant: Nice to meet you, Eric!');
+      expect(result.prompt.endsWith('What is my name?')).toBe(true);
+    });
+
+    it('should add fill-in-the-middle instructions for suffix', () => {
+      const result = buildGeneratePrompt({
+        model: 'gpt-4o',
+        prompt: 'def add(a, b):',
+        suffix: '    return result',
+      });
+
+      expect(result.prompt.startsWith('def add(a, b):')).toBe(true);
+      expect(result.prompt).toContain('    return result');
+    });
+  });
+
+  describe('renderPromptTemplate', () => {
+    it('should drop conditional blocks for empty fields', () => {
+      const template = '{{ if .System }}System: {{ .System }}\n{{ end }}User: {{ .Prompt }}';
+
+      expect(renderPromptTemplate(template, { system: '', prompt: 'Hi' })).toBe('User: Hi');
+      expect(renderPromptTemplate(template, { system: 'Be kind', prompt: 'Hi' })).toBe(
+        'System: Be kind\nUser: Hi',
+      );
+    });
+
+    it('should stop rendering at the response placeholder', () => {
+      const template = '{{ .Prompt }}\nAssistant: {{ .Response }}<|end|>';
+
+      expect(renderPromptTemplate(template, { system: '', prompt: 'Hi' })).toBe('Hi\nAssistant:');
+    });
+
+    it('should honor whitespace trim markers', () => {
+      const template = 'A   {{- .Prompt -}}   B';
+
+      expect(renderPromptTemplate(template, { system: '', prompt: 'x' })).toBe('AxB');
+    });
+  });
+
+  describe('Generate context', () => {
+    it('should round-trip the transcript including non-ASCII text', () => {
+      const context = buildGenerateContext(undefined, '開燈', '好的 🌟');
+
+      expect(context.every((n) => Number.isInteger(n))).toBe(true);
+      expect(decodeGenerateContext(context)).toBe('User: 開燈\nAssistant: 好的 🌟');
+    });
+
+    it('should append new turns to the previous context', () => {
+      const first = buildGenerateContext(undefined, 'Hi', 'Hello!');
+      const second = buildGenerateContext(first, 'Bye', 'Goodbye!');
+
+      expect(decodeGenerateContext(second)).toBe(
+        'User: Hi\nAssistant: Hello!\nUser: Bye\nAssistant: Goodbye!',
+      );
+    });
+
+    it('should ignore invalid values', () => {
+      expect(decodeGenerateContext([72, -1, 1.5, 0x110000, 105])).toBe('Hi');
+    });
+  });
+
+  describe('Generate responses', () => {
+    it('should convert a completion to Ollama generate format', () => {
+      const response = convertCompletionToOllamaGenerate('Blue light scatters more.', 'gpt-4o', 2000, [1, 2]);
+
+      expect(response.response).toBe('Blue light scatters more.');
+      expect(response.done).toBe(true);
+      expect(response.done_reason).toBe('stop');
+      expect(response.context).toEqual([1, 2]);
+      expect(response.total_duration).toBe(2_000_000_000);
+    });
+
+    it('should create streaming chunks', () => {
+      const chunk = createOllamaGenerateChunk('Blue', 'gpt-4o');
+      const done = createOllamaGenerateDoneChunk('gpt-4o', 100, [1]);
+
+      expect(chunk).toMatchObject({ response: 'Blue', done: false });
+      expect(chunk.context).toBeUndefined();
+      expect(done).toMatchObject({ response: '', done: true, context: [1] });
+    });
+
+    it('should create thinking chunks with an empty response', () => {
+      const chunk = createOllamaGenerateChunk('', 'gpt-4o', 'Blue is');
+
+      expect(chunk).toMatchObject({ response: '', thinking: 'Blue is', done: false });
+      expect(createOllamaGenerateChunk('Blue', 'gpt-4o').thinking).toBeUndefined();
+    });
+
+    it('should report a truncated completion', () => {
+      const response = convertCompletionToOllamaGenerate('Blue', 'gpt-4o', 10, [], 'length');
+
+      expect(response.done_reason).toBe('length');
+    });
+  });
+
+  describe('Custom model aliases', () => {
+    const alias: ModelAlias = {
+      name: 'ha-assistant:latest',
+      from: 'anthropic/claude-sonnet-4',
+      system: 'You are the house assistant.',
+      template: '{{ .System }} {{ .Prompt }}',
+      parameters: { temperature: 0.3, top_p: 0.9 },
+      modified_at: '2026-01-01T00:00:00.000Z',
+    };
+
+    it('should add the alias system prompt when the chat request has none', () => {
+      const request = applyModelAliasToChatRequest(
+        { model: 'ha-assistant', messages: [{ role: 'user', content: 'Hi' }] },
+        alias,
+      );
+
+      expect(request.messages).toEqual([
+        { role: 'system', content: 'You are the house assistant.' },
+        { role: 'user', content: 'Hi' },
+      ]);
+    });
+
+    it('should keep the request system message over the alias system prompt', () => {
+      const request = applyModelAliasToChatRequest(
+        {
+          model: 'ha-assistant',
+          messages: [
+            { role: 'system', content: 'Custom system' },
+            { role: 'user', content: 'Hi' },
+          ],
+        },
+        alias,
+      );
+
+      expect(request.messages).toHaveLength(2);
+      expect(request.messages[0]?.content).toBe('Custom system');
+    });
+
+    it('should let request options override alias parameters', () => {
+      const request = applyModelAliasToChatRequest(
+        { model: 'ha-assistant', messages: [], options: { temperature: 1 } },
+        alias,
+      );
+
+      expect(request.options).toEqual({ temperature: 1, top_p: 0.9 });
+    });
+
+    it('should return chat requests unchanged without alias', () => {
+      const original = { model: 'gpt-4o', messages: [{ role: 'user' as const, content: 'Hi' }] };
+
+      expect(applyModelAliasToChatRequest(original, undefined)).toBe(original);
+    });
+
+    it('should apply system and template defaults to generate requests', () => {
+      const request = applyModelAliasToGenerateRequest({ model: 'ha-assistant', prompt: 'Hi' }, alias);
+
+      expect(request.system).toBe('You are the house assistant.');
+      expect(request.template).toBe('{{ .System }} {{ .Prompt }}');
+      expect(request.options).toEqual({ temperature: 0.3, top_p: 0.9 });
+    });
+
+    it('should keep generate request values over alias defaults', () => {
+      const request = applyModelAliasToGenerateRequest(
+        { model: 'ha-assistant', prompt: 'Hi', system: '', template: '{{ .Prompt }}' },
+        alias,
+      );
+
+      expect(request.system).toBe('');
+      expect(request.template).toBe('{{ .Prompt }}');
+    });
+
+    it('should show the real Modelfile, parameters and template of an alias', () => {
+      const response = convertCatalogModelToOllamaShow({
+        name: alias.name,
+        providerID: 'anthropic',
+        modelID: 'claude-sonnet-4',
+        displayName: alias.name,
+        family: 'claude',
+        contextLength: 200000,
+        outputLimit: 64000,
+        capabilities: { toolCall: true, vision: true, reasoning: true },
+        alias,
+      });
+
+      expect(response.modelfile).toContain('FROM anthropic/claude-sonnet-4');
+      expect(response.modelfile).toContain('SYSTEM """You are the house assistant."""');
+      expect(response.parameters).toBe('temperature 0.3\ntop_p 0.9');
+      expect(response.template).toBe('{{ .System }} {{ .Prompt }}');
+      expect(response.system).toBe('You are the house assistant.');
+      expect(response.details.parent_model).toBe('anthropic/claude-sonnet-4');
+      expect(response.details.family).toBe('claude');
+    });
+  });
+
+  describe('convertCatalogModelToOllamaShow', () => {
+    const claude: CatalogModel = {
+      name: 'anthropic/claude-sonnet-4',
+      providerID: 'anthropic',
+      modelID: 'claude-sonnet-4',
+      displayName: 'Claude Sonnet 4',
+      family: 'claude',
+      contextLength: 200000,
+      outputLimit: 64000,
+      capabilities: { toolCall: true, vision: true, reasoning: true },
+    };
+
+    it('should report capabilities from provider metadata', () => {
+      expect(convertCatalogModelToOllamaShow(claude).capabilities).toEqual([
+        'completion',
+        'tools',
+        'vision',
+        'thinking',
+      ]);
+    });
+
+    it('should always report tools since the adapter implements tool calling', () => {
+      const response = convertCatalogModelToOllamaShow({
+        ...claude,
+        capabilities: { toolCall: false, vision: false, reasoning: false },
+      });
+
+      expect(response.capabilities).toEqual(['completion', 'tools']);
+    });
+
+    it('should report context length in model_info', () => {
+      const { model_info } = convertCatalogModelToOllamaShow(claude);
+
+      expect(model_info).toMatchObject({
+        'general.architecture': 'claude',
+        'general.basename': 'Claude Sonnet 4',
+        'claude.context_length': 200000,
+        'opencode.provider': 'anthropic',
+        'opencode.model': 'claude-sonnet-4',
+        'opencode.output_limit': 64000,
+      });
+    });
+
+    it('should omit unknown context length', () => {
+      const { model_info } = convertCatalogModelToOllamaShow({ ...claude, contextLength: 0 });
+
+      expect(model_info).not.toHaveProperty('claude.context_length');
+    });
+
+    it('should describe OpenCode models with a FROM-only Modelfile', () => {
+      const response = convertCatalogModelToOllamaShow(claude);
+
+      expect(response.modelfile).toContain('FROM anthropic/claude-sonnet-4');
+      expect(response.parameters).toBe('');
+      expect(response.template).toBe('{{ .System }}\n{{ .Prompt }}');
+      expect(response.details.parent_model).toBe('');
+      expect(response.system).toBeUndefined();
+    });
+  });
 });
@@ -0,0 +1,401 @@
+/**
+ * Unit tests for OpenAI adapter
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  convertOpenAIRequestToOllama,
+  convertOpenAIMessagesToOllama,
+  convertUnifiedResponseToOpenAI,
+  convertTokenUsageToOpenAI,
+  createOpenAIChatChunk,
+  createOpenAIUsageChunk,
+  createCompletionId,
+  getOpenAIFinishReason,
+  convertOpenAICompletionRequestToOllama,
+  convertCompletionToOpenAI,
+  createOpenAICompletionChunk,
+  convertCatalogModelToOpenAI,
+} from '../../src/adapters/openaiAdapter.js';
+import type { OpenAIChatRequest, OpenAITool } from '../../src/types/openai.js';
+import type { TokenUsage } from '../../src/services/tokenUsage.js';
+import type { CatalogModel } from '../../src/services/modelCatalog.js';
+
+const weatherTool: OpenAITool = {
+  type: 'function',
+  function: {
+    name: 'get_weather',
+    description: 'Get the weather',
+    parameters: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] },
+  },
+};
+
+const timeTool: OpenAITool = {
+  type: 'function',
+  function: { name: 'get_time' },
+};
+
+const usage: TokenUsage = {
+  promptTokens: 120,
+  completionTokens: 30,
+  loadMs: 0,
+  promptEvalMs: 100,
+  evalMs: 400,
+  promptCount: 1,
+  estimated: false,
+};
+
+describe('OpenAI Adapter', () => {
+  describe('convertOpenAIMessagesToOllama', () => {
+    it('should map developer messages to system messages', () => {
+      const messages = convertOpenAIMessagesToOllama([
+        { role: 'developer', content: 'Be brief' },
+        { role: 'user', content: 'Hi' },
+      ]);
+
+      expect(messages).toEqual([
+        { role: 'system', content: 'Be brief' },
+        { role: 'user', content: 'Hi' },
+      ]);
+    });
+
+    it('should join text parts of multi-part content', () => {
+      const [message] = convertOpenAIMessagesToOllama([
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'What is' },
+            { type: 'image_url' },
+            { type: 'text', text: 'this?' },
+          ],
+        },
+      ]);
+
+      expect(message?.content).toBe('What is\nthis?');
+    });
+
+    it('should attach inline images and ignore remote image URLs', () => {
+      const [message] = convertOpenAIMessagesToOllama([
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'Compare these' },
+            { type: 'image_url', image_url: { url: 'data:image/jpeg;base64,/9j/4AAQ' } },
+            { type: 'image_url', image_url: { url: 'https://example.com/b.jpg' } },
+          ],
+        },
+      ]);
+
+      expect(message).toEqual({
+        role: 'user',
+        content: 'Compare these',
+        images: ['data:image/jpeg;base64,/9j/4AAQ'],
+      });
+    });
+
+    it('should parse tool call arguments and name tool results by tool_call_id', () => {
+      const messages = convertOpenAIMessagesToOllama([
+        { role: 'user', content: 'Weather in Tokyo and the time?' },
+        {
+          role: 'assistant',
+          content: null,
+          tool_calls: [
+            { id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Tokyo"}' } },
+            { id: 'call_2', type: 'function', function: { name: 'get_time', arguments: '' } },
+          ],
+        },
+        { role: 'tool', tool_call_id: 'call_2', content: '10:00' },
+        { role: 'tool', tool_call_id: 'call_1', content: 'Sunny' },
+      ]);
+
+      expect(messages[1]).toEqual({
+        role: 'assistant',
+        content: '',
+        tool_calls: [
+          { function: { name: 'get_weather', arguments: { city: 'Tokyo' } } },
+          { function: { name: 'get_time', arguments: {} } },
+        ],
+      });
+      expect(messages[2]).toEqual({ role: 'tool', content: '10:00', tool_name: 'get_time' });
+      expect(messages[3]).toEqual({ role: 'tool', content: 'Sunny', tool_name: 'get_weather' });
+    });
+
+    it('should fall back to empty arguments for invalid JSON', () => {
+      const [message] = convertOpenAIMessagesToOllama([
+        {
+          role: 'assistant',
+          tool_calls: [{ id: 'c', type: 'function', function: { name: 'get_time', arguments: '{oops' } }],
+        },
+      ]);
+
+      expect(message?.tool_calls?.[0]?.function.arguments).toEqual({});
+    });
+  });
+
+  describe('convertOpenAIRequestToOllama', () => {
+    const baseRequest: OpenAIChatRequest = {
+      model: 'gpt-4o',
+      messages: [{ role: 'user', content: 'Hi' }],
+      tools: [weatherTool, timeTool],
+    };
+
+    it('should keep all tools for tool_choice "auto"', () => {
+      const { request, requireToolCall } = convertOpenAIRequestToOllama(baseRequest);
+
+      expect(request.tools?.map((t) => t.function.name)).toEqual(['get_weather', 'get_time']);
+      expect(request.tools?.[1]?.function).toEqual({
+        name: 'get_time',
+        description: '',
+        parameters: { type: 'object', properties: {} },
+      });
+      expect(requireToolCall).toBe(false);
+    });
+
+    it('should drop tools for tool_choice "none"', () => {
+      const { request, requireToolCall } = convertOpenAIRequestToOllama({
+        ...baseRequest,
+        tool_choice: 'none',
+      });
+
+      expect(request.tools).toBeUndefined();
+      expect(requireToolCall).toBe(false);
+    });
+
+    it('should require a tool call for tool_choice "required"', () => {
+      const { requireToolCall } = convertOpenAIRequestToOllama({
+        ...baseRequest,
+        tool_choice: 'required',
+      });
+
+      expect(requireToolCall).toBe(true);
+    });
+
+    it('should keep only the named tool', () => {
+      const { request, requireToolCall } = convertOpenAIRequestToOllama({
+        ...baseRequest,
+        tool_choice: { type: 'function', function: { name: 'get_time' } },
+      });
+
+      expect(request.tools?.map((t) => t.function.name)).toEqual(['get_time']);
+      expect(requireToolCall).toBe(true);
+    });
+
+    it('should map response_format to format', () => {
+      const schema = { type: 'object', properties: { city: { type: 'string' } } };
+
+      expect(
+        convertOpenAIRequestToOllama({ ...baseRequest, response_format: { type: 'json_object' } })
+          .request.format,
+      ).toBe('json');
+      expect(
+        convertOpenAIRequestToOllama({
+          ...baseRequest,
+          response_format: { type: 'json_schema', json_schema: { name: 'city', schema } },
+        }).request.format,
+      ).toEqual(schema);
+      expect(
+        convertOpenAIRequestToOllama({ ...baseRequest, response_format: { type: 'text' } })
+          .request.format,
+      ).toBeUndefined();
+    });
+
+    it('should map stop, max_tokens and sampling options', () => {
+      const { request } = convertOpenAIRequestToOllama({
+        ...baseRequest,
+        stop: '\n\n',
+        max_tokens: 50,
+        max_completion_tokens: 100,
+        temperature: 0.2,
+        seed: 7,
+      });
+
+      expect(request.options).toEqual({
+        stop: ['\n\n'],
+        num_predict: 100,
+        temperature: 0.2,
+        seed: 7,
+      });
+    });
+  });
+
+  describe('convertUnifiedResponseToOpenAI', () => {
+    it('should convert tool calls with ids and stringified arguments', () => {
+      const response = convertUnifiedResponseToOpenAI(
+        {
+          action: 'tool_calls',
+          calls: [
+            { tool_name: 'get_weather', arguments: { city: 'Tokyo' } },
+            { tool_name: 'get_time', arguments: {} },
+          ],
+        },
+        'gpt-4o',
+        'chatcmpl-1',
+      );
+      const choice = response.choices[0];
+
+      expect(response.object).toBe('chat.completion');
+      expect(response.id).toBe('chatcmpl-1');
+      expect(choice?.finish_reason).toBe('tool_calls');
+      expect(choice?.message.content).toBeNull();
+      expect(choice?.message.tool_calls).toHaveLength(2);
+      expect(choice?.message.tool_calls?.[0]).toMatchObject({
+        type: 'function',
+        function: { name: 'get_weather', arguments: '{"city":"Tokyo"}' },
+      });
+      expect(choice?.message.tool_calls?.[0]?.id).toMatch(/^call_/);
+      expect(choice?.message.tool_calls?.[0]?.id).not.toBe(choice?.message.tool_calls?.[1]?.id);
+    });
+
+    it('should convert text responses with usage', () => {
+      const response = convertUnifiedResponseToOpenAI(
+        { action: 'chat', content: 'Hello!' },
+        'gpt-4o',
+        'chatcmpl-2',
+        'length',
+        usage,
+      );
+
+      expect(response.choices[0]?.message).toEqual({ role: 'assistant', content: 'Hello!' });
+      expect(response.choices[0]?.finish_reason).toBe('length');
+      expect(response.usage).toEqual({ prompt_tokens: 120, completion_tokens: 30, total_tokens: 150 });
+    });
+  });
+
+  describe('getOpenAIFinishReason', () => {
+    it('should report tool_calls for tool calls regardless of output limits', () => {
+      expect(
+        getOpenAIFinishReason({ action: 'tool_call', tool_name: 'get_time', arguments: {} }, 'length'),
+      ).toBe('tool_calls');
+      expect(getOpenAIFinishReason({ action: 'answer', content: 'x' }, 'stop')).toBe('stop');
+    });
+  });
+
+  describe('convertTokenUsageToOpenAI', () => {
+    it('should report zeros without usage', () => {
+      expect(convertTokenUsageToOpenAI()).toEqual({
+        prompt_tokens: 0,
+        completion_tokens: 0,
+        total_tokens: 0,
+      });
+    });
+  });
+
+  describe('streaming chunks', () => {
+    it('should create content chunks', () => {
+      const chunk = createOpenAIChatChunk('chatcmpl-3', 'gpt-4o', { content: 'Hel' });
+
+      expect(chunk.object).toBe('chat.completion.chunk');
+      expect(chunk.choices).toEqual([{ index: 0, delta: { content: 'Hel' }, finish_reason: null }]);
+    });
+
+    it('should create finish chunks', () => {
+      const chunk = createOpenAIChatChunk('chatcmpl-3', 'gpt-4o', {}, 'stop');
+      expect(chunk.choices[0]?.finish_reason).toBe('stop');
+    });
+
+    it('should create usage chunks without choices', () => {
+      const chunk = createOpenAIUsageChunk('chatcmpl-3', 'gpt-4o', usage);
+
+      expect(chunk.choices).toEqual([]);
+      expect(chunk.usage?.total_tokens).toBe(150);
+    });
+  });
+
+  describe('createCompletionId', () => {
+    it('should create unique chatcmpl ids', () => {
+      const id = createCompletionId();
+      expect(id).toMatch(/^chatcmpl-[0-9a-f]+$/);
+      expect(createCompletionId()).not.toBe(id);
+    });
+
+    it('should use the cmpl prefix for completions', () => {
+      expect(createCompletionId('cmpl')).toMatch(/^cmpl-[0-9a-f]+$/);
+    });
+  });
+
+  describe('convertOpenAICompletionRequestToOllama', () => {
+    it('should map prompt, suffix and options', () => {
+      expect(
+        convertOpenAICompletionRequestToOllama({
+          model: 'gpt-4o',
+          prompt: 'def add(a, b):',
+          suffix: '\n\nprint(add(1, 2))',
+          max_tokens: 64,
+          stop: ['\ndef '],
+        }),
+      ).toEqual({
+        model: 'gpt-4o',
+        prompt: 'def add(a, b):',
+        suffix: '\n\nprint(add(1, 2))',
+        options: { stop: ['\ndef '], num_predict: 64 },
+      });
+    });
+
+    it('should use the first prompt of a prompt array', () => {
+      const request = convertOpenAICompletionRequestToOllama({ model: 'gpt-4o', prompt: ['Hello'] });
+      expect(request.prompt).toBe('Hello');
+    });
+  });
+
+  describe('convertCompletionToOpenAI', () => {
+    it('should create a text_completion with usage', () => {
+      const response = convertCompletionToOpenAI('42', 'gpt-4o', 'cmpl-1', 'stop', usage);
+
+      expect(response).toMatchObject({
+        id: 'cmpl-1',
+        object: 'text_completion',
+        model: 'gpt-4o',
+        choices: [{ index: 0, text: '42', logprobs: null, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 120, completion_tokens: 30, total_tokens: 150 },
+      });
+    });
+
+    it('should create streamed chunks without usage', () => {
+      const chunk = createOpenAICompletionChunk('cmpl-1', 'gpt-4o', 'Hel');
+
+      expect(chunk.choices[0]).toEqual({ index: 0, text: 'Hel', logprobs: null, finish_reason: null });
+      expect(chunk.usage).toBeUndefined();
+    });
+  });
+
+  describe('convertCatalogModelToOpenAI', () => {
+    const model: CatalogModel = {
+      name: 'anthropic/claude-sonnet-4',
+      providerID: 'anthropic',
+      modelID: 'claude-sonnet-4',
+      displayName: 'Claude Sonnet 4',
+      family: 'claude',
+      contextLength: 200000,
+      outputLimit: 64000,
+      capabilities: { toolCall: true, vision: true, reasoning: true },
+    };
+
+    it('should report the model name and provider', () => {
+      expect(convertCatalogModelToOpenAI(model, 1700000000)).toEqual({
+        id: 'anthropic/claude-sonnet-4',
+        object: 'model',
+        created: 1700000000,
+        owned_by: 'anthropic',
+      });
+    });
+
+    it('should report when a custom model was created', () => {
+      const custom = convertCatalogModelToOpenAI(
+        {
+          ...model,
+          name: 'assistant:latest',
+          alias: {
+            name: 'assistant:latest',
+            from: 'anthropic/claude-sonnet-4',
+            parameters: {},
+            modified_at: '2025-01-02T03:04:05.000Z',
+          },
+        },
+        1700000000,
+      );
+
+      expect(custom.id).toBe('assistant:latest');
+      expect(custom.created).toBe(1735787045);
+    });
+  });
+});
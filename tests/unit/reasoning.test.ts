@@ -0,0 +1,63 @@
+/**
+ * Unit tests for reasoning (thinking) output
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readAssistantOutput, splitThinkTags } from '../../src/services/reasoning.js';
+
+describe('readAssistantOutput', () => {
+  it('should separate reasoning parts from the text part', () => {
+    const output = readAssistantOutput([
+      { type: 'step-start' },
+      { type: 'reasoning', text: 'The user wants the weather.\n' },
+      { type: 'reasoning', text: 'I should call get_weather.' },
+      { type: 'text', text: '{"action": "tool_call", "tool_name": "get_weather", "arguments": {}}' },
+    ]);
+
+    expect(output).toEqual({
+      content: '{"action": "tool_call", "tool_name": "get_weather", "arguments": {}}',
+      thinking: 'The user wants the weather.\nI should call get_weather.',
+    });
+  });
+
+  it('should return reasoning before the text part exists', () => {
+    expect(readAssistantOutput([{ type: 'reasoning', text: 'Hmm' }])).toEqual({
+      content: '',
+      thinking: 'Hmm',
+    });
+  });
+
+  it('should combine reasoning parts with inline thinking', () => {
+    const output = readAssistantOutput([
+      { type: 'reasoning', text: 'First' },
+      { type: 'text', text: '<think>Second</think>Hello' },
+    ]);
+
+    expect(output).toEqual({ content: 'Hello', thinking: 'First\nSecond' });
+  });
+
+  it('should return empty output without parts', () => {
+    expect(readAssistantOutput([])).toEqual({ content: '', thinking: '' });
+  });
+});
+
+describe('splitThinkTags', () => {
+  it('should leave text without a think block unchanged', () => {
+    expect(splitThinkTags('  Hello <think>not reasoning</think>')).toEqual({
+      content: '  Hello <think>not reasoning</think>',
+      thinking: '',
+    });
+  });
+
+  it('should split a leading think block', () => {
+    expect(splitThinkTags('\n<think>\nCheck the lights.\n</think>\n\n{"action": "chat", "content": "Hi"}')).toEqual({
+      content: '{"action": "chat", "content": "Hi"}',
+      thinking: 'Check the lights.',
+    });
+  });
+
+  it('should hold back content while the block is still open', () => {
+    expect(splitThinkTags('<think>Check the')).toEqual({ content: '', thinking: 'Check the' });
+    expect(splitThinkTags('<thi')).toEqual({ content: '', thinking: '' });
+  });
+});
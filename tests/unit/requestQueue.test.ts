@@ -0,0 +1,121 @@
+/**
+ * Unit tests for the request queue
+ */
+
+import { describe, it, expect } from 'vitest';
+import { QueueRejectedError, RequestQueue, type RequestQueueOptions } from '../../src/services/requestQueue.js';
+import { RequestCancellation, RequestCancelledError } from '../../src/services/cancellation.js';
+
+function createQueue(options: Partial<RequestQueueOptions> = {}) {
+  return new RequestQueue({
+    maxConcurrent: 1,
+    maxQueued: 10,
+    maxQueuedPerClient: 10,
+    maxWaitMs: 1000,
+    ...options,
+  });
+}
+
+/**
+ * Acquire a slot and record the order in which slots are granted
+ */
+function enqueue(queue: RequestQueue, order: string[], clientId: string, name: string, priority = 0) {
+  return queue.acquire(clientId, { priority }).then((release) => {
+    order.push(name);
+    return release;
+  });
+}
+
+describe('RequestQueue', () => {
+  it('should run up to maxConcurrent requests and queue the rest', async () => {
+    const queue = createQueue({ maxConcurrent: 2 });
+    const order: string[] = [];
+
+    const first = await enqueue(queue, order, 'a', 'first');
+    await enqueue(queue, order, 'b', 'second');
+    const third = enqueue(queue, order, 'c', 'third');
+
+    expect(queue.running).toBe(2);
+    expect(queue.queued).toBe(1);
+
+    first();
+    first(); // Releasing twice frees one slot
+    await third;
+
+    expect(order).toEqual(['first', 'second', 'third']);
+    expect(queue.running).toBe(2);
+    expect(queue.queued).toBe(0);
+  });
+
+  it('should let higher priorities and less busy clients go first', async () => {
+    const queue = createQueue();
+    const order: string[] = [];
+
+    const running = await enqueue(queue, order, 'a', 'a1');
+    const waiting = [
+      enqueue(queue, order, 'a', 'a2'),
+      enqueue(queue, order, 'a', 'a3'),
+      enqueue(queue, order, 'b', 'b1'),
+      enqueue(queue, order, 'c', 'c1', 1),
+    ];
+
+    let release = running;
+    for (const next of [waiting[3], waiting[2], waiting[0], waiting[1]]) {
+      release();
+      release = await next!;
+    }
+
+    expect(order).toEqual(['a1', 'c1', 'b1', 'a2', 'a3']);
+  });
+
+  it('should turn requests away when the queue is full', async () => {
+    const queue = createQueue({ maxQueued: 2, maxQueuedPerClient: 1 });
+    const release = await queue.acquire('a');
+    const waiting = [queue.acquire('a')];
+
+    const perClient = await queue.acquire('a').catch((err) => err);
+    expect(perClient).toBeInstanceOf(QueueRejectedError);
+    expect(perClient.statusCode).toBe(429);
+
+    waiting.push(queue.acquire('b'));
+    const full = await queue.acquire('c').catch((err) => err);
+    expect(full).toBeInstanceOf(QueueRejectedError);
+    expect(full.statusCode).toBe(503);
+    expect(full.message).toContain('maximum pending requests exceeded');
+    expect(full.retryAfterSeconds).toBeGreaterThanOrEqual(1);
+
+    // b has not had a turn yet
+    release();
+    (await waiting[1]!)();
+    await waiting[0];
+  });
+
+  it('should give up after the maximum wait', async () => {
+    const queue = createQueue({ maxWaitMs: 20 });
+    await queue.acquire('a');
+
+    const error = await queue.acquire('b').catch((err) => err);
+    expect(error).toBeInstanceOf(QueueRejectedError);
+    expect(error.statusCode).toBe(503);
+    expect(queue.queued).toBe(0);
+  });
+
+  it('should stop waiting when the request is cancelled', async () => {
+    const queue = createQueue();
+    await queue.acquire('a');
+
+    const cancellation = new RequestCancellation(0);
+    const waiting = queue.acquire('b', { signal: cancellation.signal });
+    cancellation.cancel('client_disconnected');
+
+    await expect(waiting).rejects.toBeInstanceOf(RequestCancelledError);
+    expect(queue.queued).toBe(0);
+  });
+
+  it('should not limit requests with maxConcurrent 0', async () => {
+    const queue = createQueue({ maxConcurrent: 0 });
+    await Promise.all([queue.acquire('a'), queue.acquire('a'), queue.acquire('a')]);
+
+    expect(queue.running).toBe(3);
+  });
+});
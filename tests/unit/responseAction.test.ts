@@ -0,0 +1,99 @@
+/**
+ * Unit tests for response action parsing
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildActionCorrectionPrompt,
+  normalizeToolCalls,
+  parseResponseAction,
+} from '../../src/services/responseAction.js';
+
+describe('parseResponseAction', () => {
+  it('should parse a tool call', () => {
+    expect(
+      parseResponseAction('{"action": "tool_call", "tool_name": "HassTurnOn", "arguments": {"name": "Kitchen"}}'),
+    ).toEqual({
+      ok: true,
+      response: { action: 'tool_call', tool_name: 'HassTurnOn', arguments: { name: 'Kitchen' } },
+      candidates: 1,
+    });
+  });
+
+  it('should default missing tool arguments to an empty object', () => {
+    expect(parseResponseAction('{"action": "tool_call", "tool_name": "GetLiveContext"}')).toMatchObject({
+      ok: true,
+      response: { action: 'tool_call', tool_name: 'GetLiveContext', arguments: {} },
+    });
+  });
+
+  it('should parse answers and chat around prose', () => {
+    expect(parseResponseAction('Here you go: {"action": "answer", "content": "It is 21°C"}')).toMatchObject({
+      ok: true,
+      response: { action: 'answer', content: 'It is 21°C' },
+    });
+  });
+
+  it('should normalize multiple tool calls', () => {
+    const output = '{"action": "tool_calls", "calls": [{"tool_name": "HassTurnOff", "arguments": {"name": "Kitchen"}}, {"arguments": {}}]}';
+
+    expect(parseResponseAction(output)).toMatchObject({
+      ok: true,
+      response: { action: 'tool_calls', calls: [{ tool_name: 'HassTurnOff', arguments: { name: 'Kitchen' } }] },
+    });
+  });
+
+  it('should count the JSON objects in the output', () => {
+    const output = '{"action": "chat", "content": "Hi"} {"action": "chat", "content": "Hello"}';
+    expect(parseResponseAction(output)).toMatchObject({ ok: true, candidates: 2 });
+  });
+
+  it('should report output without JSON', () => {
+    expect(parseResponseAction('Sure, turning on the kitchen light.')).toEqual({
+      ok: false,
+      error: 'No valid JSON object found in LLM response (no JSON object or array found)',
+    });
+  });
+
+  it('should report invalid actions', () => {
+    expect(parseResponseAction('{"action": "turn_on", "name": "Kitchen"}')).toEqual({
+      ok: false,
+      error: 'Invalid response action: turn_on',
+    });
+    expect(parseResponseAction('{"tool_name": "HassTurnOn"}')).toEqual({
+      ok: false,
+      error: 'Invalid response action: undefined',
+    });
+  });
+
+  it('should report incomplete actions', () => {
+    expect(parseResponseAction('{"action": "tool_call", "arguments": {}}')).toEqual({
+      ok: false,
+      error: 'tool_call response has no "tool_name"',
+    });
+    expect(parseResponseAction('{"action": "tool_calls", "calls": []}')).toEqual({
+      ok: false,
+      error: 'tool_calls response contains no valid calls',
+    });
+    expect(parseResponseAction('{"action": "chat", "content": {"text": "Hi"}}')).toEqual({
+      ok: false,
+      error: 'chat response has no "content" string',
+    });
+  });
+});
+
+describe('normalizeToolCalls', () => {
+  it('should throw without valid calls', () => {
+    expect(() => normalizeToolCalls('HassTurnOn')).toThrow('tool_calls response contains no valid calls');
+  });
+});
+
+describe('buildActionCorrectionPrompt', () => {
+  it('should include the previous output and the error', () => {
+    const prompt = buildActionCorrectionPrompt('{"action": "turn_on"}', 'Invalid response action: turn_on');
+
+    expect(prompt).toContain('{"action": "turn_on"}');
+    expect(prompt).toContain('Invalid response action: turn_on');
+    expect(prompt).toContain('EXACTLY ONE JSON object');
+  });
+});
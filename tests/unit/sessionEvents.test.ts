@@ -0,0 +1,182 @@
+/**
+ * Unit tests for OpenCode session events
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ReplyCollector, SessionEventStream, type SessionEvent } from '../../src/services/sessionEvents.js';
+
+function assistantUpdated(id: string, extra: Record<string, any> = {}): SessionEvent {
+  return {
+    type: 'message.updated',
+    properties: { info: { id, sessionID: 's1', role: 'assistant', time: { created: 1 }, ...extra } },
+  };
+}
+
+function partUpdated(messageID: string, id: string, text: string, type = 'text'): SessionEvent {
+  return {
+    type: 'message.part.updated',
+    properties: { part: { id, messageID, sessionID: 's1', type, text } },
+  };
+}
+
+/**
+ * Event stream fed by the test
+ */
+function createFakeStream() {
+  const queue: any[] = [];
+  let wake: (() => void) | null = null;
+  let failStream: ((error: Error) => void) | null = null;
+
+  const subscribe = async ({ signal }: { signal: AbortSignal }) => ({
+    stream: (async function* () {
+      while (!signal.aborted) {
+        while (queue.length > 0) {
+          yield queue.shift();
+        }
+        await new Promise<void>((resolve, reject) => {
+          wake = resolve;
+          failStream = reject;
+          signal.addEventListener('abort', () => resolve());
+        });
+      }
+    })(),
+  });
+
+  return {
+    subscribe,
+    push: (...events: any[]) => {
+      queue.push(...events);
+      wake?.();
+    },
+    fail: (error: Error) => failStream?.(error),
+  };
+}
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('ReplyCollector', () => {
+  it('should assemble the parts of the assistant message', () => {
+    const reply = new ReplyCollector();
+
+    expect(reply.apply(assistantUpdated('m1'))).toBe(true);
+    expect(reply.apply(partUpdated('m1', 'r1', 'Thinking', 'reasoning'))).toBe(true);
+    expect(reply.apply(partUpdated('m1', 't1', '{"action"'))).toBe(true);
+    expect(reply.apply(partUpdated('m1', 't1', '{"action": "chat"}'))).toBe(true);
+
+    expect(reply.latest()?.parts.map((part) => part.text)).toEqual(['Thinking', '{"action": "chat"}']);
+    expect(reply.completed).toBe(false);
+  });
+
+  it('should ignore user messages', () => {
+    const reply = new ReplyCollector();
+
+    const userMessage = { type: 'message.updated', properties: { info: { id: 'u1', role: 'user' } } };
+    expect(reply.apply(userMessage)).toBe(false);
+    expect(reply.apply(partUpdated('u1', 'p1', 'Turn on the light'))).toBe(false);
+    expect(reply.latest()).toBeNull();
+  });
+
+  it('should complete when the message is completed', () => {
+    const reply = new ReplyCollector();
+    reply.apply(assistantUpdated('m1'));
+    reply.apply(partUpdated('m1', 't1', 'Hi'));
+
+    reply.apply(assistantUpdated('m1', { time: { created: 1, completed: 2 }, finish: 'stop' }));
+
+    expect(reply.completed).toBe(true);
+    expect(reply.latest()?.info.finish).toBe('stop');
+  });
+
+  it('should wait for the next message after tool calls', () => {
+    const reply = new ReplyCollector();
+    reply.apply(assistantUpdated('m1', { time: { created: 1, completed: 2 }, finish: 'tool-calls' }));
+    expect(reply.completed).toBe(false);
+
+    reply.apply(assistantUpdated('m2'));
+    reply.apply(partUpdated('m2', 't1', 'Done'));
+    reply.apply({ type: 'session.idle', properties: { sessionID: 's1' } });
+
+    expect(reply.completed).toBe(true);
+    expect(reply.latest()?.parts[0]?.text).toBe('Done');
+  });
+
+  it('should report session and message errors', () => {
+    const sessionError = new ReplyCollector();
+    sessionError.apply({
+      type: 'session.error',
+      properties: { sessionID: 's1', error: { name: 'APIError', data: { message: 'rate limited' } } },
+    });
+    expect(sessionError.error).toBe('rate limited');
+
+    const aborted = new ReplyCollector();
+    aborted.apply(assistantUpdated('m1', { error: { name: 'MessageAbortedError', data: {} } }));
+    expect(aborted.error).toBe('MessageAbortedError');
+  });
+});
+
+describe('SessionEventStream', () => {
+  it('should resolve a watched reply once it is complete', async () => {
+    const fake = createFakeStream();
+    const events = new SessionEventStream(fake.subscribe);
+    fake.push({ type: 'server.connected', properties: {} });
+    expect(await events.connect(1000)).toBe(true);
+
+    const updates: string[] = [];
+    const watch = events.watchReply('s1', (parts) => updates.push(parts.map((part) => part.text).join('')));
+    fake.push(
+      assistantUpdated('m1'),
+      partUpdated('m1', 't1', 'Hel'),
+      { type: 'message.part.updated', properties: { part: { id: 't2', messageID: 'm9', sessionID: 's2', type: 'text', text: 'Other session' } } },
+      partUpdated('m1', 't1', 'Hello'),
+      assistantUpdated('m1', { time: { created: 1, completed: 2 }, finish: 'stop' }),
+    );
+
+    const reply = await watch.result;
+    expect(reply?.parts[0]?.text).toBe('Hello');
+    expect(updates).toEqual(['', 'Hel', 'Hello']);
+
+    watch.stop();
+    events.close();
+  });
+
+  it('should reject a watched reply on a session error', async () => {
+    const fake = createFakeStream();
+    const events = new SessionEventStream(fake.subscribe);
+    fake.push({ type: 'server.connected', properties: {} });
+    await events.connect(1000);
+
+    const watch = events.watchReply('s1');
+    fake.push({ type: 'session.error', properties: { sessionID: 's1', error: { name: 'UnknownError', data: { message: 'boom' } } } });
+
+    await expect(watch.result).rejects.toThrow('OpenCode session error: boom');
+    events.close();
+  });
+
+  it('should resolve watched replies with null when the stream disconnects', async () => {
+    const fake = createFakeStream();
+    const events = new SessionEventStream(fake.subscribe);
+    fake.push({ type: 'server.connected', properties: {} });
+    await events.connect(1000);
+
+    const watch = events.watchReply('s1');
+    fake.fail(new Error('socket hang up'));
+
+    expect(await watch.result).toBeNull();
+    await tick();
+    events.close();
+  });
+
+  it('should not connect when OpenCode does not confirm the stream', async () => {
+    const fake = createFakeStream();
+    const events = new SessionEventStream(fake.subscribe);
+
+    expect(await events.connect(10)).toBe(false);
+    expect(await events.watchReply('s1').result).toBeNull();
+
+    // Later calls do not wait again
+    const start = Date.now();
+    expect(await events.connect(1000)).toBe(false);
+    expect(Date.now() - start).toBeLessThan(500);
+    events.close();
+  });
+});
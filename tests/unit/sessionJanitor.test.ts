@@ -0,0 +1,94 @@
+/**
+ * Unit tests for the orphaned session janitor
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Session } from '@opencode-ai/sdk';
+import { SessionJanitor } from '../../src/services/sessionJanitor.js';
+import {
+  isInstanceSession,
+  tagSessionTitle,
+  type OpencodeService,
+} from '../../src/services/opencode.js';
+
+const MINUTE = 60000;
+const NOW = 100 * MINUTE;
+
+function makeSession(id: string, title: string, idleMinutes: number): Session {
+  return {
+    id,
+    title,
+    time: { created: 0, updated: NOW - idleMinutes * MINUTE },
+  } as unknown as Session;
+}
+
+function makeService(sessions: Session[], failing: string[] = []) {
+  const deleted: string[] = [];
+  const service = {
+    listSessions: async () => sessions,
+    deleteSession: async (id: string) => {
+      if (failing.includes(id)) {
+        return false;
+      }
+      deleted.push(id);
+      return true;
+    },
+  } as unknown as OpencodeService;
+  return { service, deleted };
+}
+
+describe('session titles', () => {
+  it('should recognize the sessions of an instance', () => {
+    const title = tagSessionTitle('unified-response', 'ha-1');
+
+    expect(title).toBe('[ollama-adapter:ha-1] unified-response');
+    expect(isInstanceSession(title, 'ha-1')).toBe(true);
+    expect(isInstanceSession(title, 'ha-10')).toBe(false);
+    expect(isInstanceSession('unified-response', 'ha-1')).toBe(false);
+    expect(isInstanceSession(undefined, 'ha-1')).toBe(false);
+  });
+});
+
+describe('SessionJanitor', () => {
+  it('should delete idle sessions of its instance only', async () => {
+    const { service, deleted } = makeService([
+      makeSession('old', tagSessionTitle('unified-response', 'ha-1'), 90),
+      makeSession('recent', tagSessionTitle('unified-response', 'ha-1'), 5),
+      makeSession('other-instance', tagSessionTitle('generate-answer', 'ha-2'), 90),
+      makeSession('user', 'Refactor the parser', 90),
+    ]);
+    const janitor = new SessionJanitor(service, 'ha-1', 60 * MINUTE, 0, () => NOW);
+
+    expect(await janitor.sweep()).toBe(1);
+    expect(deleted).toEqual(['old']);
+  });
+
+  it('should count reclaimed and failed deletions', async () => {
+    const { service } = makeService(
+      [
+        makeSession('a', tagSessionTitle('error-format', 'ha-1'), 61),
+        makeSession('b', tagSessionTitle('error-format', 'ha-1'), 61),
+      ],
+      ['b'],
+    );
+    const janitor = new SessionJanitor(service, 'ha-1', 60 * MINUTE, 0, () => NOW);
+    expect(janitor.getStats()).toEqual({ runs: 0, reclaimed: 0, failed: 0, lastRunAt: null });
+
+    await janitor.sweep();
+    await janitor.sweep();
+
+    expect(janitor.getStats()).toEqual({ runs: 2, reclaimed: 2, failed: 2, lastRunAt: NOW });
+  });
+
+  it('should survive a failed listing', async () => {
+    const service = {
+      listSessions: async () => {
+        throw new Error('connection refused');
+      },
+    } as unknown as OpencodeService;
+    const janitor = new SessionJanitor(service, 'ha-1', 60 * MINUTE, 0, () => NOW);
+
+    expect(await janitor.sweep()).toBe(0);
+    expect(janitor.getStats().runs).toBe(0);
+  });
+});
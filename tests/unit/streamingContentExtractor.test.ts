@@ -0,0 +1,100 @@
+/**
+ * Unit tests for StreamingContentExtractor
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  StreamingContentExtractor,
+  getUnstreamedContent,
+} from '../../src/services/streamingContentExtractor.js';
+
+/**
+ * Feed a response to the extractor in growing prefixes and collect all deltas
+ */
+function streamInSteps(text: string, step: number): string[] {
+  const extractor = new StreamingContentExtractor();
+  const deltas: string[] = [];
+  for (let end = step; end < text.length + step; end += step) {
+    const delta = extractor.push(text.slice(0, end));
+    if (delta) deltas.push(delta);
+  }
+  return deltas;
+}
+
+describe('StreamingContentExtractor', () => {
+  it('should emit content deltas for chat responses', () => {
+    const extractor = new StreamingContentExtractor();
+
+    expect(extractor.push('{"action": "chat", "content": "Hel')).toBe('Hel');
+    expect(extractor.push('{"action": "chat", "content": "Hello wor')).toBe('lo wor');
+    expect(extractor.push('{"action": "chat", "content": "Hello world"}')).toBe('ld');
+    expect(extractor.getEmitted()).toBe('Hello world');
+  });
+
+  it('should emit content deltas for answer responses', () => {
+    const deltas = streamInSteps('{"action": "answer", "content": "The light is on."}', 5);
+    expect(deltas.join('')).toBe('The light is on.');
+    expect(deltas.length).toBeGreaterThan(1);
+  });
+
+  it('should not emit anything for tool calls', () => {
+    const deltas = streamInSteps(
+      '{"action": "tool_call", "tool_name": "HassTurnOn", "arguments": {"content": "x"}}',
+      3,
+    );
+    expect(deltas).toEqual([]);
+  });
+
+  it('should wait until the action is known', () => {
+    const extractor = new StreamingContentExtractor();
+
+    expect(extractor.push('{"content": "Hi th')).toBe('');
+    expect(extractor.push('{"content": "Hi there", "action": "chat"}')).toBe('Hi there');
+  });
+
+  it('should handle markdown code fences around the JSON', () => {
+    const deltas = streamInSteps('```json\n{"action": "chat", "content": "Hello!"}\n```', 4);
+    expect(deltas.join('')).toBe('Hello!');
+  });
+
+  it('should decode escape sequences', () => {
+    const deltas = streamInSteps(
+      '{"action": "chat", "content": "Line 1\\nSaid \\"hi\\" \\u00e9\\\\"}',
+      1,
+    );
+    expect(deltas.join('')).toBe('Line 1\nSaid "hi" é\\');
+  });
+
+  it('should not emit partial escape sequences', () => {
+    const extractor = new StreamingContentExtractor();
+
+    expect(extractor.push('{"action": "chat", "content": "a\\')).toBe('a');
+    expect(extractor.push('{"action": "chat", "content": "a\\u00')).toBe('');
+    expect(extractor.push('{"action": "chat", "content": "a\\u00e9"}')).toBe('é');
+  });
+
+  it('should handle multi-language content', () => {
+    const deltas = streamInSteps('{"action": "answer", "content": "客廳的燈現在是開著的。"}', 2);
+    expect(deltas.join('')).toBe('客廳的燈現在是開著的。');
+  });
+
+  it('should stop emitting if previously streamed text is rewritten', () => {
+    const extractor = new StreamingContentExtractor();
+
+    expect(extractor.push('{"action": "chat", "content": "Hello')).toBe('Hello');
+    expect(extractor.push('{"action": "chat", "content": "Goodbye"}')).toBe('');
+    expect(extractor.getEmitted()).toBe('Hello');
+  });
+});
+
+describe('getUnstreamedContent', () => {
+  it('should return the rest of content that continues the stream', () => {
+    expect(getUnstreamedContent('Hello world', 'Hello')).toBe(' world');
+    expect(getUnstreamedContent('Hello', 'Hello')).toBe('');
+    expect(getUnstreamedContent('Hello', '')).toBe('Hello');
+  });
+
+  it('should return null for content that does not continue the stream', () => {
+    expect(getUnstreamedContent('Sorry, something went wrong.', 'Hel')).toBeNull();
+  });
+});
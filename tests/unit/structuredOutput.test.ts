@@ -0,0 +1,117 @@
+/**
+ * Unit tests for structured output checking
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  StructuredOutputError,
+  buildCorrectionPrompt,
+  checkStructuredOutput,
+  describeOutputFormat,
+  isOutputFormat,
+  parseJsonOutput,
+} from '../../src/services/structuredOutput.js';
+
+const schema = {
+  type: 'object',
+  properties: { city: { type: 'string' }, temperature: { type: 'number' } },
+  required: ['city', 'temperature'],
+};
+
+describe('Structured Output', () => {
+  describe('isOutputFormat', () => {
+    it('should accept "json" and schema objects', () => {
+      expect(isOutputFormat('json')).toBe(true);
+      expect(isOutputFormat(schema)).toBe(true);
+    });
+
+    it('should reject other values', () => {
+      expect(isOutputFormat('xml')).toBe(false);
+      expect(isOutputFormat([])).toBe(false);
+      expect(isOutputFormat(null)).toBe(false);
+    });
+  });
+
+  describe('describeOutputFormat', () => {
+    it('should ask for JSON only', () => {
+      expect(describeOutputFormat('json')).toContain('Respond with valid JSON only');
+      expect(describeOutputFormat('json')).not.toContain('Schema');
+    });
+
+    it('should include the schema', () => {
+      const description = describeOutputFormat(schema);
+
+      expect(description).toContain('JSON Schema');
+      expect(description).toContain('"required": [');
+    });
+  });
+
+  describe('parseJsonOutput', () => {
+    it('should parse plain JSON', () => {
+      expect(parseJsonOutput('{"a": 1}')).toEqual({ ok: true, value: { a: 1 } });
+    });
+
+    it('should strip markdown code fences', () => {
+      expect(parseJsonOutput('```json\n[1, 2]\n```')).toEqual({ ok: true, value: [1, 2] });
+    });
+
+    it('should drop prose around the JSON', () => {
+      expect(parseJsonOutput('Here you go: {"a": {"b": 1}} Hope this helps!')).toEqual({
+        ok: true,
+        value: { a: { b: 1 } },
+      });
+    });
+
+    it('should report unparseable output', () => {
+      const result = parseJsonOutput('The weather is nice.');
+
+      expect(result.ok).toBe(false);
+      expect(!result.ok && result.error).toContain('not valid JSON');
+    });
+
+    it('should report empty output', () => {
+      expect(parseJsonOutput('  ')).toEqual({ ok: false, error: 'response is empty, expected JSON' });
+    });
+  });
+
+  describe('checkStructuredOutput', () => {
+    it('should return compact JSON for valid output', () => {
+      expect(checkStructuredOutput('{\n  "city": "Tokyo",\n  "temperature": 21\n}', schema)).toEqual({
+        ok: true,
+        json: '{"city":"Tokyo","temperature":21}',
+      });
+    });
+
+    it('should accept any JSON value for "json"', () => {
+      expect(checkStructuredOutput('"hello"', 'json')).toEqual({ ok: true, json: '"hello"' });
+    });
+
+    it('should return schema violations', () => {
+      expect(checkStructuredOutput('{"city": "Tokyo"}', schema)).toEqual({
+        ok: false,
+        errors: ["$: missing required property 'temperature'"],
+      });
+    });
+  });
+
+  describe('buildCorrectionPrompt', () => {
+    it('should include the previous output and every error', () => {
+      const prompt = buildCorrectionPrompt('{"city": 1}', ['$.city: expected string, got integer', 'b']);
+
+      expect(prompt).toContain('{"city": 1}');
+      expect(prompt).toContain('- $.city: expected string, got integer\n- b');
+    });
+  });
+
+  describe('StructuredOutputError', () => {
+    it('should describe the attempts and errors', () => {
+      const error = new StructuredOutputError(['$: missing required property \'city\''], 3);
+
+      expect(error).toBeInstanceOf(Error);
+      expect(error.name).toBe('StructuredOutputError');
+      expect(error.message).toBe(
+        "model output did not match the requested format after 3 attempts: $: missing required property 'city'",
+      );
+    });
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Unit tests for token usage accounting
+ */
+
+import { describe, it, expect } from 'vitest';
+import { addTokenUsage, getPromptUsage, type PromptUsageInput } from '../../src/services/tokenUsage.js';
+import { estimateTokens } from '../../src/services/tokenizer.js';
+
+const baseInput: PromptUsageInput = {
+  promptText: 'You are a helpful assistant.\nTurn on the light',
+  completionText: '{"action": "chat", "content": "Done"}',
+  requestStart: 1_000,
+  promptSentAt: 1_050,
+  completedAt: 3_050,
+};
+
+describe('Token Usage', () => {
+  describe('getPromptUsage', () => {
+    it('should use the token counts reported by OpenCode', () => {
+      const usage = getPromptUsage({
+        ...baseInput,
+        message: {
+          tokens: { input: 1200, output: 40, reasoning: 10, cache: { read: 300, write: 0 } },
+        },
+      });
+
+      expect(usage.promptTokens).toBe(1500);
+      expect(usage.completionTokens).toBe(50);
+      expect(usage.estimated).toBe(false);
+      expect(usage.promptCount).toBe(1);
+    });
+
+    it('should estimate tokens when OpenCode reports none', () => {
+      const usage = getPromptUsage({
+        ...baseInput,
+        message: { tokens: { input: 0, output: 0, reasoning: 0, cache: { read: 0, write: 0 } } },
+      });
+
+      expect(usage.promptTokens).toBe(estimateTokens(baseInput.promptText));
+      expect(usage.completionTokens).toBe(estimateTokens(baseInput.completionText));
+      expect(usage.estimated).toBe(true);
+    });
+
+    it('should split timings using the text part', () => {
+      const usage = getPromptUsage({
+        ...baseInput,
+        textTime: { start: 1_850, end: 2_950 },
+      });
+
+      expect(usage.loadMs).toBe(50);
+      expect(usage.promptEvalMs).toBe(800);
+      expect(usage.evalMs).toBe(1_100);
+    });
+
+    it('should count the whole wait as generation without part timing', () => {
+      const usage = getPromptUsage(baseInput);
+
+      expect(usage.promptEvalMs).toBe(0);
+      expect(usage.evalMs).toBe(2_000);
+    });
+
+    it('should clamp timings from a skewed clock', () => {
+      const usage = getPromptUsage({
+        ...baseInput,
+        textTime: { start: 500, end: 99_000 },
+      });
+
+      expect(usage.promptEvalMs).toBe(0);
+      expect(usage.evalMs).toBe(2_000);
+    });
+  });
+
+  describe('addTokenUsage', () => {
+    it('should return the usage for the first prompt', () => {
+      const usage = getPromptUsage(baseInput);
+      expect(addTokenUsage(undefined, usage)).toBe(usage);
+    });
+
+    it('should sum fallback prompts', () => {
+      const main = getPromptUsage({
+        ...baseInput,
+        message: { tokens: { input: 1000, output: 20 } },
+      });
+      const fallback = getPromptUsage(baseInput);
+
+      const total = addTokenUsage(main, fallback);
+
+      expect(total.promptTokens).toBe(1000 + fallback.promptTokens);
+      expect(total.completionTokens).toBe(20 + fallback.completionTokens);
+      expect(total.evalMs).toBe(4_000);
+      expect(total.promptCount).toBe(2);
+      expect(total.estimated).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Unit tests for token estimation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { estimateTokens, truncateToTokens } from '../../src/services/tokenizer.js';
+
+describe('estimateTokens', () => {
+  it('should return 0 for empty text', () => {
+    expect(estimateTokens('')).toBe(0);
+  });
+
+  it('should count common English words as one token each', () => {
+    expect(estimateTokens('Turn on the living room light')).toBe(6);
+  });
+
+  it('should split long words', () => {
+    expect(estimateTokens('supercalifragilistic')).toBe(4);
+  });
+
+  it('should count CJK characters individually', () => {
+    expect(estimateTokens('客廳的燈')).toBe(4);
+    expect(estimateTokens('ライトをつけて')).toBe(7);
+  });
+
+  it('should group digits by three', () => {
+    expect(estimateTokens('12345')).toBe(2);
+  });
+
+  it('should count punctuation and whitespace runs', () => {
+    expect(estimateTokens('Hello,   world!\n\n')).toBe(6);
+  });
+
+  it('should grow with the length of JSON output', () => {
+    const small = estimateTokens('{"action": "chat", "content": "Hi"}');
+    const large = estimateTokens(
+      '{"action": "tool_call", "tool_name": "HassTurnOn", "arguments": {"name": "Kitchen Light", "area": "Kitchen"}}',
+    );
+
+    expect(small).toBeGreaterThan(5);
+    expect(large).toBeGreaterThan(small);
+  });
+});
+
+describe('truncateToTokens', () => {
+  it('should keep text within the limit unchanged', () => {
+    expect(truncateToTokens('Turn on the light', 10)).toBe('Turn on the light');
+  });
+
+  it('should cut at a piece boundary', () => {
+    const text = 'Turn on the living room light';
+    const truncated = truncateToTokens(text, 3);
+
+    expect(truncated).toBe('Turn on the');
+    expect(estimateTokens(truncated)).toBeLessThanOrEqual(3);
+  });
+
+  it('should cut CJK text by character', () => {
+    expect(truncateToTokens('客廳的燈', 2)).toBe('客廳');
+  });
+
+  it('should keep the start of an unbroken blob', () => {
+    const blob = 'a'.repeat(600);
+    expect(truncateToTokens(blob, 10)).toBe('a'.repeat(60));
+  });
+});
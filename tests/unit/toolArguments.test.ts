@@ -0,0 +1,65 @@
+/**
+ * Unit tests for tool call argument validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildToolCallCorrectionPrompt, checkToolCall } from '../../src/services/toolArguments.js';
+import type { OllamaTool } from '../../src/types/ollama.js';
+
+const tools: OllamaTool[] = [
+  {
+    type: 'function',
+    function: {
+      name: 'HassLightSet',
+      description: 'Sets the brightness of a light',
+      parameters: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          area: { type: 'array', items: { type: 'string' } },
+          brightness: { type: 'integer', minimum: 0, maximum: 100 },
+        },
+        required: ['brightness'],
+      },
+    },
+  },
+];
+
+describe('checkToolCall', () => {
+  it('should coerce safe cases without errors', () => {
+    expect(
+      checkToolCall({ tool_name: 'HassLightSet', arguments: { area: 'Kitchen', brightness: '80' } }, tools),
+    ).toEqual({
+      call: { tool_name: 'HassLightSet', arguments: { area: ['Kitchen'], brightness: 80 } },
+      errors: [],
+    });
+  });
+
+  it('should report errors that cannot be coerced', () => {
+    const { errors } = checkToolCall({ tool_name: 'HassLightSet', arguments: { name: 'Desk' } }, tools);
+    expect(errors).toEqual(["$: missing required property 'brightness'"]);
+
+    expect(
+      checkToolCall({ tool_name: 'HassLightSet', arguments: { brightness: 150 } }, tools).errors,
+    ).toEqual(['$.brightness: must be <= 100']);
+  });
+
+  it('should pass calls to unknown tools through', () => {
+    const call = { tool_name: 'HassTurnOn', arguments: { name: 3 } };
+    expect(checkToolCall(call, tools)).toEqual({ call, errors: [] });
+  });
+});
+
+describe('buildToolCallCorrectionPrompt', () => {
+  it('should include the arguments, the errors and the expected shape', () => {
+    const prompt = buildToolCallCorrectionPrompt(
+      { tool_name: 'HassLightSet', arguments: { brightness: 150 } },
+      ['$.brightness: must be <= 100'],
+      '1. HassLightSet',
+    );
+
+    expect(prompt).toContain('{"brightness":150}');
+    expect(prompt).toContain('- $.brightness: must be <= 100');
+    expect(prompt).toContain('"tool_name": "HassLightSet"');
+  });
+});
@@ -153,6 +153,21 @@ describe('UnifiedResponse Types', () => {
       }
     });
 
+    it('should accept MultiToolCallResponse', () => {
+      const response: UnifiedResponse = {
+        action: 'tool_calls',
+        calls: [
+          { tool_name: 'HassTurnOff', arguments: { name: 'Kitchen Light' } },
+          { tool_name: 'HassLock', arguments: { name: 'Front Door' } },
+        ],
+      };
+
+      expect(response.action).toBe('tool_calls');
+      if (response.action === 'tool_calls') {
+        expect(response.calls.map((call) => call.tool_name)).toEqual(['HassTurnOff', 'HassLock']);
+      }
+    });
+
     it('should accept AnswerResponse', () => {
       const response: UnifiedResponse = {
         action: 'answer',
@@ -198,6 +213,8 @@ describe('UnifiedResponse Types', () => {
         switch (response.action) {
           case 'tool_call':
             return `Calling tool: ${response.tool_name}`;
+          case 'tool_calls':
+            return `Calling tools: ${response.calls.map((call) => call.tool_name).join(', ')}`;
           case 'answer':
             return `Answering: ${response.content}`;
           case 'chat':